@@ -19,14 +19,19 @@ import {
 
 type CalendarViewProps = {
   features: SerializedFeatureWithRelations[];
+  timeZone: string;
 };
 
 export function CalendarView({
   features: serializedFeatures,
+  timeZone,
 }: CalendarViewProps) {
   const features = useMemo(
-    () => serializedFeatures.map(deserializeFeature),
-    [serializedFeatures]
+    () =>
+      serializedFeatures.map((feature) =>
+        deserializeFeature(feature, timeZone)
+      ),
+    [serializedFeatures, timeZone]
   );
 
   const earliestYear =
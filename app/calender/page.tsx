@@ -4,7 +4,7 @@ import { CalendarView } from "./calendar-view";
 export const dynamic = "force-dynamic";
 
 export default async function CalendarPage() {
-  const { features } = await getSerializedRoadmapData();
+  const { features, timeZone } = await getSerializedRoadmapData();
 
-  return <CalendarView features={features} />;
+  return <CalendarView features={features} timeZone={timeZone} />;
 }
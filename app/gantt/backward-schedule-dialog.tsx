@@ -0,0 +1,134 @@
+"use client";
+
+import { parseISO } from "date-fns";
+import { useState } from "react";
+import type { BackwardScheduleTarget } from "@/components/kibo-ui/gantt";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { FeatureWithRelations } from "@/lib/db/types";
+
+type BackwardScheduleDialogProps = {
+  open: boolean;
+  // Features in sidebar order, used for the T# short IDs
+  features: FeatureWithRelations[];
+  onPreview: (target: BackwardScheduleTarget) => void;
+  onCancel: () => void;
+};
+
+// Target values are prefixed so releases and features share one select
+const RELEASE_PREFIX = "release:";
+const FEATURE_PREFIX = "feature:";
+
+export function BackwardScheduleDialog({
+  open,
+  features,
+  onPreview,
+  onCancel,
+}: BackwardScheduleDialogProps) {
+  const [target, setTarget] = useState("");
+  const [finishAt, setFinishAt] = useState("");
+
+  const releases = Array.from(
+    new Map(features.map((f) => [f.release.id, f.release])).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
+
+  const getTargetFeatureIds = (value: string): string[] => {
+    if (value.startsWith(RELEASE_PREFIX)) {
+      const releaseId = value.slice(RELEASE_PREFIX.length);
+      return features.filter((f) => f.releaseId === releaseId).map((f) => f.id);
+    }
+    if (value.startsWith(FEATURE_PREFIX)) {
+      return [value.slice(FEATURE_PREFIX.length)];
+    }
+    return [];
+  };
+
+  const handlePreview = () => {
+    const featureIds = getTargetFeatureIds(target);
+    if (featureIds.length === 0 || !finishAt) {
+      return;
+    }
+    onPreview({ featureIds, finishAt: parseISO(finishAt) });
+  };
+
+  const canPreview = target !== "" && finishAt !== "";
+
+  return (
+    <Dialog open={open}>
+      <DialogContent
+        className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-md"
+        showCloseButton={false}
+      >
+        <DialogHeader>
+          <DialogTitle>Schedule Backwards</DialogTitle>
+          <DialogDescription>
+            Pick a release or feature and the date it must finish by. Its
+            predecessors are moved to their latest start dates and shown as
+            pending changes for review.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 py-2">
+          <div className="grid gap-1.5">
+            <Label htmlFor="backward-target">Target</Label>
+            <select
+              className="rounded border px-2 py-1 text-sm"
+              id="backward-target"
+              onChange={(e) => setTarget(e.target.value)}
+              value={target}
+            >
+              <option value="">Select a release or feature</option>
+              <optgroup label="Releases">
+                {releases.map((release) => (
+                  <option
+                    key={release.id}
+                    value={`${RELEASE_PREFIX}${release.id}`}
+                  >
+                    {release.name}
+                  </option>
+                ))}
+              </optgroup>
+              <optgroup label="Features">
+                {features.map((feature, index) => (
+                  <option
+                    key={feature.id}
+                    value={`${FEATURE_PREFIX}${feature.id}`}
+                  >
+                    T{index + 1} {feature.name}
+                  </option>
+                ))}
+              </optgroup>
+            </select>
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="backward-finish">Finish by</Label>
+            <Input
+              id="backward-finish"
+              onChange={(e) => setFinishAt(e.target.value)}
+              type="date"
+              value={finishAt}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button disabled={!canPreview} onClick={handlePreview}>
+            Preview
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
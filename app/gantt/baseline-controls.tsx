@@ -0,0 +1,137 @@
+"use client";
+
+import { IconCamera, IconTrash } from "@tabler/icons-react";
+import { format } from "date-fns";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { BaselineWithFeatures } from "@/lib/db/types";
+import { validateName } from "@/lib/validation";
+
+type BaselineControlsProps = {
+  baselines: BaselineWithFeatures[];
+  // Baseline compared against, or null when none is shown
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  // Resolves to why the capture failed, or null once it is saved
+  onCapture: (name: string) => Promise<string | null>;
+  onDelete: (id: string) => void;
+};
+
+export function BaselineControls({
+  baselines,
+  selectedId,
+  onSelect,
+  onCapture,
+  onDelete,
+}: BaselineControlsProps) {
+  const [isCaptureOpen, setIsCaptureOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+  const nameError = validateName(name, "Baseline name");
+
+  const handleOpen = () => {
+    setName(`Baseline ${format(new Date(), "MMM d, yyyy")}`);
+    setCaptureError(null);
+    setIsCaptureOpen(true);
+  };
+
+  const handleCapture = async () => {
+    setIsCapturing(true);
+    const error = await onCapture(name);
+    setIsCapturing(false);
+    setCaptureError(error);
+    if (!error) {
+      setIsCaptureOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-muted-foreground text-sm">Baseline:</span>
+      <select
+        className="rounded border px-2 py-1 text-sm"
+        onChange={(e) => onSelect(e.target.value || null)}
+        value={selectedId ?? ""}
+      >
+        <option value="">None</option>
+        {baselines.map((baseline) => (
+          <option key={baseline.id} value={baseline.id}>
+            {baseline.name}
+          </option>
+        ))}
+      </select>
+      {selectedId ? (
+        <button
+          aria-label="Delete baseline"
+          className="rounded border p-1 text-destructive hover:bg-destructive/10"
+          onClick={() => onDelete(selectedId)}
+          type="button"
+        >
+          <IconTrash size={16} />
+        </button>
+      ) : null}
+      <button
+        className="flex items-center gap-1.5 rounded border px-2 py-1 text-sm hover:bg-secondary"
+        onClick={handleOpen}
+        type="button"
+      >
+        <IconCamera size={16} />
+        Capture baseline
+      </button>
+
+      <Dialog open={isCaptureOpen}>
+        <DialogContent
+          className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-md"
+          showCloseButton={false}
+        >
+          <DialogHeader>
+            <DialogTitle>Capture Baseline</DialogTitle>
+            <DialogDescription>
+              Snapshot the saved dates of every feature. Pending changes are not
+              included until they are saved.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-1.5 py-2">
+            <Label htmlFor="baseline-name">Name</Label>
+            <Input
+              aria-invalid={nameError !== null}
+              id="baseline-name"
+              onChange={(e) => setName(e.target.value)}
+              value={name}
+            />
+            {nameError ? (
+              <p className="text-destructive text-sm">{nameError}</p>
+            ) : null}
+          </div>
+          {captureError ? (
+            <p className="text-destructive text-sm">{captureError}</p>
+          ) : null}
+
+          <DialogFooter>
+            <Button onClick={() => setIsCaptureOpen(false)} variant="outline">
+              Cancel
+            </Button>
+            <Button
+              disabled={isCapturing || nameError !== null}
+              onClick={handleCapture}
+            >
+              Capture
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
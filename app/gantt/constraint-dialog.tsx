@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  CONSTRAINT_LABELS,
+  type GanttConstraintType,
+  type GanttFeature,
+} from "@/components/kibo-ui/gantt";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const CONSTRAINT_TYPES = Object.keys(
+  CONSTRAINT_LABELS
+) as GanttConstraintType[];
+
+export type ConstraintValue = {
+  constraintType: GanttConstraintType | null;
+  constraintDate: string | null;
+};
+
+type ConstraintDialogProps = {
+  // Feature being edited, or null when the dialog is closed
+  feature: GanttFeature | null;
+  onSave: (featureId: string, value: ConstraintValue) => void;
+  onCancel: () => void;
+};
+
+export function ConstraintDialog({
+  feature,
+  onSave,
+  onCancel,
+}: ConstraintDialogProps) {
+  const [type, setType] = useState<GanttConstraintType | "">("");
+  const [date, setDate] = useState("");
+
+  useEffect(() => {
+    setType(feature?.constraintType ?? "");
+    setDate(feature?.constraintDate ?? "");
+  }, [feature]);
+
+  const handleSave = () => {
+    if (!feature) {
+      return;
+    }
+    onSave(
+      feature.id,
+      type && date
+        ? { constraintType: type, constraintDate: date }
+        : { constraintType: null, constraintDate: null }
+    );
+  };
+
+  const missingDate = type !== "" && date === "";
+
+  return (
+    <Dialog open={feature !== null}>
+      <DialogContent
+        className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-md"
+        showCloseButton={false}
+      >
+        <DialogHeader>
+          <DialogTitle>Scheduling Constraint</DialogTitle>
+          <DialogDescription>
+            Limit when {feature?.name ?? "this feature"} can be scheduled.
+            Conflicts with dependencies are reported as warnings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 py-2">
+          <div className="grid gap-1.5">
+            <Label htmlFor="constraint-type">Constraint</Label>
+            <select
+              className="rounded border px-2 py-1 text-sm"
+              id="constraint-type"
+              onChange={(e) => setType(e.target.value as GanttConstraintType)}
+              value={type}
+            >
+              <option value="">None (as soon as possible)</option>
+              {CONSTRAINT_TYPES.map((option) => (
+                <option key={option} value={option}>
+                  {CONSTRAINT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="constraint-date">Date</Label>
+            <Input
+              disabled={type === ""}
+              id="constraint-date"
+              onChange={(e) => setDate(e.target.value)}
+              type="date"
+              value={date}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button disabled={missingDate} onClick={handleSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
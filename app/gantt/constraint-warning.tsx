@@ -0,0 +1,56 @@
+"use client";
+
+import { IconAlertTriangle } from "@tabler/icons-react";
+import {
+  type ConstraintViolation,
+  formatConstraint,
+  type GanttFeature,
+} from "@/components/kibo-ui/gantt";
+
+type ConstraintWarningProps = {
+  violations: ConstraintViolation[];
+  // Features in sidebar order, used for the T# short IDs
+  features: GanttFeature[];
+};
+
+export function ConstraintWarning({
+  violations,
+  features,
+}: ConstraintWarningProps) {
+  if (violations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="flex items-start gap-2 border-b bg-amber-500/10 px-3 py-2 text-amber-700 text-sm dark:text-amber-400"
+      role="alert"
+    >
+      <IconAlertTriangle className="mt-0.5 shrink-0" size={16} />
+      <div>
+        <p className="font-medium">
+          {violations.length} scheduling constraint
+          {violations.length === 1 ? " is" : "s are"} not met
+        </p>
+        <ul className="mt-1 text-xs">
+          {violations.map((violation) => {
+            const index = features.findIndex(
+              (feature) => feature.id === violation.featureId
+            );
+            const violating = features[index];
+            const name = violating
+              ? `T${index + 1} ${violating.name}`
+              : violation.featureId;
+            const constraint = violating ? formatConstraint(violating) : null;
+            return (
+              <li key={violation.featureId}>
+                {name}: {violation.message}
+                {constraint ? ` (${constraint})` : ""}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
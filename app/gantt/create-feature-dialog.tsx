@@ -0,0 +1,321 @@
+"use client";
+
+import { differenceInMilliseconds, format, parseISO } from "date-fns";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { FeatureLookups, FeatureWithRelations } from "@/lib/db/types";
+import {
+  type FieldErrors,
+  hasFieldErrors,
+  validateFeature,
+} from "@/lib/validation";
+import {
+  type FeatureDraft,
+  getDraftEnd,
+  type NewFeatureValues,
+} from "./new-feature";
+
+const DATE_FORMAT = "yyyy-MM-dd";
+// Value format of a datetime-local input, used for drafts from the hourly range
+const DATE_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const getDateFormat = (draft: FeatureDraft | null) =>
+  draft?.hourly ? DATE_TIME_FORMAT : DATE_FORMAT;
+
+type FormState = {
+  name: string;
+  start: string;
+  end: string;
+  statusId: string;
+  ownerId: string;
+  groupId: string;
+  productId: string;
+  initiativeId: string;
+  releaseId: string;
+  // Feature the new one follows (finish-to-start), or "" for none
+  predecessorId: string;
+};
+
+function getInitialForm(
+  draft: FeatureDraft | null,
+  lookups: FeatureLookups
+): FormState {
+  const startAt = draft?.startAt ?? new Date();
+  const defaults = draft?.defaults ?? {};
+  const dateFormat = getDateFormat(draft);
+  return {
+    name: "",
+    start: format(startAt, dateFormat),
+    end: format(getDraftEnd(startAt), dateFormat),
+    statusId: lookups.statuses[0]?.id ?? "",
+    ownerId: "",
+    groupId: defaults.groupId ?? lookups.groups[0]?.id ?? "",
+    productId: defaults.productId ?? lookups.products[0]?.id ?? "",
+    initiativeId: defaults.initiativeId ?? lookups.initiatives[0]?.id ?? "",
+    releaseId: defaults.releaseId ?? lookups.releases[0]?.id ?? "",
+    predecessorId: "",
+  };
+}
+
+function toValues(form: FormState): NewFeatureValues {
+  return {
+    name: form.name,
+    startAt: parseISO(form.start),
+    endAt: parseISO(form.end),
+    statusId: form.statusId,
+    ownerId: form.ownerId || null,
+    groupId: form.groupId,
+    productId: form.productId,
+    initiativeId: form.initiativeId,
+    releaseId: form.releaseId,
+  };
+}
+
+type LookupSelectProps = {
+  field: keyof FormState;
+  label: string;
+  value: string;
+  options: { id: string; name: string }[];
+  error?: string;
+  // Label of an empty choice, for optional fields
+  noneLabel?: string;
+  onChange: (field: keyof FormState, value: string) => void;
+};
+
+function LookupSelect({
+  field,
+  label,
+  value,
+  options,
+  error,
+  noneLabel,
+  onChange,
+}: LookupSelectProps) {
+  const id = `new-feature-${field}`;
+  return (
+    <div className="grid gap-1.5">
+      <Label htmlFor={id}>{label}</Label>
+      <select
+        aria-invalid={Boolean(error)}
+        className="rounded border px-2 py-1 text-sm"
+        id={id}
+        onChange={(e) => onChange(field, e.target.value)}
+        value={value}
+      >
+        {noneLabel === undefined ? null : <option value="">{noneLabel}</option>}
+        {options.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+      {error ? <p className="text-destructive text-xs">{error}</p> : null}
+    </div>
+  );
+}
+
+type CreateFeatureDialogProps = {
+  // Feature being created, or null when the dialog is closed
+  draft: FeatureDraft | null;
+  lookups: FeatureLookups;
+  // Features the new one can be linked after
+  features: FeatureWithRelations[];
+  onCreate: (values: NewFeatureValues, predecessorId: string | null) => void;
+  onCancel: () => void;
+};
+
+// New feature from the "+" on the timeline, starting on the clicked day (or
+// hour, in the hourly range) in the hovered row's group
+export function CreateFeatureDialog({
+  draft,
+  lookups,
+  features,
+  onCreate,
+  onCancel,
+}: CreateFeatureDialogProps) {
+  const [form, setForm] = useState(() => getInitialForm(draft, lookups));
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const dateFormat = getDateFormat(draft);
+  const dateInputType = draft?.hourly ? "datetime-local" : "date";
+
+  useEffect(() => {
+    setForm(getInitialForm(draft, lookups));
+    setErrors({});
+  }, [draft, lookups]);
+
+  const handleChange = (field: keyof FormState, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  // Following a feature that ends later moves the start to its end, keeping
+  // the length entered so far
+  const handlePredecessorChange = (field: keyof FormState, value: string) => {
+    const predecessor = features.find((feature) => feature.id === value);
+    setForm((prev) => {
+      const startAt = parseISO(prev.start);
+      const endAt = parseISO(prev.end);
+      if (!predecessor || predecessor.endAt <= startAt) {
+        return { ...prev, [field]: value };
+      }
+      const length = differenceInMilliseconds(endAt, startAt);
+      return {
+        ...prev,
+        [field]: value,
+        start: format(predecessor.endAt, dateFormat),
+        end: format(
+          new Date(predecessor.endAt.getTime() + Math.max(length, 0)),
+          dateFormat
+        ),
+      };
+    });
+  };
+
+  const handleCreate = () => {
+    const values = toValues(form);
+    const fieldErrors = validateFeature(values, { create: true });
+    setErrors(fieldErrors);
+    if (hasFieldErrors(fieldErrors)) {
+      return;
+    }
+    onCreate(
+      { ...values, name: values.name.trim() },
+      form.predecessorId || null
+    );
+  };
+
+  return (
+    <Dialog open={draft !== null}>
+      <DialogContent
+        className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-lg"
+        showCloseButton={false}
+      >
+        <DialogHeader>
+          <DialogTitle>New Feature</DialogTitle>
+          <DialogDescription>
+            Statuses, groups and the other lists are managed in Settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 py-2">
+          <div className="grid gap-1.5">
+            <Label htmlFor="new-feature-name">Name</Label>
+            <Input
+              aria-invalid={Boolean(errors.name)}
+              id="new-feature-name"
+              onChange={(e) => handleChange("name", e.target.value)}
+              value={form.name}
+            />
+            {errors.name ? (
+              <p className="text-destructive text-xs">{errors.name}</p>
+            ) : null}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-1.5">
+              <Label htmlFor="new-feature-start">Start</Label>
+              <Input
+                aria-invalid={Boolean(errors.startAt)}
+                id="new-feature-start"
+                onChange={(e) => handleChange("start", e.target.value)}
+                type={dateInputType}
+                value={form.start}
+              />
+              {errors.startAt ? (
+                <p className="text-destructive text-xs">{errors.startAt}</p>
+              ) : null}
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="new-feature-end">End</Label>
+              <Input
+                aria-invalid={Boolean(errors.endAt)}
+                id="new-feature-end"
+                onChange={(e) => handleChange("end", e.target.value)}
+                type={dateInputType}
+                value={form.end}
+              />
+              {errors.endAt ? (
+                <p className="text-destructive text-xs">{errors.endAt}</p>
+              ) : null}
+            </div>
+            <LookupSelect
+              error={errors.statusId}
+              field="statusId"
+              label="Status"
+              onChange={handleChange}
+              options={lookups.statuses}
+              value={form.statusId}
+            />
+            <LookupSelect
+              field="ownerId"
+              label="Owner"
+              noneLabel="Unassigned"
+              onChange={handleChange}
+              options={lookups.users}
+              value={form.ownerId}
+            />
+            <LookupSelect
+              error={errors.groupId}
+              field="groupId"
+              label="Group"
+              onChange={handleChange}
+              options={lookups.groups}
+              value={form.groupId}
+            />
+            <LookupSelect
+              error={errors.productId}
+              field="productId"
+              label="Product"
+              onChange={handleChange}
+              options={lookups.products}
+              value={form.productId}
+            />
+            <LookupSelect
+              error={errors.initiativeId}
+              field="initiativeId"
+              label="Initiative"
+              onChange={handleChange}
+              options={lookups.initiatives}
+              value={form.initiativeId}
+            />
+            <LookupSelect
+              error={errors.releaseId}
+              field="releaseId"
+              label="Release"
+              onChange={handleChange}
+              options={lookups.releases}
+              value={form.releaseId}
+            />
+          </div>
+          <LookupSelect
+            field="predecessorId"
+            label="Starts after (optional)"
+            noneLabel="No predecessor"
+            onChange={handlePredecessorChange}
+            options={features}
+            value={form.predecessorId}
+          />
+          {form.predecessorId ? (
+            <p className="text-muted-foreground text-xs">
+              The new feature is linked as a finish-to-start successor.
+            </p>
+          ) : null}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={handleCreate}>Create</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { IconAlertTriangle } from "@tabler/icons-react";
+import type { GanttFeature } from "@/components/kibo-ui/gantt";
+
+type DependencyCycleWarningProps = {
+  cycles: string[][];
+  // Features in sidebar order, used for the T# short IDs
+  features: GanttFeature[];
+};
+
+export function DependencyCycleWarning({
+  cycles,
+  features,
+}: DependencyCycleWarningProps) {
+  if (cycles.length === 0) {
+    return null;
+  }
+
+  const getLabel = (id: string) => {
+    const index = features.findIndex((feature) => feature.id === id);
+    return index >= 0 ? `T${index + 1} ${features[index].name}` : id;
+  };
+
+  return (
+    <div
+      className="flex items-start gap-2 border-b bg-amber-500/10 px-3 py-2 text-amber-700 text-sm dark:text-amber-400"
+      role="alert"
+    >
+      <IconAlertTriangle className="mt-0.5 shrink-0" size={16} />
+      <div>
+        <p className="font-medium">
+          Circular dependencies found. Features in a cycle are skipped when
+          scheduling.
+        </p>
+        <ul className="mt-1 text-xs">
+          {cycles.map((cycle) => (
+            <li key={cycle.join("-")}>{cycle.map(getLabel).join(" → ")}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { GanttFeature } from "@/components/kibo-ui/gantt";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getFirstFieldError, validateEstimate } from "@/lib/validation";
+
+export type EstimateValue = {
+  optimisticDuration: number | null;
+  mostLikelyDuration: number | null;
+  pessimisticDuration: number | null;
+};
+
+type EstimateDialogProps = {
+  // Feature being edited, or null when the dialog is closed
+  feature: GanttFeature | null;
+  onSave: (featureId: string, value: EstimateValue) => void;
+  onCancel: () => void;
+};
+
+const toInput = (value: number | null | undefined) =>
+  value === null || value === undefined ? "" : String(value);
+
+const toNumber = (value: string) => (value === "" ? null : Number(value));
+
+export function EstimateDialog({
+  feature,
+  onSave,
+  onCancel,
+}: EstimateDialogProps) {
+  const [optimistic, setOptimistic] = useState("");
+  const [mostLikely, setMostLikely] = useState("");
+  const [pessimistic, setPessimistic] = useState("");
+
+  useEffect(() => {
+    setOptimistic(toInput(feature?.optimisticDuration));
+    setMostLikely(toInput(feature?.mostLikelyDuration));
+    setPessimistic(toInput(feature?.pessimisticDuration));
+  }, [feature]);
+
+  const min = toNumber(optimistic);
+  const mode = toNumber(mostLikely);
+  const max = toNumber(pessimistic);
+
+  const error = getFirstFieldError(
+    validateEstimate({
+      optimisticDuration: min,
+      mostLikelyDuration: mode,
+      pessimisticDuration: max,
+    })
+  );
+
+  const handleSave = () => {
+    if (!feature) {
+      return;
+    }
+    onSave(
+      feature.id,
+      min === null || max === null
+        ? {
+            optimisticDuration: null,
+            mostLikelyDuration: null,
+            pessimisticDuration: null,
+          }
+        : {
+            optimisticDuration: min,
+            mostLikelyDuration: mode,
+            pessimisticDuration: max,
+          }
+    );
+  };
+
+  return (
+    <Dialog open={feature !== null}>
+      <DialogContent
+        className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-md"
+        showCloseButton={false}
+      >
+        <DialogHeader>
+          <DialogTitle>Duration Estimate</DialogTitle>
+          <DialogDescription>
+            Three-point estimate for {feature?.name ?? "this feature"}, in days.
+            The risk simulation draws durations between the optimistic and
+            pessimistic values; most likely defaults to the bar's length.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-3 py-2">
+          <div className="grid gap-1.5">
+            <Label htmlFor="estimate-optimistic">Optimistic</Label>
+            <Input
+              id="estimate-optimistic"
+              min={0}
+              onChange={(e) => setOptimistic(e.target.value)}
+              type="number"
+              value={optimistic}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="estimate-most-likely">Most likely</Label>
+            <Input
+              id="estimate-most-likely"
+              min={0}
+              onChange={(e) => setMostLikely(e.target.value)}
+              type="number"
+              value={mostLikely}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="estimate-pessimistic">Pessimistic</Label>
+            <Input
+              id="estimate-pessimistic"
+              min={0}
+              onChange={(e) => setPessimistic(e.target.value)}
+              type="number"
+              value={pessimistic}
+            />
+          </div>
+        </div>
+        {error ? <p className="text-destructive text-sm">{error}</p> : null}
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button disabled={error !== null} onClick={handleSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
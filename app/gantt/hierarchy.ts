@@ -0,0 +1,94 @@
+import groupBy from "lodash.groupby";
+import {
+  buildFeatureTree,
+  flattenFeatureTree,
+  type GanttTreeRow,
+} from "@/components/kibo-ui/gantt";
+import type { FeatureWithRelations } from "@/lib/db/types";
+
+// How the sidebar organises features: the parent/child tree on its own, or
+// sections by a related record with the tree nested inside each section
+export type HierarchyMode =
+  | "tree"
+  | "group"
+  | "product"
+  | "initiative"
+  | "release";
+
+export const HIERARCHY_OPTIONS: { value: HierarchyMode; label: string }[] = [
+  { value: "group", label: "Group" },
+  { value: "product", label: "Product" },
+  { value: "initiative", label: "Initiative" },
+  { value: "release", label: "Release" },
+  { value: "tree", label: "Work breakdown" },
+];
+
+export type FeatureSection = {
+  name: string;
+  // Rows shown, skipping the children of collapsed parents
+  rows: GanttTreeRow<FeatureWithRelations>[];
+  // Every row in the section, collapsed or not
+  allRows: GanttTreeRow<FeatureWithRelations>[];
+};
+
+// Settings position of the record a section groups by, for ordering sections
+function getSectionPosition(
+  sectionFeatures: FeatureWithRelations[],
+  mode: HierarchyMode
+): number {
+  return mode === "tree" ? 0 : (sectionFeatures[0]?.[mode].position ?? 0);
+}
+
+/**
+ * Split features into sidebar sections for a hierarchy mode, in the order set
+ * on the settings page (then by name), each holding its features as a
+ * parent/child tree. A child whose parent falls in another section starts a
+ * tree of its own.
+ */
+export function getFeatureSections(
+  features: FeatureWithRelations[],
+  mode: HierarchyMode,
+  collapsed: Set<string>
+): FeatureSection[] {
+  const grouped =
+    mode === "tree"
+      ? { "All features": features }
+      : groupBy(features, `${mode}.name`);
+
+  return Object.entries(grouped)
+    .sort(
+      ([nameA, featuresA], [nameB, featuresB]) =>
+        getSectionPosition(featuresA, mode) -
+          getSectionPosition(featuresB, mode) || nameA.localeCompare(nameB)
+    )
+    .map(([name, sectionFeatures]) => {
+      const tree = buildFeatureTree(sectionFeatures);
+      return {
+        name,
+        rows: flattenFeatureTree(tree, collapsed),
+        allRows: flattenFeatureTree(tree),
+      };
+    });
+}
+
+/**
+ * Find the feature shown in a row of the timeline, counting each section's
+ * header as a row. A header row gives the first feature of its section.
+ *
+ * @param sections - Sidebar sections as rendered
+ * @param row - Row index from the top of the feature list
+ * @returns The feature in that row, or null below the last one
+ */
+export function getFeatureAtRow(
+  sections: FeatureSection[],
+  row: number
+): FeatureWithRelations | null {
+  let remaining = row;
+  for (const section of sections) {
+    if (remaining <= section.rows.length) {
+      return section.rows[Math.max(remaining - 1, 0)]?.feature ?? null;
+    }
+    remaining -= section.rows.length + 1;
+  }
+  return null;
+}
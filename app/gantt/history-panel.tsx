@@ -0,0 +1,197 @@
+"use client";
+
+import { format } from "date-fns";
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { AuditEventWithActor, Feature } from "@/lib/db/types";
+import { toZonedDate } from "@/lib/time-zone";
+import { getFeatureHistory, revertFeature } from "../roadmap/actions";
+
+const SOURCE_LABELS: Record<AuditEventWithActor["source"], string> = {
+  edit: "Edit",
+  drag: "Drag",
+  recalculate: "Recalc",
+  level: "Level",
+  backward: "Backward",
+  import: "Import",
+  revert: "Revert",
+  rollup: "Rollup",
+};
+
+// Field names as shown in a change summary; unlisted fields are not shown
+const FIELD_LABELS: Partial<Record<keyof Feature, string>> = {
+  name: "name",
+  startAt: "start",
+  endAt: "end",
+  kind: "kind",
+  parentId: "parent",
+  statusId: "status",
+  ownerId: "owner",
+  groupId: "group",
+  productId: "product",
+  initiativeId: "initiative",
+  releaseId: "release",
+  constraintType: "constraint",
+  constraintDate: "constraint date",
+  optimisticDuration: "estimate",
+  mostLikelyDuration: "estimate",
+  pessimisticDuration: "estimate",
+  percentComplete: "progress",
+};
+
+function describeChange(event: AuditEventWithActor): string {
+  if (event.action === "create") {
+    return "Created";
+  }
+  if (event.action === "delete") {
+    return "Moved to trash";
+  }
+  if (event.action === "restore") {
+    return "Restored from trash";
+  }
+  const before = (event.before ?? {}) as Record<string, unknown>;
+  const after = (event.after ?? {}) as Record<string, unknown>;
+  const changed = new Set<string>();
+  for (const [field, label] of Object.entries(FIELD_LABELS)) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changed.add(label);
+    }
+  }
+  return changed.size > 0
+    ? `Changed ${Array.from(changed).join(", ")}`
+    : "No visible changes";
+}
+
+type HistoryPanelProps = {
+  // Feature whose history is shown, or null when the panel is closed
+  feature: { id: string; name: string } | null;
+  timeZone: string;
+  // The reverted feature, and any parents whose rolled-up dates moved
+  onRevert: (feature: Feature, rolledUp: Feature[]) => void;
+  onClose: () => void;
+};
+
+// Audit log of a feature, newest first, with a way back to any earlier version
+export function HistoryPanel({
+  feature,
+  timeZone,
+  onRevert,
+  onClose,
+}: HistoryPanelProps) {
+  const [events, setEvents] = useState<AuditEventWithActor[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const featureId = feature?.id;
+  useEffect(() => {
+    setEvents([]);
+    setError(null);
+    if (!featureId) {
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    getFeatureHistory(featureId).then((result) => {
+      if (cancelled) {
+        return;
+      }
+      setIsLoading(false);
+      if (result.success) {
+        setEvents(result.data);
+      } else {
+        setError(result.error);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [featureId]);
+
+  const handleRevert = async (eventId: string) => {
+    const result = await revertFeature(eventId);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    onRevert(result.data, result.rolledUp);
+    onClose();
+  };
+
+  return (
+    <Dialog open={feature !== null}>
+      <DialogContent
+        className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-lg"
+        showCloseButton={false}
+      >
+        <DialogHeader>
+          <DialogTitle>History</DialogTitle>
+          <DialogDescription>
+            Every saved change to {feature?.name ?? "this feature"}. Reverting
+            restores the feature as it was right after that change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-96">
+          {events.length === 0 ? (
+            <p className="py-4 text-center text-muted-foreground text-sm">
+              {isLoading ? "Loading history…" : "No changes recorded yet."}
+            </p>
+          ) : (
+            <ol className="divide-y">
+              {events.map((event) => (
+                <li
+                  className="flex items-center justify-between gap-3 py-2"
+                  key={event.id}
+                >
+                  <div className="grid gap-0.5">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-medium">
+                        {event.actor?.name ?? "Unknown"}
+                      </span>
+                      <Badge variant="outline">
+                        {SOURCE_LABELS[event.source]}
+                      </Badge>
+                    </div>
+                    <p className="text-muted-foreground text-xs">
+                      {format(
+                        toZonedDate(new Date(event.createdAt), timeZone),
+                        "MMM d, yyyy HH:mm"
+                      )}{" "}
+                      · {describeChange(event)}
+                    </p>
+                  </div>
+                  {event.after ? (
+                    <Button
+                      onClick={() => handleRevert(event.id)}
+                      size="sm"
+                      variant="outline"
+                    >
+                      Revert to this version
+                    </Button>
+                  ) : null}
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+        {error ? <p className="text-destructive text-sm">{error}</p> : null}
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline">
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type {
+  GanttDependency,
+  GanttDependencyChanges,
+  GanttLagUnit,
+} from "@/components/kibo-ui/gantt";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getFirstFieldError, validateLag } from "@/lib/validation";
+
+type LagDialogProps = {
+  // Dependency being edited, or null when the dialog is closed
+  dependency: GanttDependency | null;
+  onSave: (dependencyId: string, changes: GanttDependencyChanges) => void;
+  onCancel: () => void;
+};
+
+export function LagDialog({ dependency, onSave, onCancel }: LagDialogProps) {
+  const [lag, setLag] = useState("0");
+  const [lagUnit, setLagUnit] = useState<GanttLagUnit>("calendar");
+
+  useEffect(() => {
+    setLag(String(dependency?.lag ?? 0));
+    setLagUnit(dependency?.lagUnit ?? "calendar");
+  }, [dependency]);
+
+  const error = getFirstFieldError(
+    validateLag(lag === "" ? Number.NaN : Number(lag))
+  );
+
+  const handleSave = () => {
+    if (!dependency || error) {
+      return;
+    }
+    onSave(dependency.id, { lag: Number(lag), lagUnit });
+  };
+
+  return (
+    <Dialog open={dependency !== null}>
+      <DialogContent
+        className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-md"
+        showCloseButton={false}
+      >
+        <DialogHeader>
+          <DialogTitle>Dependency Lag</DialogTitle>
+          <DialogDescription>
+            Days to wait after the predecessor before the successor can move.
+            Use a negative lag for overlap (lead time).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3 py-2">
+          <div className="grid gap-1.5">
+            <Label htmlFor="dependency-lag">Lag</Label>
+            <Input
+              id="dependency-lag"
+              onChange={(e) => setLag(e.target.value)}
+              step={1}
+              type="number"
+              value={lag}
+            />
+          </div>
+          <div className="grid gap-1.5">
+            <Label htmlFor="dependency-lag-unit">Unit</Label>
+            <select
+              className="rounded border px-2 py-1 text-sm"
+              id="dependency-lag-unit"
+              onChange={(e) => setLagUnit(e.target.value as GanttLagUnit)}
+              value={lagUnit}
+            >
+              <option value="calendar">Calendar days</option>
+              <option value="working">Working days</option>
+            </select>
+          </div>
+        </div>
+        {error ? <p className="text-destructive text-sm">{error}</p> : null}
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button disabled={error !== null} onClick={handleSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
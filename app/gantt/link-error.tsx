@@ -0,0 +1,35 @@
+"use client";
+
+import { IconLinkOff, IconX } from "@tabler/icons-react";
+
+type LinkErrorProps = {
+  // Why the last drawn link was rejected, or null when there is nothing to show
+  message: string | null;
+  onDismiss: () => void;
+};
+
+export function LinkError({ message, onDismiss }: LinkErrorProps) {
+  if (message === null) {
+    return null;
+  }
+
+  return (
+    <div
+      className="flex items-center gap-2 border-b bg-destructive/10 px-3 py-2 text-destructive text-sm"
+      role="alert"
+    >
+      <IconLinkOff className="shrink-0" size={16} />
+      <p>
+        <span className="font-medium">Could not link features.</span> {message}
+      </p>
+      <button
+        aria-label="Dismiss"
+        className="ml-auto rounded p-1 hover:bg-destructive/10"
+        onClick={onDismiss}
+        type="button"
+      >
+        <IconX size={14} />
+      </button>
+    </div>
+  );
+}
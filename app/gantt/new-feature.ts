@@ -0,0 +1,133 @@
+import { addDays, startOfDay, startOfHour } from "date-fns";
+import type { Range } from "@/components/kibo-ui/gantt";
+import type {
+  Feature,
+  FeatureLookups,
+  FeatureWithRelations,
+} from "@/lib/db/types";
+import type { HierarchyMode } from "./hierarchy";
+
+// Length of a feature created from the timeline until its end is changed
+export const NEW_FEATURE_DAYS = 7;
+
+// Prefix of the temporary id a new feature's bar has until it is saved
+const PENDING_ID_PREFIX = "new-";
+
+// Fields the create-feature dialog asks for; dates are wall-clock time in
+// the workspace time zone
+export type NewFeatureValues = Pick<
+  Feature,
+  | "name"
+  | "startAt"
+  | "endAt"
+  | "statusId"
+  | "ownerId"
+  | "groupId"
+  | "productId"
+  | "initiativeId"
+  | "releaseId"
+>;
+
+// A feature about to be created from the "+" on the timeline
+export type FeatureDraft = {
+  startAt: Date;
+  // Started from the hourly range, where the time of day is kept
+  hourly: boolean;
+  // Taken from the row the "+" was clicked in, so the new bar lands there
+  defaults: Partial<
+    Pick<Feature, "groupId" | "productId" | "initiativeId" | "releaseId">
+  >;
+};
+
+/**
+ * Start a draft at the clicked day, or the clicked hour in the hourly range.
+ * The group comes from the hovered row's
+ * feature, and so does the product, initiative or release when the sidebar
+ * is sectioned by one.
+ *
+ * @param date - Clicked date on the timeline
+ * @param hovered - Feature in the hovered row, if any
+ * @param mode - How the sidebar sections features
+ * @param range - Range the timeline is shown in
+ */
+export function createFeatureDraft(
+  date: Date,
+  hovered: FeatureWithRelations | null,
+  mode: HierarchyMode,
+  range: Range
+): FeatureDraft {
+  const defaults: FeatureDraft["defaults"] = {};
+  if (hovered) {
+    defaults.groupId = hovered.groupId;
+    if (mode === "product" || mode === "initiative" || mode === "release") {
+      defaults[`${mode}Id`] = hovered[`${mode}Id`];
+    }
+  }
+  const hourly = range === "hourly";
+  return {
+    startAt: hourly ? startOfHour(date) : startOfDay(date),
+    hourly,
+    defaults,
+  };
+}
+
+export function getDraftEnd(startAt: Date): Date {
+  return addDays(startAt, NEW_FEATURE_DAYS);
+}
+
+export function createPendingFeatureId(): string {
+  return `${PENDING_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+// Whether a bar is a new feature still being saved; it cannot be moved,
+// linked or edited until the server returns its real id
+export function isPendingFeature(id: string): boolean {
+  return id.startsWith(PENDING_ID_PREFIX);
+}
+
+/**
+ * The row shown on the timeline while a new feature is being saved.
+ *
+ * @param id - Temporary id, replaced once the server returns the feature
+ * @param values - Fields from the create-feature dialog
+ * @param lookups - Rows the feature's references point at
+ * @returns The feature with its relations, or null if a reference is unknown
+ */
+export function buildOptimisticFeature(
+  id: string,
+  values: NewFeatureValues,
+  lookups: FeatureLookups
+): FeatureWithRelations | null {
+  const status = lookups.statuses.find((row) => row.id === values.statusId);
+  const group = lookups.groups.find((row) => row.id === values.groupId);
+  const product = lookups.products.find((row) => row.id === values.productId);
+  const initiative = lookups.initiatives.find(
+    (row) => row.id === values.initiativeId
+  );
+  const release = lookups.releases.find((row) => row.id === values.releaseId);
+  if (!(status && group && product && initiative && release)) {
+    return null;
+  }
+  const now = new Date();
+  return {
+    ...values,
+    id,
+    kind: "task",
+    parentId: null,
+    constraintType: null,
+    constraintDate: null,
+    optimisticDuration: null,
+    mostLikelyDuration: null,
+    pessimisticDuration: null,
+    percentComplete: 0,
+    createdAt: now,
+    updatedAt: now,
+    deletedAt: null,
+    status,
+    owner: lookups.users.find((row) => row.id === values.ownerId) ?? null,
+    group,
+    product,
+    initiative,
+    release,
+  };
+}
@@ -4,13 +4,29 @@ import { GanttView } from "./gantt-view";
 export const dynamic = "force-dynamic";
 
 export default async function GanttPage() {
-  const { features, dependencies, markers } = await getSerializedRoadmapData();
+  const {
+    features,
+    dependencies,
+    markers,
+    calendars,
+    calendarId,
+    baselines,
+    timeZone,
+    lookups,
+  } = await getSerializedRoadmapData();
 
   return (
     <GanttView
+      baselines={baselines}
+      calendarId={calendarId}
+      calendars={calendars}
       dependencies={dependencies}
       initialFeatures={features}
+      // Remount on a time zone change so dates are shifted afresh
+      key={timeZone}
+      lookups={lookups}
       markers={markers}
+      timeZone={timeZone}
     />
   );
 }
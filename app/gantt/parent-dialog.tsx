@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { type GanttFeature, isDescendantOf } from "@/components/kibo-ui/gantt";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+
+type ParentDialogProps = {
+  // Feature being moved, or null when the dialog is closed
+  feature: GanttFeature | null;
+  // Candidate parents, in sidebar order
+  features: GanttFeature[];
+  onSave: (featureId: string, parentId: string | null) => void;
+  onCancel: () => void;
+};
+
+export function ParentDialog({
+  feature,
+  features,
+  onSave,
+  onCancel,
+}: ParentDialogProps) {
+  const [parentId, setParentId] = useState("");
+
+  useEffect(() => {
+    setParentId(feature?.parentId ?? "");
+  }, [feature]);
+
+  // A feature cannot sit under itself or anything below it
+  const candidates = feature
+    ? features.filter(
+        (f) =>
+          f.id !== feature.id && !isDescendantOf(f.id, feature.id, features)
+      )
+    : [];
+
+  const handleSave = () => {
+    if (!feature) {
+      return;
+    }
+    onSave(feature.id, parentId || null);
+  };
+
+  return (
+    <Dialog open={feature !== null}>
+      <DialogContent
+        className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-md"
+        showCloseButton={false}
+      >
+        <DialogHeader>
+          <DialogTitle>Parent Feature</DialogTitle>
+          <DialogDescription>
+            Place {feature?.name ?? "this feature"} under another feature. A
+            parent's dates span its children, and dependencies on the parent
+            apply to every child.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-1.5 py-2">
+          <Label htmlFor="parent-feature">Parent</Label>
+          <select
+            className="rounded border px-2 py-1 text-sm"
+            id="parent-feature"
+            onChange={(e) => setParentId(e.target.value)}
+            value={parentId}
+          >
+            <option value="">None (top level)</option>
+            {candidates.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,13 @@
 "use client";
 
-import { IconSquare, IconSquareCheck } from "@tabler/icons-react";
+import {
+  IconChevronDown,
+  IconChevronRight,
+  IconSquare,
+  IconSquareCheck,
+} from "@tabler/icons-react";
 import { format } from "date-fns";
+import { Fragment, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -21,7 +27,158 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import type { PendingChange } from "./types";
+import type {
+  ChangeConflict,
+  ConflictResolution,
+  PendingChange,
+} from "./types";
+
+const SOURCE_BADGES: Record<
+  PendingChange["source"],
+  { label: string; variant: "secondary" | "outline" }
+> = {
+  drag: { label: "Drag", variant: "secondary" },
+  recalculate: { label: "Recalc", variant: "outline" },
+  level: { label: "Level", variant: "outline" },
+  backward: { label: "Backward", variant: "outline" },
+};
+
+// Chevron that expands the "why did this move?" trace of a change
+function TraceToggle({
+  expanded,
+  onToggle,
+}: {
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <button
+      aria-expanded={expanded}
+      aria-label="Why did this move?"
+      className="shrink-0 rounded text-muted-foreground hover:text-foreground"
+      onClick={(event) => {
+        event.stopPropagation();
+        onToggle();
+      }}
+      type="button"
+    >
+      {expanded ? (
+        <IconChevronDown size={14} />
+      ) : (
+        <IconChevronRight size={14} />
+      )}
+    </button>
+  );
+}
+
+function TraceRow({ trace }: { trace: string[] }) {
+  return (
+    <TableRow className="bg-muted/40 hover:bg-muted/40">
+      <TableCell className="p-2" />
+      <TableCell className="whitespace-normal p-2 text-xs" colSpan={4}>
+        <ol className="list-decimal space-y-0.5 pl-4 text-muted-foreground">
+          {trace.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+type MergeConflictsStepProps = {
+  conflicts: ChangeConflict[];
+  pendingChanges: Map<string, PendingChange>;
+  onResolve: (resolutions: Map<string, ConflictResolution>) => void;
+  onCancel: () => void;
+};
+
+// Shown when a save is rejected because others changed some of the features:
+// for each one, keep this change or take the dates now on the server
+function MergeConflictsStep({
+  conflicts,
+  pendingChanges,
+  onResolve,
+  onCancel,
+}: MergeConflictsStepProps) {
+  const [resolutions, setResolutions] = useState<
+    Map<string, ConflictResolution>
+  >(() => new Map(conflicts.map((conflict) => [conflict.featureId, "mine"])));
+
+  const handleChoose = (featureId: string, resolution: ConflictResolution) =>
+    setResolutions((prev) => new Map(prev).set(featureId, resolution));
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Resolve Conflicts</DialogTitle>
+        <DialogDescription>
+          {conflicts.length} feature{conflicts.length !== 1 ? "s were" : " was"}{" "}
+          changed by someone else since you loaded the roadmap. Choose which
+          dates to keep; nothing has been saved yet.
+        </DialogDescription>
+      </DialogHeader>
+
+      <ScrollArea className="max-h-[400px] rounded-md border">
+        <Table className="w-full table-fixed">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[30%]">Feature</TableHead>
+              <TableHead className="w-[20%]">Yours</TableHead>
+              <TableHead className="w-[20%]">Theirs</TableHead>
+              <TableHead className="w-[30%]">Keep</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {conflicts.map((conflict) => {
+              const change = pendingChanges.get(conflict.featureId);
+              const resolution = resolutions.get(conflict.featureId);
+              return (
+                <TableRow key={conflict.featureId}>
+                  <TableCell className="truncate p-2 font-medium">
+                    {change?.featureName ?? conflict.featureId}
+                  </TableCell>
+                  <TableCell className="p-2 text-xs">
+                    {change
+                      ? `${format(change.newStartAt, "MMM d")} - ${format(change.newEndAt, "MMM d")}`
+                      : null}
+                  </TableCell>
+                  <TableCell className="p-2 text-xs">
+                    {format(conflict.serverStartAt, "MMM d")} -{" "}
+                    {format(conflict.serverEndAt, "MMM d")}
+                  </TableCell>
+                  <TableCell className="flex gap-1 p-2">
+                    <Button
+                      onClick={() => handleChoose(conflict.featureId, "mine")}
+                      size="sm"
+                      variant={resolution === "mine" ? "default" : "outline"}
+                    >
+                      Mine
+                    </Button>
+                    <Button
+                      onClick={() => handleChoose(conflict.featureId, "theirs")}
+                      size="sm"
+                      variant={resolution === "theirs" ? "default" : "outline"}
+                    >
+                      Theirs
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+
+      <DialogFooter>
+        <Button onClick={onCancel} variant="outline">
+          Cancel
+        </Button>
+        <Button onClick={() => onResolve(resolutions)}>Apply and Save</Button>
+      </DialogFooter>
+    </>
+  );
+}
 
 type SaveChangesDialogProps = {
   open: boolean;
@@ -32,6 +189,9 @@ type SaveChangesDialogProps = {
   onDeselectAll: () => void;
   onSave: () => void;
   onCancel: () => void;
+  // Features others changed since load; non-empty switches to the merge step
+  conflicts: ChangeConflict[];
+  onResolveConflicts: (resolutions: Map<string, ConflictResolution>) => void;
 };
 
 export function SaveChangesDialog({
@@ -43,10 +203,26 @@ export function SaveChangesDialog({
   onDeselectAll,
   onSave,
   onCancel,
+  conflicts,
+  onResolveConflicts,
 }: SaveChangesDialogProps) {
   const changes = Array.from(pendingChanges.values());
   const allSelected = selectedChanges.size === pendingChanges.size;
   const noneSelected = selectedChanges.size === 0;
+  const [expandedChanges, setExpandedChanges] = useState<Set<string>>(
+    new Set()
+  );
+
+  const handleToggleExpanded = (featureId: string) =>
+    setExpandedChanges((prev) => {
+      const next = new Set(prev);
+      if (next.has(featureId)) {
+        next.delete(featureId);
+      } else {
+        next.add(featureId);
+      }
+      return next;
+    });
 
   const handleToggleAll = () => {
     if (allSelected) {
@@ -62,103 +238,132 @@ export function SaveChangesDialog({
         className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-2xl"
         showCloseButton={false}
       >
-        <DialogHeader>
-          <DialogTitle>Review Changes</DialogTitle>
-          <DialogDescription>
-            Review and select which changes to save. Unselected changes will be
-            discarded.
-          </DialogDescription>
-        </DialogHeader>
-
-        <div className="flex items-center justify-between py-2">
-          <span className="text-muted-foreground text-sm">
-            {selectedChanges.size} of {pendingChanges.size} changes selected
-          </span>
-          <Button onClick={handleToggleAll} size="sm" variant="outline">
-            {allSelected ? "Deselect All" : "Select All"}
-          </Button>
-        </div>
-
-        <ScrollArea className="max-h-[400px] rounded-md border">
-          <Table className="w-full table-fixed">
-            <TableHeader>
-              <TableRow>
-                <TableHead className="w-8" />
-                <TableHead className="w-[30%]">Feature</TableHead>
-                <TableHead className="w-[20%]">Original</TableHead>
-                <TableHead className="w-[20%]">New</TableHead>
-                <TableHead className="w-[15%]">Source</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {changes.map((change) => {
-                const isSelected = selectedChanges.has(change.featureId);
-                return (
-                  <TableRow
-                    className="cursor-pointer"
-                    key={change.featureId}
-                    onClick={() =>
-                      onSelectionChange(change.featureId, !isSelected)
-                    }
-                  >
-                    <TableCell className="p-2">
-                      {isSelected ? (
-                        <IconSquareCheck className="text-primary" size={16} />
-                      ) : (
-                        <IconSquare
-                          className="text-muted-foreground"
-                          size={16}
-                        />
-                      )}
-                    </TableCell>
-                    <TableCell className="truncate p-2 font-medium">
-                      <span
-                        className="block truncate"
-                        title={change.featureName}
-                      >
-                        {change.featureName}
-                      </span>
-                      <span
-                        className="block truncate text-muted-foreground text-xs"
-                        title={change.groupName}
-                      >
-                        {change.groupName}
-                      </span>
-                    </TableCell>
-                    <TableCell className="p-2 text-muted-foreground text-xs">
-                      {format(change.originalStartAt, "MMM d")} -{" "}
-                      {format(change.originalEndAt, "MMM d")}
-                    </TableCell>
-                    <TableCell className="p-2 text-xs">
-                      {format(change.newStartAt, "MMM d")} -{" "}
-                      {format(change.newEndAt, "MMM d")}
-                    </TableCell>
-                    <TableCell className="p-2">
-                      <Badge
-                        className="text-xs"
-                        variant={
-                          change.source === "drag" ? "secondary" : "outline"
-                        }
-                      >
-                        {change.source === "drag" ? "Drag" : "Recalc"}
-                      </Badge>
-                    </TableCell>
+        {conflicts.length > 0 ? (
+          <MergeConflictsStep
+            conflicts={conflicts}
+            onCancel={onCancel}
+            onResolve={onResolveConflicts}
+            pendingChanges={pendingChanges}
+          />
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Review Changes</DialogTitle>
+              <DialogDescription>
+                Review and select which changes to save. Unselected changes will
+                be discarded.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex items-center justify-between py-2">
+              <span className="text-muted-foreground text-sm">
+                {selectedChanges.size} of {pendingChanges.size} changes selected
+              </span>
+              <Button onClick={handleToggleAll} size="sm" variant="outline">
+                {allSelected ? "Deselect All" : "Select All"}
+              </Button>
+            </div>
+
+            <ScrollArea className="max-h-[400px] rounded-md border">
+              <Table className="w-full table-fixed">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead className="w-[30%]">Feature</TableHead>
+                    <TableHead className="w-[20%]">Original</TableHead>
+                    <TableHead className="w-[20%]">New</TableHead>
+                    <TableHead className="w-[15%]">Source</TableHead>
                   </TableRow>
-                );
-              })}
-            </TableBody>
-          </Table>
-        </ScrollArea>
-
-        <DialogFooter>
-          <Button onClick={onCancel} variant="outline">
-            Cancel
-          </Button>
-          <Button disabled={noneSelected} onClick={onSave}>
-            Save {selectedChanges.size} Change
-            {selectedChanges.size !== 1 ? "s" : ""}
-          </Button>
-        </DialogFooter>
+                </TableHeader>
+                <TableBody>
+                  {changes.map((change) => {
+                    const isSelected = selectedChanges.has(change.featureId);
+                    const trace = change.trace ?? [];
+                    const hasTrace = trace.length > 0;
+                    const showTrace = hasTrace
+                      ? expandedChanges.has(change.featureId)
+                      : false;
+                    return (
+                      <Fragment key={change.featureId}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() =>
+                            onSelectionChange(change.featureId, !isSelected)
+                          }
+                        >
+                          <TableCell className="p-2">
+                            {isSelected ? (
+                              <IconSquareCheck
+                                className="text-primary"
+                                size={16}
+                              />
+                            ) : (
+                              <IconSquare
+                                className="text-muted-foreground"
+                                size={16}
+                              />
+                            )}
+                          </TableCell>
+                          <TableCell className="truncate p-2 font-medium">
+                            <span className="flex items-center gap-1">
+                              {hasTrace ? (
+                                <TraceToggle
+                                  expanded={showTrace}
+                                  onToggle={() =>
+                                    handleToggleExpanded(change.featureId)
+                                  }
+                                />
+                              ) : null}
+                              <span
+                                className="block truncate"
+                                title={change.featureName}
+                              >
+                                {change.featureName}
+                              </span>
+                            </span>
+                            <span
+                              className="block truncate text-muted-foreground text-xs"
+                              title={change.groupName}
+                            >
+                              {change.groupName}
+                            </span>
+                          </TableCell>
+                          <TableCell className="p-2 text-muted-foreground text-xs">
+                            {format(change.originalStartAt, "MMM d")} -{" "}
+                            {format(change.originalEndAt, "MMM d")}
+                          </TableCell>
+                          <TableCell className="p-2 text-xs">
+                            {format(change.newStartAt, "MMM d")} -{" "}
+                            {format(change.newEndAt, "MMM d")}
+                          </TableCell>
+                          <TableCell className="p-2">
+                            <Badge
+                              className="text-xs"
+                              variant={SOURCE_BADGES[change.source].variant}
+                            >
+                              {SOURCE_BADGES[change.source].label}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                        {showTrace ? <TraceRow trace={trace} /> : null}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            <DialogFooter>
+              <Button onClick={onCancel} variant="outline">
+                Cancel
+              </Button>
+              <Button disabled={noneSelected} onClick={onSave}>
+                Save {selectedChanges.size} Change
+                {selectedChanges.size !== 1 ? "s" : ""}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
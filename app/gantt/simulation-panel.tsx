@@ -0,0 +1,126 @@
+"use client";
+
+import { IconX } from "@tabler/icons-react";
+import { format } from "date-fns";
+import type {
+  GroupForecast,
+  SimulationResult,
+} from "@/components/kibo-ui/gantt";
+import { cn } from "@/lib/utils";
+
+type SimulationPanelProps = {
+  result: SimulationResult;
+  onSeedChange: (seed: number) => void;
+  onClose: () => void;
+};
+
+const HISTOGRAM_BINS = 24;
+
+// How long the schedule must stay unchanged before the simulation re-runs,
+// so a burst of edits costs one run rather than one each
+export const SIMULATION_DELAY_MS = 500;
+
+// Count simulated finishes per equal-width bin between the first and last
+function getHistogram(forecast: GroupForecast) {
+  const times = forecast.finishes.map((date) => date.getTime());
+  const first = times.at(0) ?? 0;
+  const span = Math.max((times.at(-1) ?? 0) - first, 1);
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+
+  for (const time of times) {
+    const bin = Math.min(
+      Math.floor(((time - first) / span) * HISTOGRAM_BINS),
+      HISTOGRAM_BINS - 1
+    );
+    counts[bin] += 1;
+  }
+
+  return counts.map((count, index) => {
+    const start = first + (index / HISTOGRAM_BINS) * span;
+    // Bins finishing by the P80 date are the likely outcomes
+    return { start, count, likely: start <= forecast.p80.getTime() };
+  });
+}
+
+const ForecastHistogram = ({ forecast }: { forecast: GroupForecast }) => {
+  const bins = getHistogram(forecast);
+  const highest = Math.max(...bins.map((bin) => bin.count), 1);
+
+  return (
+    <div className="flex h-8 w-48 items-end gap-px">
+      {bins.map((bin) => (
+        <div
+          className={cn(
+            "flex-1 rounded-t-sm",
+            bin.likely ? "bg-violet-500" : "bg-violet-500/30"
+          )}
+          key={bin.start}
+          style={{ height: `${(bin.count / highest) * 100}%` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const formatDate = (date: Date) => format(date, "MMM d, yyyy");
+
+export function SimulationPanel({
+  result,
+  onSeedChange,
+  onClose,
+}: SimulationPanelProps) {
+  const rows = Array.from(result.groups.entries()).sort(
+    ([, a], [, b]) => a.p50.getTime() - b.p50.getTime()
+  );
+
+  return (
+    <div className="max-h-64 shrink-0 overflow-auto border-t">
+      <div className="flex items-center gap-3 border-b px-3 py-2 text-sm">
+        <span className="font-medium">Risk simulation</span>
+        <span className="text-muted-foreground">{result.iterations} runs</span>
+        <label className="flex items-center gap-1.5 text-muted-foreground">
+          Seed
+          <input
+            className="w-20 rounded border px-2 py-0.5 text-foreground"
+            min={0}
+            onChange={(e) => onSeedChange(Number(e.target.value) || 0)}
+            type="number"
+            value={result.seed}
+          />
+        </label>
+        <button
+          aria-label="Close simulation"
+          className="ml-auto rounded p-1 hover:bg-secondary"
+          onClick={onClose}
+          type="button"
+        >
+          <IconX size={16} />
+        </button>
+      </div>
+      <table className="w-full text-sm">
+        <thead className="text-left text-muted-foreground">
+          <tr>
+            <th className="px-3 py-1 font-normal">Release</th>
+            <th className="px-3 py-1 font-normal">P50</th>
+            <th className="px-3 py-1 font-normal">P80</th>
+            <th className="px-3 py-1 font-normal">P95</th>
+            <th className="px-3 py-1 font-normal">Finish distribution</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([name, forecast]) => (
+            <tr className="border-t" key={name}>
+              <td className="px-3 py-1">{name}</td>
+              <td className="px-3 py-1">{formatDate(forecast.p50)}</td>
+              <td className="px-3 py-1">{formatDate(forecast.p80)}</td>
+              <td className="px-3 py-1">{formatDate(forecast.p95)}</td>
+              <td className="px-3 py-1">
+                <ForecastHistogram forecast={forecast} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
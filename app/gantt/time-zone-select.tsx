@@ -0,0 +1,43 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { getTimeZones } from "@/lib/time-zone";
+import { setRoadmapTimeZone } from "../roadmap/actions";
+
+type TimeZoneSelectProps = {
+  timeZone: string;
+};
+
+// Workspace time zone picker. Saving revalidates every view, which then
+// shows schedule dates as wall-clock time in the new zone.
+export function TimeZoneSelect({
+  timeZone: initialTimeZone,
+}: TimeZoneSelectProps) {
+  const [timeZone, setTimeZone] = useState(initialTimeZone);
+  const timeZones = useMemo(getTimeZones, []);
+
+  const handleChange = async (value: string) => {
+    setTimeZone(value);
+    const result = await setRoadmapTimeZone(value);
+    if (!result.success) {
+      setTimeZone(initialTimeZone);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-muted-foreground text-sm">Time zone:</span>
+      <select
+        className="rounded border px-2 py-1 text-sm"
+        onChange={(e) => handleChange(e.target.value)}
+        value={timeZone}
+      >
+        {timeZones.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -7,6 +7,38 @@ export type PendingChange = {
   originalEndAt: Date;
   newStartAt: Date;
   newEndAt: Date;
-  source: "drag" | "recalculate";
+  source: "drag" | "recalculate" | "level" | "backward";
+  // Why the scheduler moved the feature, from the root cause down to it
+  trace?: string[];
   timestamp: Date;
 };
+
+// A pending change whose feature someone else saved in the meantime, with the
+// feature's dates and version as they now are on the server
+export type ChangeConflict = {
+  featureId: string;
+  serverStartAt: Date;
+  serverEndAt: Date;
+  serverUpdatedAt: Date;
+};
+
+// Keep the local change (overwriting theirs) or take the server's dates
+export type ConflictResolution = "mine" | "theirs";
+
+// A feature's dates and unsaved change at one point in the undo history
+export type FeatureSnapshot = {
+  featureId: string;
+  startAt: Date;
+  endAt: Date;
+  pending?: PendingChange;
+};
+
+// Moves made together by one edit (a drag, a recalculation, ...), undone and
+// redone as a whole. Saved steps are undone by saving the old dates again.
+export type UndoStep = {
+  source: PendingChange["source"] | "save";
+  before: FeatureSnapshot[];
+  after: FeatureSnapshot[];
+};
+
+export type UndoHistory = { undo: UndoStep[]; redo: UndoStep[] };
@@ -0,0 +1,122 @@
+import type {
+  FeatureSnapshot,
+  PendingChange,
+  UndoHistory,
+  UndoStep,
+} from "./types";
+
+// Oldest steps are forgotten past this many
+const MAX_UNDO_STEPS = 100;
+
+export const EMPTY_UNDO_HISTORY: UndoHistory = { undo: [], redo: [] };
+
+const STEP_LABELS: Record<UndoStep["source"], string> = {
+  drag: "move",
+  recalculate: "recalculation",
+  level: "resource leveling",
+  backward: "backward scheduling",
+  save: "save",
+};
+
+type Direction = keyof UndoHistory;
+
+const OPPOSITE: Record<Direction, Direction> = { undo: "redo", redo: "undo" };
+
+// Record a new step; anything that was undone can no longer be redone
+export function pushUndoStep(
+  history: UndoHistory,
+  step: UndoStep
+): UndoHistory {
+  if (step.after.length === 0) {
+    return history;
+  }
+  return { undo: [...history.undo, step].slice(-MAX_UNDO_STEPS), redo: [] };
+}
+
+// Move the latest undo step onto the redo stack, or the other way round
+export function shiftUndoStep(
+  history: UndoHistory,
+  from: Direction
+): UndoHistory {
+  const step = history[from].at(-1);
+  if (!step) {
+    return history;
+  }
+  const to = OPPOSITE[from];
+  return {
+    [from]: history[from].slice(0, -1),
+    [to]: [...history[to], step],
+  } as UndoHistory;
+}
+
+// Forget the latest step, e.g. when it can no longer be applied
+export function dropUndoStep(
+  history: UndoHistory,
+  from: Direction
+): UndoHistory {
+  return { ...history, [from]: history[from].slice(0, -1) };
+}
+
+// Forget unsaved steps once the pending changes are saved or discarded
+export function dropPendingSteps(history: UndoHistory): UndoHistory {
+  const isSaved = (step: UndoStep) => step.source === "save";
+  return {
+    undo: history.undo.filter(isSaved),
+    redo: history.redo.filter(isSaved),
+  };
+}
+
+// Tooltip for the undo or redo button, naming the step it would apply
+export function getUndoTitle(history: UndoHistory, direction: Direction) {
+  const step = history[direction].at(-1);
+  const action = direction === "undo" ? "Undo" : "Redo";
+  const shortcut = direction === "undo" ? "Ctrl+Z" : "Ctrl+Shift+Z";
+  return step
+    ? `${action} ${STEP_LABELS[step.source]} (${shortcut})`
+    : `${action} (${shortcut})`;
+}
+
+export function applySnapshotDates<
+  T extends { id: string; startAt: Date; endAt: Date },
+>(features: T[], snapshots: FeatureSnapshot[]): T[] {
+  const byId = new Map(
+    snapshots.map((snapshot) => [snapshot.featureId, snapshot])
+  );
+  return features.map((feature) => {
+    const snapshot = byId.get(feature.id);
+    return snapshot
+      ? { ...feature, startAt: snapshot.startAt, endAt: snapshot.endAt }
+      : feature;
+  });
+}
+
+export function applySnapshotChanges(
+  pendingChanges: Map<string, PendingChange>,
+  snapshots: FeatureSnapshot[]
+): Map<string, PendingChange> {
+  const next = new Map(pendingChanges);
+  for (const snapshot of snapshots) {
+    if (snapshot.pending) {
+      next.set(snapshot.featureId, snapshot.pending);
+    } else {
+      next.delete(snapshot.featureId);
+    }
+  }
+  return next;
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), ignored while typing in a field
+export function getUndoShortcut(event: KeyboardEvent): Direction | null {
+  if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") {
+    return null;
+  }
+  const target = event.target;
+  if (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  ) {
+    return null;
+  }
+  return event.shiftKey ? "redo" : "undo";
+}
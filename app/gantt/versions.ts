@@ -0,0 +1,25 @@
+import type { Feature } from "@/lib/db/types";
+
+type Version = Pick<Feature, "id" | "updatedAt">;
+
+/**
+ * Take the updatedAt of rows the server just wrote, so the next write sends
+ * the version the server now has instead of being rejected as a conflict.
+ *
+ * @param features - Features as shown
+ * @param saved - Rows returned by the write, including rolled-up parents
+ * @returns The features with their versions brought up to date
+ */
+export function applySavedVersions<T extends Version>(
+  features: T[],
+  saved: Version[]
+): T[] {
+  if (saved.length === 0) {
+    return features;
+  }
+  const versions = new Map(saved.map((row) => [row.id, row.updatedAt]));
+  return features.map((feature) => {
+    const updatedAt = versions.get(feature.id);
+    return updatedAt ? { ...feature, updatedAt } : feature;
+  });
+}
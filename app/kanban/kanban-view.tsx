@@ -20,6 +20,7 @@ import { updateFeatureStatus } from "../roadmap/actions";
 type KanbanViewProps = {
   initialFeatures: SerializedFeatureWithRelations[];
   statuses: Status[];
+  timeZone: string;
 };
 
 const dateFormatter = new Intl.DateTimeFormat("en-US", {
@@ -33,10 +34,14 @@ const shortDateFormatter = new Intl.DateTimeFormat("en-US", {
   day: "numeric",
 });
 
-export function KanbanView({ initialFeatures, statuses }: KanbanViewProps) {
+export function KanbanView({
+  initialFeatures,
+  statuses,
+  timeZone,
+}: KanbanViewProps) {
   const [features, setFeatures] = useState(() =>
     initialFeatures.map((feature) => ({
-      ...deserializeFeature(feature),
+      ...deserializeFeature(feature, timeZone),
       column: feature.status.id,
     }))
   );
@@ -4,7 +4,13 @@ import { KanbanView } from "./kanban-view";
 export const dynamic = "force-dynamic";
 
 export default async function KanbanPage() {
-  const { features, statuses } = await getSerializedRoadmapData();
+  const { features, statuses, timeZone } = await getSerializedRoadmapData();
 
-  return <KanbanView initialFeatures={features} statuses={statuses} />;
+  return (
+    <KanbanView
+      initialFeatures={features}
+      statuses={statuses}
+      timeZone={timeZone}
+    />
+  );
 }
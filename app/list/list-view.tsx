@@ -20,11 +20,16 @@ import { updateFeatureStatus } from "../roadmap/actions";
 type ListViewProps = {
   initialFeatures: SerializedFeatureWithRelations[];
   statuses: Status[];
+  timeZone: string;
 };
 
-export function ListView({ initialFeatures, statuses }: ListViewProps) {
+export function ListView({
+  initialFeatures,
+  statuses,
+  timeZone,
+}: ListViewProps) {
   const [features, setFeatures] = useState(() =>
-    initialFeatures.map(deserializeFeature)
+    initialFeatures.map((feature) => deserializeFeature(feature, timeZone))
   );
 
   const handleDragEnd = async (event: DragEndEvent) => {
@@ -4,7 +4,13 @@ import { ListView } from "./list-view";
 export const dynamic = "force-dynamic";
 
 export default async function ListPage() {
-  const { features, statuses } = await getSerializedRoadmapData();
+  const { features, statuses, timeZone } = await getSerializedRoadmapData();
 
-  return <ListView initialFeatures={features} statuses={statuses} />;
+  return (
+    <ListView
+      initialFeatures={features}
+      statuses={statuses}
+      timeZone={timeZone}
+    />
+  );
 }
@@ -1,21 +1,102 @@
 "use server";
 
-import { eq } from "drizzle-orm";
+import { addDays } from "date-fns";
+import { and, count, eq, inArray, isNull, lt, max } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
+import { cookies } from "next/headers";
+import {
+  findCycleForNewDependency,
+  findDependencyCycles,
+} from "@/components/kibo-ui/gantt/utils/graph";
+import {
+  getSchedulingGraph,
+  isDescendantOf,
+  rollupParentFeatures,
+} from "@/components/kibo-ui/gantt/utils/hierarchy";
 import { db } from "@/lib/db";
-import { dependencies, features, markers } from "@/lib/db/schema";
+import { getFeatureAuditEvents } from "@/lib/db/queries/audit";
+import { getAllDependencies } from "@/lib/db/queries/features";
+import {
+  getLookupTable,
+  LOOKUP_FEATURE_FIELDS,
+  toLookupItem,
+} from "@/lib/db/queries/lookups";
+import {
+  auditEvents,
+  baselineFeatures,
+  baselines,
+  calendars,
+  dependencies,
+  features,
+  groups,
+  holidays,
+  initiatives,
+  markers,
+  products,
+  releases,
+  roadmapSettings,
+  statuses,
+  users,
+} from "@/lib/db/schema";
 import type {
+  AuditEvent,
+  AuditEventWithActor,
+  BaselineWithFeatures,
+  Calendar,
   Dependency,
   Feature,
+  Holiday,
+  LookupItem,
+  LookupKind,
   Marker,
+  NewAuditEvent,
+  NewCalendar,
   NewDependency,
   NewFeature,
+  NewHoliday,
   NewMarker,
+  RoadmapSettings,
 } from "@/lib/db/types";
+import { isValidTimeZone } from "@/lib/time-zone";
+import { TRASH_RETENTION_DAYS } from "@/lib/trash";
+import {
+  type ActionResult,
+  FEATURE_REFERENCE_FIELDS,
+  type FeatureInput,
+  type FieldErrors,
+  getFirstFieldError,
+  getReferenceLabel,
+  hasFieldErrors,
+  isDateString,
+  isUuid,
+  type LookupInput,
+  validateFeature,
+  validateLag,
+  validateLookup,
+  validateName,
+  validateWorkingDays,
+} from "@/lib/validation";
 
-type ActionResult<T> =
-  | { success: true; data: T }
-  | { success: false; error: string };
+type ActionFailure = Extract<ActionResult<never>, { success: false }>;
+
+// A write rejected because features changed on the server since the client
+// read them, listing each one as it is now so the client can merge
+type ConflictResult = ActionFailure & {
+  code: "conflict";
+  conflicts: Feature[];
+};
+
+// A saved write along with the parents whose rolled-up dates moved with it,
+// so the client can take their new updatedAt before writing them again
+type RollupResult<T> =
+  | { success: true; data: T; rolledUp: Feature[] }
+  | ActionFailure;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// The version of a feature the client last read; writes without one are not
+// checked for conflicts
+type ExpectedVersion = { id: string; updatedAt?: Date };
 
 // All routes that display feature data and need revalidation
 const FEATURE_ROUTES = [
@@ -25,6 +106,8 @@ const FEATURE_ROUTES = [
   "/calendar",
   "/list",
   "/table",
+  "/trash",
+  "/settings",
 ] as const;
 
 function revalidateFeatureRoutes() {
@@ -33,74 +116,599 @@ function revalidateFeatureRoutes() {
   }
 }
 
+// Cookie naming the acting user until the app has sign-in
+const ACTOR_COOKIE = "roadmap_user_id";
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type AuditSource = AuditEvent["source"];
+
+type AuditEntry = Pick<
+  NewAuditEvent,
+  "entityType" | "entityId" | "action" | "source" | "before" | "after"
+>;
+
+// The user making the change, or null when the cookie is missing or names no
+// known user (the change is still logged, without an actor)
+async function getActorId(): Promise<string | null> {
+  const id = (await cookies()).get(ACTOR_COOKIE)?.value;
+  if (!(id && UUID_PATTERN.test(id))) {
+    return null;
+  }
+  const [user] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.id, id));
+  return user?.id ?? null;
+}
+
+// Append changes to the audit log, with before/after row snapshots
+async function recordAudit(entries: AuditEntry[]) {
+  if (entries.length === 0) {
+    return;
+  }
+  const actorId = await getActorId();
+  await db
+    .insert(auditEvents)
+    .values(entries.map((entry) => ({ ...entry, actorId })));
+}
+
+async function findFeature(id: string): Promise<Feature | undefined> {
+  const [row] = await db.select().from(features).where(eq(features.id, id));
+  return row;
+}
+
+// A feature outside the trash; trashed features cannot be edited until they
+// are restored
+async function findLiveFeature(id: string): Promise<Feature | undefined> {
+  const [row] = await db
+    .select()
+    .from(features)
+    .where(and(eq(features.id, id), isNull(features.deletedAt)));
+  return row;
+}
+
+// Store the dates of every parent feature as derived from its children, so
+// views that do not roll up the hierarchy themselves still show them.
+// Returns the parents that changed.
+async function syncParentDates(): Promise<Feature[]> {
+  const rows = await db
+    .select()
+    .from(features)
+    .where(isNull(features.deletedAt));
+  const current = new Map(rows.map((row) => [row.id, row]));
+  const now = new Date();
+  const entries: AuditEntry[] = [];
+  const changed: Feature[] = [];
+
+  for (const rolled of rollupParentFeatures(rows)) {
+    const row = current.get(rolled.id);
+    if (
+      row &&
+      (row.startAt.getTime() !== rolled.startAt.getTime() ||
+        row.endAt.getTime() !== rolled.endAt.getTime())
+    ) {
+      const [updated] = await db
+        .update(features)
+        .set({ startAt: rolled.startAt, endAt: rolled.endAt, updatedAt: now })
+        .where(eq(features.id, rolled.id))
+        .returning();
+      entries.push({
+        entityType: "feature",
+        entityId: rolled.id,
+        action: "update",
+        source: "rollup",
+        before: row,
+        after: updated,
+      });
+      changed.push(updated);
+    }
+  }
+
+  await recordAudit(entries);
+  return changed;
+}
+
+// Whether putting a feature under parentId would make it its own ancestor.
+// Trashed features are walked too, since a restore puts them back in the
+// chain; checkFeatureInput keeps a trashed feature from being the parent.
+async function isOwnAncestor(id: string, parentId: string): Promise<boolean> {
+  if (parentId === id) {
+    return true;
+  }
+  const rows = await db
+    .select({ id: features.id, parentId: features.parentId })
+    .from(features);
+  return isDescendantOf(parentId, id, rows);
+}
+
+// Lock the features about to be written and return those whose updatedAt no
+// longer matches the version the client read
+async function lockStaleFeatures(
+  tx: Transaction,
+  expected: ExpectedVersion[]
+): Promise<Feature[]> {
+  const versions = new Map<string, number>();
+  for (const { id, updatedAt } of expected) {
+    if (updatedAt) {
+      versions.set(id, updatedAt.getTime());
+    }
+  }
+  if (versions.size === 0) {
+    return [];
+  }
+
+  const rows = await tx
+    .select()
+    .from(features)
+    .where(inArray(features.id, [...versions.keys()]))
+    .for("update");
+  return rows.filter((row) => row.updatedAt.getTime() !== versions.get(row.id));
+}
+
+function toConflictResult(conflicts: Feature[]): ConflictResult {
+  const names = conflicts.map((feature) => feature.name).join(", ");
+  return {
+    success: false,
+    code: "conflict",
+    error: `Changed by someone else since you loaded it: ${names}`,
+    conflicts,
+  };
+}
+
+function invalid(fieldErrors: FieldErrors): ActionFailure {
+  return {
+    success: false,
+    code: "validation_failed",
+    error: getFirstFieldError(fieldErrors) ?? "Invalid input",
+    fieldErrors,
+  };
+}
+
+function rejected(error: string): ActionFailure {
+  return { success: false, code: "rule_violation", error };
+}
+
+function notFound(error: string): ActionFailure {
+  return { success: false, code: "not_found", error };
+}
+
+// Messages for database check constraints, by the field they concern
+const CHECK_MESSAGES: Record<string, [field: string, message: string]> = {
+  features_end_after_start: [
+    "endAt",
+    "End date must be on or after the start date",
+  ],
+  features_name_not_blank: ["name", "Name is required"],
+  features_milestone_zero_duration: [
+    "endAt",
+    "A milestone starts and ends at the same time",
+  ],
+  features_percent_complete_range: [
+    "percentComplete",
+    "Progress must be a whole number between 0 and 100",
+  ],
+  features_estimate_complete: [
+    "pessimisticDuration",
+    "Enter both an optimistic and a pessimistic duration",
+  ],
+  features_estimate_order: [
+    "pessimisticDuration",
+    "Durations must be optimistic ≤ most likely ≤ pessimistic",
+  ],
+  features_most_likely_in_range: [
+    "mostLikelyDuration",
+    "Durations must be optimistic ≤ most likely ≤ pessimistic",
+  ],
+  features_constraint_complete: [
+    "constraintDate",
+    "Choose both a constraint and its date",
+  ],
+  calendars_working_days_range: [
+    "workingDays",
+    "Working days must be weekday numbers between 0 and 6",
+  ],
+};
+
+// Turn a thrown error into a failure result. Postgres constraint errors get a
+// code and readable message; anything else is logged by the caller and
+// reported with the fallback message rather than the raw driver text.
+function toActionError(error: unknown, fallback: string): ActionFailure {
+  // Drizzle wraps driver errors in a query error with the original as cause
+  const cause =
+    error instanceof Error && error.cause instanceof Error
+      ? error.cause
+      : error;
+  const { code, constraint_name: constraint } = (cause ?? {}) as {
+    code?: string;
+    constraint_name?: string;
+  };
+  if (code === "23514" && constraint && CHECK_MESSAGES[constraint]) {
+    const [field, message] = CHECK_MESSAGES[constraint];
+    return invalid({ [field]: message });
+  }
+  switch (code) {
+    case "23503":
+      return {
+        success: false,
+        code: "invalid_reference",
+        error: "A referenced record does not exist",
+      };
+    case "23505":
+      return rejected("This already exists");
+    case "23514":
+    case "22001":
+    case "22P02":
+      return {
+        success: false,
+        code: "validation_failed",
+        error: "Some values are not valid",
+      };
+    default:
+      return { success: false, code: "internal_error", error: fallback };
+  }
+}
+
+// Check that the statuses, groups, ... a feature write names exist, with a
+// message per unknown one
+async function findMissingReferences(data: FeatureInput): Promise<FieldErrors> {
+  const tables = {
+    statusId: statuses,
+    groupId: groups,
+    productId: products,
+    initiativeId: initiatives,
+    releaseId: releases,
+    ownerId: users,
+    parentId: features,
+  };
+  const errors: FieldErrors = {};
+  for (const field of FEATURE_REFERENCE_FIELDS) {
+    const id = data[field];
+    if (!id) {
+      continue;
+    }
+    const table = tables[field];
+    // A feature in the trash cannot take children
+    const live = field === "parentId" ? isNull(features.deletedAt) : undefined;
+    const [row] = await db
+      .select({ id: table.id })
+      .from(table)
+      .where(and(eq(table.id, id), live));
+    if (!row) {
+      errors[field] = `Unknown ${getReferenceLabel(field)}`;
+    }
+  }
+  return errors;
+}
+
+// Validate a feature write, then check its references exist
+async function checkFeatureInput(
+  data: FeatureInput,
+  options?: { create?: boolean }
+): Promise<ActionFailure | null> {
+  const fieldErrors = validateFeature(data, options);
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+  const missing = await findMissingReferences(data);
+  if (hasFieldErrors(missing)) {
+    return {
+      success: false,
+      code: "invalid_reference",
+      error: getFirstFieldError(missing) ?? "Unknown reference",
+      fieldErrors: missing,
+    };
+  }
+  return null;
+}
+
 // Feature Actions
 export async function createFeature(
-  data: Omit<NewFeature, "id" | "createdAt" | "updatedAt">
-): Promise<ActionResult<Feature>> {
+  data: Omit<NewFeature, "id" | "createdAt" | "updatedAt">,
+  source: AuditSource = "edit"
+): Promise<RollupResult<Feature>> {
   try {
-    const result = await db.insert(features).values(data).returning();
+    const failure = await checkFeatureInput(data, { create: true });
+    if (failure) {
+      return failure;
+    }
+    const result = await db
+      .insert(features)
+      .values({ ...data, name: data.name.trim() })
+      .returning();
+    await recordAudit([
+      {
+        entityType: "feature",
+        entityId: result[0].id,
+        action: "create",
+        source,
+        after: result[0],
+      },
+    ]);
+    const rolledUp = await syncParentDates();
     revalidateFeatureRoutes();
-    return { success: true, data: result[0] };
+    return { success: true, data: result[0], rolledUp };
   } catch (error) {
     console.error("Failed to create feature:", error);
-    return {
-      success: false,
-      error:
-        error instanceof Error ? error.message : "Failed to create feature",
-    };
+    return toActionError(error, "Failed to create feature");
   }
 }
 
 export async function updateFeature(
   id: string,
-  data: Partial<Omit<NewFeature, "id" | "createdAt" | "updatedAt">>
-): Promise<ActionResult<Feature>> {
+  data: Partial<Omit<NewFeature, "id" | "createdAt" | "updatedAt">>,
+  expectedUpdatedAt?: Date
+): Promise<RollupResult<Feature> | ConflictResult> {
   try {
-    const result = await db
-      .update(features)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(features.id, id))
-      .returning();
-    if (result.length === 0) {
-      return { success: false, error: "Feature not found" };
+    const failure = await checkFeatureInput(data);
+    if (failure) {
+      return failure;
     }
+    if (data.parentId && (await isOwnAncestor(id, data.parentId))) {
+      return rejected(
+        "A feature cannot be moved under itself or one of its own children"
+      );
+    }
+    const outcome = await db.transaction(async (tx) => {
+      const conflicts = await lockStaleFeatures(tx, [
+        { id, updatedAt: expectedUpdatedAt },
+      ]);
+      if (conflicts.length > 0) {
+        return { conflicts };
+      }
+      const [before] = await tx
+        .select()
+        .from(features)
+        .where(eq(features.id, id));
+      // Rules across fields (end after start, ...) against the current row
+      const fieldErrors = before ? validateFeature({ ...before, ...data }) : {};
+      if (hasFieldErrors(fieldErrors)) {
+        return { fieldErrors };
+      }
+      const result = await tx
+        .update(features)
+        .set({ ...data, name: data.name?.trim(), updatedAt: new Date() })
+        .where(and(eq(features.id, id), isNull(features.deletedAt)))
+        .returning();
+      return { before, updated: result[0] };
+    });
+    if (outcome.conflicts) {
+      return toConflictResult(outcome.conflicts);
+    }
+    if (outcome.fieldErrors) {
+      return invalid(outcome.fieldErrors);
+    }
+    if (!outcome.updated) {
+      return notFound("Feature not found");
+    }
+    await recordAudit([
+      {
+        entityType: "feature",
+        entityId: id,
+        action: "update",
+        before: outcome.before,
+        after: outcome.updated,
+      },
+    ]);
+    const rolledUp = await syncParentDates();
     revalidateFeatureRoutes();
-    return { success: true, data: result[0] };
+    return { success: true, data: outcome.updated, rolledUp };
   } catch (error) {
     console.error("Failed to update feature:", error);
-    return {
-      success: false,
-      error:
-        error instanceof Error ? error.message : "Failed to update feature",
-    };
+    return toActionError(error, "Failed to update feature");
   }
 }
 
 export async function updateFeatureDates(
   id: string,
   startAt: Date,
-  endAt: Date
-): Promise<ActionResult<Feature>> {
+  endAt: Date,
+  options: { expectedUpdatedAt?: Date; source?: AuditSource } = {}
+): Promise<RollupResult<Feature> | ConflictResult> {
+  const fieldErrors = validateFeature({ startAt, endAt });
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+
+  try {
+    const outcome = await db.transaction(async (tx) => {
+      const conflicts = await lockStaleFeatures(tx, [
+        { id, updatedAt: options.expectedUpdatedAt },
+      ]);
+      if (conflicts.length > 0) {
+        return { conflicts };
+      }
+      const [before] = await tx
+        .select()
+        .from(features)
+        .where(eq(features.id, id));
+      const result = await tx
+        .update(features)
+        .set({ startAt, endAt, updatedAt: new Date() })
+        .where(and(eq(features.id, id), isNull(features.deletedAt)))
+        .returning();
+      return { before, updated: result[0] };
+    });
+    if (outcome.conflicts) {
+      return toConflictResult(outcome.conflicts);
+    }
+    if (!outcome.updated) {
+      return notFound("Feature not found");
+    }
+    await recordAudit([
+      {
+        entityType: "feature",
+        entityId: id,
+        action: "update",
+        source: options.source,
+        before: outcome.before,
+        after: outcome.updated,
+      },
+    ]);
+    const rolledUp = await syncParentDates();
+    revalidateFeatureRoutes();
+    return { success: true, data: outcome.updated, rolledUp };
+  } catch (error) {
+    console.error("Failed to update feature dates:", error);
+    return toActionError(error, "Failed to update feature dates");
+  }
+}
+
+// Turn a feature into a milestone (ending where it starts) or back into a
+// one-day task. Parents cannot be milestones, since their dates are rolled
+// up from their children.
+export async function setFeatureKind(
+  id: string,
+  kind: Feature["kind"],
+  expectedUpdatedAt?: Date
+): Promise<RollupResult<Feature> | ConflictResult> {
+  const fieldErrors = validateFeature({ kind });
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+
   try {
+    const outcome = await db.transaction(async (tx) => {
+      const conflicts = await lockStaleFeatures(tx, [
+        { id, updatedAt: expectedUpdatedAt },
+      ]);
+      if (conflicts.length > 0) {
+        return { conflicts };
+      }
+      const [before] = await tx
+        .select()
+        .from(features)
+        .where(and(eq(features.id, id), isNull(features.deletedAt)));
+      if (!before) {
+        return { before };
+      }
+      if (kind === "milestone") {
+        const [child] = await tx
+          .select({ id: features.id })
+          .from(features)
+          .where(and(eq(features.parentId, id), isNull(features.deletedAt)))
+          .limit(1);
+        if (child) {
+          return { before, hasChildren: true };
+        }
+      }
+      const endAt =
+        kind === "milestone" ? before.startAt : addDays(before.startAt, 1);
+      const [updated] = await tx
+        .update(features)
+        .set({ kind, endAt, updatedAt: new Date() })
+        .where(eq(features.id, id))
+        .returning();
+      return { before, updated };
+    });
+    if (outcome.conflicts) {
+      return toConflictResult(outcome.conflicts);
+    }
+    if (outcome.hasChildren) {
+      return rejected("A feature with children cannot be a milestone");
+    }
+    if (!outcome.updated) {
+      return notFound("Feature not found");
+    }
+    await recordAudit([
+      {
+        entityType: "feature",
+        entityId: id,
+        action: "update",
+        before: outcome.before,
+        after: outcome.updated,
+      },
+    ]);
+    const rolledUp = await syncParentDates();
+    revalidateFeatureRoutes();
+    return { success: true, data: outcome.updated, rolledUp };
+  } catch (error) {
+    console.error("Failed to set feature kind:", error);
+    return toActionError(error, "Failed to set feature kind");
+  }
+}
+
+// Move a feature under another in the work breakdown, or to the top level
+// when parentId is null
+export async function setFeatureParent(
+  id: string,
+  parentId: string | null
+): Promise<RollupResult<Feature>> {
+  if (parentId === id) {
+    return rejected("A feature cannot be its own parent");
+  }
+
+  try {
+    const failure = await checkFeatureInput({ parentId });
+    if (failure) {
+      return failure;
+    }
+    if (parentId && (await isOwnAncestor(id, parentId))) {
+      return rejected(
+        "A feature cannot be moved under one of its own children"
+      );
+    }
+
+    const before = await findLiveFeature(id);
+    if (!before) {
+      return notFound("Feature not found");
+    }
     const result = await db
       .update(features)
-      .set({ startAt, endAt, updatedAt: new Date() })
+      .set({ parentId, updatedAt: new Date() })
       .where(eq(features.id, id))
       .returning();
-    if (result.length === 0) {
-      return { success: false, error: "Feature not found" };
+    await recordAudit([
+      {
+        entityType: "feature",
+        entityId: id,
+        action: "update",
+        before,
+        after: result[0],
+      },
+    ]);
+    const rolledUp = await syncParentDates();
+    revalidateFeatureRoutes();
+    return { success: true, data: result[0], rolledUp };
+  } catch (error) {
+    console.error("Failed to set feature parent:", error);
+    return toActionError(error, "Failed to set feature parent");
+  }
+}
+
+export async function updateFeatureProgress(
+  id: string,
+  percentComplete: number
+): Promise<ActionResult<Feature>> {
+  const fieldErrors = validateFeature({ percentComplete });
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+
+  try {
+    const before = await findLiveFeature(id);
+    if (!before) {
+      return notFound("Feature not found");
     }
+    const result = await db
+      .update(features)
+      .set({ percentComplete, updatedAt: new Date() })
+      .where(eq(features.id, id))
+      .returning();
+    await recordAudit([
+      {
+        entityType: "feature",
+        entityId: id,
+        action: "update",
+        before,
+        after: result[0],
+      },
+    ]);
     revalidateFeatureRoutes();
     return { success: true, data: result[0] };
   } catch (error) {
-    console.error("Failed to update feature dates:", error);
-    return {
-      success: false,
-      error:
-        error instanceof Error
-          ? error.message
-          : "Failed to update feature dates",
-    };
+    console.error("Failed to update feature progress:", error);
+    return toActionError(error, "Failed to update feature progress");
   }
 }
 
@@ -109,40 +717,233 @@ export async function updateFeatureStatus(
   statusId: string
 ): Promise<ActionResult<Feature>> {
   try {
+    const failure = await checkFeatureInput({ statusId });
+    if (failure) {
+      return failure;
+    }
+    const before = await findLiveFeature(id);
+    if (!before) {
+      return notFound("Feature not found");
+    }
     const result = await db
       .update(features)
       .set({ statusId, updatedAt: new Date() })
       .where(eq(features.id, id))
       .returning();
-    if (result.length === 0) {
-      return { success: false, error: "Feature not found" };
-    }
+    await recordAudit([
+      {
+        entityType: "feature",
+        entityId: id,
+        action: "update",
+        before,
+        after: result[0],
+      },
+    ]);
     revalidateFeatureRoutes();
     return { success: true, data: result[0] };
   } catch (error) {
     console.error("Failed to update feature status:", error);
-    return {
-      success: false,
-      error:
-        error instanceof Error
-          ? error.message
-          : "Failed to update feature status",
-    };
+    return toActionError(error, "Failed to update feature status");
   }
 }
 
-export async function deleteFeature(id: string): Promise<ActionResult<void>> {
+// Move a feature to the trash. Its dependencies stay in place (hidden) so a
+// restore brings them back; its children show at the top level meanwhile.
+export async function deleteFeature(id: string): Promise<RollupResult<void>> {
   try {
-    await db.delete(features).where(eq(features.id, id));
+    const before = await findFeature(id);
+    if (!before || before.deletedAt) {
+      return notFound("Feature not found");
+    }
+    const now = new Date();
+    await db
+      .update(features)
+      .set({ deletedAt: now, updatedAt: now })
+      .where(eq(features.id, id));
+    await recordAudit([
+      { entityType: "feature", entityId: id, action: "delete", before },
+    ]);
+    const rolledUp = await syncParentDates();
     revalidateFeatureRoutes();
-    return { success: true, data: undefined };
+    return { success: true, data: undefined, rolledUp };
   } catch (error) {
     console.error("Failed to delete feature:", error);
-    return {
-      success: false,
-      error:
-        error instanceof Error ? error.message : "Failed to delete feature",
-    };
+    return toActionError(error, "Failed to delete feature");
+  }
+}
+
+// Trash Actions
+export async function restoreFeature(
+  id: string
+): Promise<RollupResult<Feature>> {
+  try {
+    const outcome = await db.transaction(async (tx) => {
+      const rows = await tx
+        .select({
+          id: features.id,
+          parentId: features.parentId,
+          deletedAt: features.deletedAt,
+        })
+        .from(features)
+        .for("update");
+      const trashed = rows.find((row) => row.id === id);
+      if (!trashed?.deletedAt) {
+        return { restored: undefined };
+      }
+
+      // Links to trashed features are skipped when new links are checked for
+      // cycles, so bringing one back can close a cycle
+      const live = rows.filter(
+        (row) => row.deletedAt === null || row.id === id
+      );
+      const liveIds = new Set(live.map((row) => row.id));
+      const links = (await tx.select().from(dependencies)).filter(
+        (dep) => liveIds.has(dep.sourceId) && liveIds.has(dep.targetId)
+      );
+      const [cycle] = findDependencyCycles(
+        getSchedulingGraph(live, links).dependencies
+      );
+      if (cycle) {
+        return { cycle };
+      }
+
+      const [feature] = await tx
+        .update(features)
+        .set({ deletedAt: null, updatedAt: new Date() })
+        .where(eq(features.id, id))
+        .returning();
+      return { restored: feature };
+    });
+    if (outcome.cycle) {
+      return rejected(
+        `Restoring this feature would bring back a dependency cycle: ${await describeCycle(outcome.cycle)}`
+      );
+    }
+    const { restored } = outcome;
+    if (!restored) {
+      return notFound("Feature is not in the trash");
+    }
+    await recordAudit([
+      {
+        entityType: "feature",
+        entityId: id,
+        action: "restore",
+        after: restored,
+      },
+    ]);
+    const rolledUp = await syncParentDates();
+    revalidateFeatureRoutes();
+    return { success: true, data: restored, rolledUp };
+  } catch (error) {
+    console.error("Failed to restore feature:", error);
+    return toActionError(error, "Failed to restore feature");
+  }
+}
+
+// Permanently delete features trashed longer than the retention period,
+// along with their dependencies. Returns how many were purged.
+export async function purgeTrash(): Promise<ActionResult<number>> {
+  try {
+    const cutoff = addDays(new Date(), -TRASH_RETENTION_DAYS);
+    const purged = await db
+      .delete(features)
+      .where(lt(features.deletedAt, cutoff))
+      .returning();
+    await recordAudit(
+      purged.map((before) => ({
+        entityType: "feature",
+        entityId: before.id,
+        action: "purge",
+        before,
+      }))
+    );
+    revalidateFeatureRoutes();
+    return { success: true, data: purged.length };
+  } catch (error) {
+    console.error("Failed to purge trash:", error);
+    return toActionError(error, "Failed to purge trash");
+  }
+}
+
+// History Actions
+export async function getFeatureHistory(
+  featureId: string
+): Promise<ActionResult<AuditEventWithActor[]>> {
+  try {
+    const events = await getFeatureAuditEvents(featureId);
+    return { success: true, data: events };
+  } catch (error) {
+    console.error("Failed to load feature history:", error);
+    return toActionError(error, "Failed to load feature history");
+  }
+}
+
+// Restore a feature's fields to the snapshot taken after a logged change.
+// The revert is itself logged, so it can be reverted in turn.
+export async function revertFeature(
+  eventId: string
+): Promise<RollupResult<Feature>> {
+  try {
+    const [event] = await db
+      .select()
+      .from(auditEvents)
+      .where(eq(auditEvents.id, eventId));
+    if (!event || event.entityType !== "feature") {
+      return notFound("Feature history entry not found");
+    }
+    if (!event.after) {
+      return rejected("This change has no version to restore");
+    }
+
+    const before = await findFeature(event.entityId);
+    if (!before) {
+      return notFound("Feature no longer exists");
+    }
+    if (before.deletedAt) {
+      return rejected("Restore the feature from the trash before reverting it");
+    }
+
+    // jsonb snapshots hold dates as ISO strings
+    const {
+      id: _id,
+      createdAt: _createdAt,
+      updatedAt: _updatedAt,
+      deletedAt: _deletedAt,
+      ...snapshot
+    } = event.after as Feature;
+    if (
+      snapshot.parentId &&
+      (await isOwnAncestor(before.id, snapshot.parentId))
+    ) {
+      return rejected("The feature's old parent is now one of its children");
+    }
+
+    const result = await db
+      .update(features)
+      .set({
+        ...snapshot,
+        startAt: new Date(snapshot.startAt),
+        endAt: new Date(snapshot.endAt),
+        updatedAt: new Date(),
+      })
+      .where(eq(features.id, before.id))
+      .returning();
+    await recordAudit([
+      {
+        entityType: "feature",
+        entityId: before.id,
+        action: "update",
+        source: "revert",
+        before,
+        after: result[0],
+      },
+    ]);
+    const rolledUp = await syncParentDates();
+    revalidateFeatureRoutes();
+    return { success: true, data: result[0], rolledUp };
+  } catch (error) {
+    console.error("Failed to revert feature:", error);
+    return toActionError(error, "Failed to revert feature");
   }
 }
 
@@ -150,48 +951,195 @@ export async function deleteFeature(id: string): Promise<ActionResult<void>> {
 export async function createMarker(
   data: Omit<NewMarker, "id" | "createdAt" | "updatedAt">
 ): Promise<ActionResult<Marker>> {
+  const labelError = validateName(data.label, "Label");
+  if (labelError) {
+    return invalid({ label: labelError });
+  }
+
   try {
     const result = await db.insert(markers).values(data).returning();
+    await recordAudit([
+      {
+        entityType: "marker",
+        entityId: result[0].id,
+        action: "create",
+        after: result[0],
+      },
+    ]);
     revalidateFeatureRoutes();
     return { success: true, data: result[0] };
   } catch (error) {
     console.error("Failed to create marker:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to create marker",
-    };
+    return toActionError(error, "Failed to create marker");
   }
 }
 
 export async function deleteMarker(id: string): Promise<ActionResult<void>> {
   try {
-    await db.delete(markers).where(eq(markers.id, id));
+    const [before] = await db
+      .delete(markers)
+      .where(eq(markers.id, id))
+      .returning();
+    if (before) {
+      await recordAudit([
+        { entityType: "marker", entityId: id, action: "delete", before },
+      ]);
+    }
     revalidateFeatureRoutes();
     return { success: true, data: undefined };
   } catch (error) {
     console.error("Failed to delete marker:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to delete marker",
-    };
+    return toActionError(error, "Failed to delete marker");
   }
 }
 
 // Dependency Actions
+// Render a cycle of feature IDs as "A → B → A" using feature names
+async function describeCycle(cycle: string[]): Promise<string> {
+  const rows = await db
+    .select({ id: features.id, name: features.name })
+    .from(features)
+    .where(inArray(features.id, cycle));
+  const names = new Map(rows.map((row) => [row.id, row.name]));
+  return cycle.map((id) => names.get(id) ?? id).join(" → ");
+}
+
 export async function createDependency(
   data: Omit<NewDependency, "id" | "createdAt" | "updatedAt">
 ): Promise<ActionResult<Dependency>> {
+  const fieldErrors = validateLag(data.lag ?? 0);
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+  if (data.sourceId === data.targetId) {
+    return rejected("A feature cannot depend on itself");
+  }
+
   try {
+    const rows = await db
+      .select({
+        id: features.id,
+        parentId: features.parentId,
+        deletedAt: features.deletedAt,
+      })
+      .from(features);
+    const trashed = rows.some(
+      (row) =>
+        row.deletedAt !== null &&
+        (row.id === data.sourceId || row.id === data.targetId)
+    );
+    if (trashed) {
+      return rejected("Restore the feature from the trash before linking it");
+    }
+
+    // Dependencies on a parent apply to its children, so linking a feature to
+    // its own ancestor would make it wait for itself
+    const hierarchy = rows.filter((row) => row.deletedAt === null);
+    if (
+      isDescendantOf(data.sourceId, data.targetId, hierarchy) ||
+      isDescendantOf(data.targetId, data.sourceId, hierarchy)
+    ) {
+      return rejected("A feature cannot depend on its own parent or child");
+    }
+
+    // Links to trashed features are hidden until a restore, so they cannot
+    // close a cycle
+    const existing = await getAllDependencies();
+    const duplicate = existing.some(
+      (dep) =>
+        dep.sourceId === data.sourceId &&
+        dep.targetId === data.targetId &&
+        dep.type === data.type
+    );
+    if (duplicate) {
+      return rejected("This dependency already exists");
+    }
+
+    // Check the links the schedulers will see, with parents expanded
+    const existingLinks = getSchedulingGraph(hierarchy, existing).dependencies;
+    const newLinks = getSchedulingGraph(hierarchy, [
+      { id: "new", sourceId: data.sourceId, targetId: data.targetId },
+    ]).dependencies;
+    const cycle = newLinks
+      .map((link) =>
+        findCycleForNewDependency(link.sourceId, link.targetId, existingLinks)
+      )
+      .find((path) => path !== null);
+    if (cycle) {
+      return rejected(
+        `Adding this dependency would create a cycle: ${await describeCycle(cycle)}`
+      );
+    }
+
     const result = await db.insert(dependencies).values(data).returning();
+    await recordAudit([
+      {
+        entityType: "dependency",
+        entityId: result[0].id,
+        action: "create",
+        after: result[0],
+      },
+    ]);
     revalidateFeatureRoutes();
     return { success: true, data: result[0] };
   } catch (error) {
     console.error("Failed to create dependency:", error);
-    return {
-      success: false,
-      error:
-        error instanceof Error ? error.message : "Failed to create dependency",
-    };
+    return toActionError(error, "Failed to create dependency");
+  }
+}
+
+// Change a dependency's type, lag or color; its ends stay the same, so the
+// graph cannot gain a cycle
+export async function updateDependency(
+  id: string,
+  data: Partial<Pick<NewDependency, "type" | "color" | "lag" | "lagUnit">>
+): Promise<ActionResult<Dependency>> {
+  const fieldErrors = validateLag(data.lag ?? 0);
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+
+  try {
+    // Links to a trashed feature stay hidden, and unchanged, until a restore
+    const existing = await getAllDependencies();
+    const current = existing.find((dep) => dep.id === id);
+    if (!current) {
+      return notFound(
+        "Dependency not found, or one of its features is in the trash"
+      );
+    }
+    const duplicate =
+      data.type !== undefined &&
+      existing.some(
+        (dep) =>
+          dep.id !== id &&
+          dep.sourceId === current.sourceId &&
+          dep.targetId === current.targetId &&
+          dep.type === data.type
+      );
+    if (duplicate) {
+      return rejected("This dependency already exists");
+    }
+
+    const result = await db
+      .update(dependencies)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(dependencies.id, id))
+      .returning();
+    await recordAudit([
+      {
+        entityType: "dependency",
+        entityId: id,
+        action: "update",
+        before: current,
+        after: result[0],
+      },
+    ]);
+    revalidateFeatureRoutes();
+    return { success: true, data: result[0] };
+  } catch (error) {
+    console.error("Failed to update dependency:", error);
+    return toActionError(error, "Failed to update dependency");
   }
 }
 
@@ -199,31 +1147,63 @@ export async function deleteDependency(
   id: string
 ): Promise<ActionResult<void>> {
   try {
-    await db.delete(dependencies).where(eq(dependencies.id, id));
+    const [before] = await db
+      .delete(dependencies)
+      .where(eq(dependencies.id, id))
+      .returning();
+    if (before) {
+      await recordAudit([
+        { entityType: "dependency", entityId: id, action: "delete", before },
+      ]);
+    }
     revalidateFeatureRoutes();
     return { success: true, data: undefined };
   } catch (error) {
     console.error("Failed to delete dependency:", error);
-    return {
-      success: false,
-      error:
-        error instanceof Error ? error.message : "Failed to delete dependency",
-    };
+    return toActionError(error, "Failed to delete dependency");
   }
 }
 
 // Batch update for auto-scheduling
+// All or nothing: if any feature changed since the client read it, no dates
+// are written and the conflicts are returned for the client to merge. Each
+// update's source (drag, recalculate, ...) is kept in the audit log.
 export async function batchUpdateFeatureDates(
-  updates: Array<{ id: string; startAt: Date; endAt: Date }>
-): Promise<ActionResult<Feature[]>> {
+  updates: Array<{
+    id: string;
+    startAt: Date;
+    endAt: Date;
+    updatedAt?: Date;
+    source?: AuditSource;
+  }>
+): Promise<RollupResult<Feature[]> | ConflictResult> {
   if (updates.length === 0) {
-    return { success: true, data: [] };
+    return { success: true, data: [], rolledUp: [] };
+  }
+  for (const { startAt, endAt } of updates) {
+    const fieldErrors = validateFeature({ startAt, endAt });
+    if (hasFieldErrors(fieldErrors)) {
+      return invalid(fieldErrors);
+    }
   }
 
   try {
     const now = new Date();
     // Use a transaction to batch all updates into a single database round-trip
-    const results = await db.transaction(async (tx) => {
+    const outcome = await db.transaction(async (tx) => {
+      const conflicts = await lockStaleFeatures(tx, updates);
+      if (conflicts.length > 0) {
+        return { conflicts };
+      }
+      const before = await tx
+        .select()
+        .from(features)
+        .where(
+          inArray(
+            features.id,
+            updates.map((update) => update.id)
+          )
+        );
       const updateResults: Feature[] = [];
       for (const update of updates) {
         const result = await tx
@@ -239,18 +1219,544 @@ export async function batchUpdateFeatureDates(
           updateResults.push(result[0]);
         }
       }
-      return updateResults;
+      return { before, updated: updateResults };
     });
+    if (outcome.conflicts) {
+      return toConflictResult(outcome.conflicts);
+    }
+    const beforeById = new Map(outcome.before.map((row) => [row.id, row]));
+    const sources = new Map(
+      updates.map((update) => [update.id, update.source])
+    );
+    await recordAudit(
+      outcome.updated.map((row) => ({
+        entityType: "feature",
+        entityId: row.id,
+        action: "update",
+        source: sources.get(row.id),
+        before: beforeById.get(row.id),
+        after: row,
+      }))
+    );
+    const rolledUp = await syncParentDates();
     revalidateFeatureRoutes();
-    return { success: true, data: results };
+    return { success: true, data: outcome.updated, rolledUp };
   } catch (error) {
     console.error("Failed to batch update feature dates:", error);
-    return {
-      success: false,
-      error:
-        error instanceof Error
-          ? error.message
-          : "Failed to batch update feature dates",
-    };
+    return toActionError(error, "Failed to batch update feature dates");
+  }
+}
+
+// Calendar Actions
+export async function createCalendar(
+  data: Omit<NewCalendar, "id" | "createdAt" | "updatedAt">
+): Promise<ActionResult<Calendar>> {
+  const fieldErrors: FieldErrors = validateWorkingDays(data.workingDays ?? []);
+  const nameError = validateName(data.name);
+  if (nameError) {
+    fieldErrors.name = nameError;
+  }
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+
+  try {
+    const result = await db.insert(calendars).values(data).returning();
+    await recordAudit([
+      {
+        entityType: "calendar",
+        entityId: result[0].id,
+        action: "create",
+        after: result[0],
+      },
+    ]);
+    revalidateFeatureRoutes();
+    return { success: true, data: result[0] };
+  } catch (error) {
+    console.error("Failed to create calendar:", error);
+    return toActionError(error, "Failed to create calendar");
+  }
+}
+
+export async function deleteCalendar(id: string): Promise<ActionResult<void>> {
+  try {
+    const [before] = await db
+      .delete(calendars)
+      .where(eq(calendars.id, id))
+      .returning();
+    if (before) {
+      await recordAudit([
+        { entityType: "calendar", entityId: id, action: "delete", before },
+      ]);
+    }
+    revalidateFeatureRoutes();
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Failed to delete calendar:", error);
+    return toActionError(error, "Failed to delete calendar");
+  }
+}
+
+export async function createHoliday(
+  data: Omit<NewHoliday, "id" | "createdAt" | "updatedAt">
+): Promise<ActionResult<Holiday>> {
+  const fieldErrors: FieldErrors = {};
+  const nameError = validateName(data.name);
+  if (nameError) {
+    fieldErrors.name = nameError;
+  }
+  if (!isDateString(data.date)) {
+    fieldErrors.date = "Enter a valid date";
+  }
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+
+  try {
+    const result = await db.insert(holidays).values(data).returning();
+    await recordAudit([
+      {
+        entityType: "holiday",
+        entityId: result[0].id,
+        action: "create",
+        after: result[0],
+      },
+    ]);
+    revalidateFeatureRoutes();
+    return { success: true, data: result[0] };
+  } catch (error) {
+    console.error("Failed to create holiday:", error);
+    return toActionError(error, "Failed to create holiday");
+  }
+}
+
+export async function deleteHoliday(id: string): Promise<ActionResult<void>> {
+  try {
+    const [before] = await db
+      .delete(holidays)
+      .where(eq(holidays.id, id))
+      .returning();
+    if (before) {
+      await recordAudit([
+        { entityType: "holiday", entityId: id, action: "delete", before },
+      ]);
+    }
+    revalidateFeatureRoutes();
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Failed to delete holiday:", error);
+    return toActionError(error, "Failed to delete holiday");
+  }
+}
+
+// Update the single settings row, creating it on first use
+async function saveRoadmapSettings(
+  changes: Partial<Pick<RoadmapSettings, "calendarId" | "timeZone">>
+) {
+  const [existing] = await db.select().from(roadmapSettings).limit(1);
+  const [saved] = existing
+    ? await db
+        .update(roadmapSettings)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(roadmapSettings.id, existing.id))
+        .returning()
+    : await db.insert(roadmapSettings).values(changes).returning();
+  await recordAudit([
+    {
+      entityType: "settings",
+      entityId: saved.id,
+      action: existing ? "update" : "create",
+      before: existing,
+      after: saved,
+    },
+  ]);
+}
+
+// Select the working calendar used to schedule the roadmap (null = none)
+export async function setRoadmapCalendar(
+  calendarId: string | null
+): Promise<ActionResult<void>> {
+  try {
+    await saveRoadmapSettings({ calendarId });
+    revalidateFeatureRoutes();
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Failed to set roadmap calendar:", error);
+    return toActionError(error, "Failed to set roadmap calendar");
+  }
+}
+
+// Set the IANA time zone every view shows schedule dates in
+export async function setRoadmapTimeZone(
+  timeZone: string
+): Promise<ActionResult<void>> {
+  if (!isValidTimeZone(timeZone)) {
+    return invalid({ timeZone: `Unknown time zone: ${timeZone}` });
+  }
+
+  try {
+    await saveRoadmapSettings({ timeZone });
+    revalidateFeatureRoutes();
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Failed to set roadmap time zone:", error);
+    return toActionError(error, "Failed to set roadmap time zone");
+  }
+}
+
+// Baseline Actions
+// Snapshot the current dates of every feature under a name
+export async function captureBaseline(
+  name: string
+): Promise<ActionResult<BaselineWithFeatures>> {
+  const nameError = validateName(name, "Baseline name");
+  if (nameError) {
+    return invalid({ name: nameError });
+  }
+  const trimmedName = name.trim();
+
+  try {
+    const baseline = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(baselines)
+        .values({ name: trimmedName })
+        .returning();
+      const currentFeatures = await tx
+        .select({
+          id: features.id,
+          startAt: features.startAt,
+          endAt: features.endAt,
+        })
+        .from(features)
+        .where(isNull(features.deletedAt));
+      const entries =
+        currentFeatures.length > 0
+          ? await tx
+              .insert(baselineFeatures)
+              .values(
+                currentFeatures.map((feature) => ({
+                  baselineId: created.id,
+                  featureId: feature.id,
+                  startAt: feature.startAt,
+                  endAt: feature.endAt,
+                }))
+              )
+              .returning()
+          : [];
+      return { ...created, features: entries };
+    });
+    await recordAudit([
+      {
+        entityType: "baseline",
+        entityId: baseline.id,
+        action: "create",
+        after: baseline,
+      },
+    ]);
+    revalidateFeatureRoutes();
+    return { success: true, data: baseline };
+  } catch (error) {
+    console.error("Failed to capture baseline:", error);
+    return toActionError(error, "Failed to capture baseline");
+  }
+}
+
+export async function deleteBaseline(id: string): Promise<ActionResult<void>> {
+  try {
+    const [before] = await db
+      .delete(baselines)
+      .where(eq(baselines.id, id))
+      .returning();
+    if (before) {
+      await recordAudit([
+        { entityType: "baseline", entityId: id, action: "delete", before },
+      ]);
+    }
+    revalidateFeatureRoutes();
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Failed to delete baseline:", error);
+    return toActionError(error, "Failed to delete baseline");
+  }
+}
+
+// Lookup Actions
+// Statuses, groups, products, initiatives, releases and users share a shape
+// (a name and a display position), so one set of actions manages them all
+
+const LOOKUP_LABELS: Record<LookupKind, string> = {
+  status: "status",
+  group: "group",
+  product: "product",
+  initiative: "initiative",
+  release: "release",
+  user: "user",
+};
+
+// The columns a lookup update sets, keeping only the field its table has
+function getLookupValues(kind: LookupKind, data: LookupInput) {
+  return {
+    name: data.name.trim(),
+    ...(kind === "status" ? { color: data.color } : {}),
+    ...(kind === "user" ? { image: data.image?.trim() || null } : {}),
+  };
+}
+
+// Insert a validated lookup row into its own table, so the columns each
+// table requires (a status's color) are type-checked
+function insertLookupRow(
+  kind: LookupKind,
+  data: LookupInput,
+  position: number
+) {
+  const name = data.name.trim();
+  switch (kind) {
+    case "status":
+      if (data.color === undefined) {
+        throw new Error("A status needs a color");
+      }
+      return db
+        .insert(statuses)
+        .values({ name, color: data.color, position })
+        .returning();
+    case "user":
+      return db
+        .insert(users)
+        .values({ name, image: data.image?.trim() || null, position })
+        .returning();
+    default:
+      return db
+        .insert(getLookupTable(kind))
+        .values({ name, position })
+        .returning();
+  }
+}
+
+export async function createLookup(
+  kind: LookupKind,
+  data: LookupInput
+): Promise<ActionResult<LookupItem>> {
+  const fieldErrors = validateLookup(kind, data);
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+
+  const table = getLookupTable(kind);
+  try {
+    // New rows go to the end of the list
+    const [{ last }] = await db
+      .select({ last: max(table.position) })
+      .from(table);
+    const [created] = await insertLookupRow(kind, data, (last ?? -1) + 1);
+    await recordAudit([
+      {
+        entityType: kind,
+        entityId: created.id,
+        action: "create",
+        after: created,
+      },
+    ]);
+    revalidateFeatureRoutes();
+    return { success: true, data: toLookupItem(created, 0) };
+  } catch (error) {
+    console.error(`Failed to create ${LOOKUP_LABELS[kind]}:`, error);
+    return toActionError(error, `Failed to create ${LOOKUP_LABELS[kind]}`);
+  }
+}
+
+export async function updateLookup(
+  kind: LookupKind,
+  id: string,
+  data: LookupInput
+): Promise<ActionResult<LookupItem>> {
+  const fieldErrors = validateLookup(kind, data);
+  if (hasFieldErrors(fieldErrors)) {
+    return invalid(fieldErrors);
+  }
+
+  const table = getLookupTable(kind);
+  const column = features[LOOKUP_FEATURE_FIELDS[kind]];
+  try {
+    const [before] = await db.select().from(table).where(eq(table.id, id));
+    if (!before) {
+      return notFound(`This ${LOOKUP_LABELS[kind]} no longer exists`);
+    }
+    const [updated] = await db
+      .update(table)
+      .set({ ...getLookupValues(kind, data), updatedAt: new Date() })
+      .where(eq(table.id, id))
+      .returning();
+    const [{ featureCount }] = await db
+      .select({ featureCount: count() })
+      .from(features)
+      .where(eq(column, id));
+    await recordAudit([
+      {
+        entityType: kind,
+        entityId: id,
+        action: "update",
+        before,
+        after: updated,
+      },
+    ]);
+    revalidateFeatureRoutes();
+    return { success: true, data: toLookupItem(updated, featureCount) };
+  } catch (error) {
+    console.error(`Failed to update ${LOOKUP_LABELS[kind]}:`, error);
+    return toActionError(error, `Failed to update ${LOOKUP_LABELS[kind]}`);
+  }
+}
+
+/**
+ * Delete a lookup row. Features that use it, trashed ones included, are first
+ * moved to another row of the same table; features must always have a status,
+ * group, product, initiative and release, so deleting one of those that is in
+ * use needs a row to move them to. Features owned by a deleted user can
+ * instead be left without an owner.
+ *
+ * @param kind - Lookup table to delete from
+ * @param id - Row to delete
+ * @param reassignToId - Row that takes over its features, or null for none
+ */
+export async function deleteLookup(
+  kind: LookupKind,
+  id: string,
+  reassignToId: string | null = null
+): Promise<ActionResult<void>> {
+  const label = LOOKUP_LABELS[kind];
+  if (reassignToId !== null && !(isUuid(reassignToId) && reassignToId !== id)) {
+    return invalid({
+      reassignToId: `Choose another ${label} to move its features to`,
+    });
+  }
+
+  const table = getLookupTable(kind);
+  const field = LOOKUP_FEATURE_FIELDS[kind];
+  const column = features[field];
+  try {
+    const [before] = await db.select().from(table).where(eq(table.id, id));
+    if (!before) {
+      return notFound(`This ${label} no longer exists`);
+    }
+    if (reassignToId !== null) {
+      const [target] = await db
+        .select({ id: table.id })
+        .from(table)
+        .where(eq(table.id, reassignToId));
+      if (!target) {
+        return {
+          success: false,
+          code: "invalid_reference",
+          error: `Unknown ${label}`,
+          fieldErrors: { reassignToId: `Unknown ${label}` },
+        };
+      }
+    }
+
+    const now = new Date();
+    const { moved, affected } = await db.transaction(async (tx) => {
+      const used = await tx
+        .select()
+        .from(features)
+        .where(eq(column, id))
+        .for("update");
+      if (used.length > 0 && reassignToId === null && kind !== "user") {
+        return { affected: used, moved: null };
+      }
+      const updated =
+        used.length > 0
+          ? await tx
+              .update(features)
+              .set({ [field]: reassignToId, updatedAt: now })
+              .where(eq(column, id))
+              .returning()
+          : [];
+      await tx.delete(table).where(eq(table.id, id));
+      return { affected: used, moved: updated };
+    });
+    if (moved === null) {
+      const uses =
+        affected.length === 1
+          ? "1 feature uses"
+          : `${affected.length} features use`;
+      return rejected(
+        `${uses} this ${label}. Choose another ${label} to move them to before deleting it.`
+      );
+    }
+
+    const previous = new Map(affected.map((row) => [row.id, row]));
+    await recordAudit([
+      ...moved.map((row) => ({
+        entityType: "feature" as const,
+        entityId: row.id,
+        action: "update" as const,
+        before: previous.get(row.id),
+        after: row,
+      })),
+      { entityType: kind, entityId: id, action: "delete", before },
+    ]);
+    revalidateFeatureRoutes();
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error(`Failed to delete ${label}:`, error);
+    return toActionError(error, `Failed to delete ${label}`);
+  }
+}
+
+// Save the display order of a lookup table; orderedIds lists every row,
+// first to last
+export async function reorderLookups(
+  kind: LookupKind,
+  orderedIds: string[]
+): Promise<ActionResult<void>> {
+  if (
+    !orderedIds.every(isUuid) ||
+    new Set(orderedIds).size !== orderedIds.length
+  ) {
+    return invalid({ orderedIds: "Invalid order" });
+  }
+
+  const table = getLookupTable(kind);
+  try {
+    const rows = await db.select().from(table);
+    const current = new Map(rows.map((row) => [row.id, row]));
+    if (
+      rows.length !== orderedIds.length ||
+      !orderedIds.every((id) => current.has(id))
+    ) {
+      return rejected(
+        "The list changed since you loaded it. Reload the page and try again."
+      );
+    }
+
+    const now = new Date();
+    const entries = await db.transaction(async (tx) => {
+      const changed: AuditEntry[] = [];
+      for (const [position, id] of orderedIds.entries()) {
+        const before = current.get(id);
+        if (!before || before.position === position) {
+          continue;
+        }
+        const [after] = await tx
+          .update(table)
+          .set({ position, updatedAt: now })
+          .where(eq(table.id, id))
+          .returning();
+        changed.push({
+          entityType: kind,
+          entityId: id,
+          action: "update",
+          before,
+          after,
+        });
+      }
+      return changed;
+    });
+    await recordAudit(entries);
+    revalidateFeatureRoutes();
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error(`Failed to reorder ${LOOKUP_LABELS[kind]} list:`, error);
+    return toActionError(error, "Failed to save the new order");
   }
 }
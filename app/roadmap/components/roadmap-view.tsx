@@ -1,27 +1,94 @@
 "use client";
 
 import {
+  IconArrowBackUp,
+  IconArrowForwardUp,
+  IconCalendarDue,
   IconCalendarRepeat,
+  IconChartHistogram,
   IconDeviceFloppy,
   IconMinus,
   IconPlus,
+  IconRoute,
   IconTrash,
+  IconUsers,
 } from "@tabler/icons-react";
+import { addDays } from "date-fns";
 import groupBy from "lodash.groupby";
 import {
   CalendarIcon,
   ChevronRightIcon,
+  DiamondIcon,
   EyeIcon,
   GanttChartSquareIcon,
+  HistoryIcon,
   KanbanSquareIcon,
   LinkIcon,
   ListIcon,
+  ListTreeIcon,
+  PinIcon,
+  SettingsIcon,
   TableIcon,
+  TimerIcon,
   TrashIcon,
 } from "lucide-react";
-import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { BackwardScheduleDialog } from "@/app/gantt/backward-schedule-dialog";
+import { BaselineControls } from "@/app/gantt/baseline-controls";
+import {
+  ConstraintDialog,
+  type ConstraintValue,
+} from "@/app/gantt/constraint-dialog";
+import { ConstraintWarning } from "@/app/gantt/constraint-warning";
+import { CreateFeatureDialog } from "@/app/gantt/create-feature-dialog";
+import { DependencyCycleWarning } from "@/app/gantt/dependency-cycle-warning";
+import {
+  EstimateDialog,
+  type EstimateValue,
+} from "@/app/gantt/estimate-dialog";
+import {
+  getFeatureAtRow,
+  getFeatureSections,
+  HIERARCHY_OPTIONS,
+  type HierarchyMode,
+} from "@/app/gantt/hierarchy";
+import { HistoryPanel } from "@/app/gantt/history-panel";
+import { LagDialog } from "@/app/gantt/lag-dialog";
+import { LinkError } from "@/app/gantt/link-error";
+import {
+  buildOptimisticFeature,
+  createFeatureDraft,
+  createPendingFeatureId,
+  type FeatureDraft,
+  isPendingFeature,
+  type NewFeatureValues,
+} from "@/app/gantt/new-feature";
+import { ParentDialog } from "@/app/gantt/parent-dialog";
 import { SaveChangesDialog } from "@/app/gantt/save-changes-dialog";
-import type { PendingChange } from "@/app/gantt/types";
+import {
+  SIMULATION_DELAY_MS,
+  SimulationPanel,
+} from "@/app/gantt/simulation-panel";
+import { TimeZoneSelect } from "@/app/gantt/time-zone-select";
+import type {
+  ChangeConflict,
+  ConflictResolution,
+  FeatureSnapshot,
+  PendingChange,
+} from "@/app/gantt/types";
+import {
+  applySnapshotChanges,
+  applySnapshotDates,
+  dropPendingSteps,
+  dropUndoStep,
+  EMPTY_UNDO_HISTORY,
+  getUndoShortcut,
+  getUndoTitle,
+  pushUndoStep,
+  shiftUndoStep,
+} from "@/app/gantt/undo-history";
+import { applySavedVersions } from "@/app/gantt/versions";
 import {
   CalendarBody,
   CalendarDate,
@@ -35,9 +102,18 @@ import {
 } from "@/components/kibo-ui/calendar";
 import {
   autoSchedule,
+  type BackwardScheduleTarget,
+  calculateCriticalPath,
+  describeScheduleTrace,
+  type FeatureUpdate,
+  findConstraintViolations,
+  findDependencyCycles,
+  type GanttCalendar,
   GanttCreateMarkerTrigger,
   type GanttDependency,
+  type GanttDependencyChanges,
   GanttDependencyLayer,
+  type GanttDependencyType,
   GanttFeatureItem,
   GanttFeatureList,
   GanttFeatureListGroup,
@@ -49,7 +125,17 @@ import {
   GanttSidebarItem,
   GanttTimeline,
   GanttToday,
+  getRollupProgress,
+  getSchedulingGraph,
+  levelResources,
   recalculateSchedule,
+  rollupParentFeatures,
+  type SimulationResult,
+  scheduleBackward,
+  simulateSchedule,
+  traceScheduleChange,
+  useCollapsedFeatures,
+  useSidebarColumns,
 } from "@/components/kibo-ui/gantt";
 import {
   KanbanBoard,
@@ -86,18 +172,37 @@ import {
 } from "@/components/ui/context-menu";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
+  type BaselineWithFeatures,
+  type CalendarWithHolidays,
   type Dependency,
+  deserializeBaseline,
   deserializeFeature,
   deserializeMarker,
+  type Feature,
+  type FeatureLookups,
   type FeatureWithRelations,
   type Marker,
+  type SerializedBaselineWithFeatures,
   type SerializedFeatureWithRelations,
   type SerializedMarker,
   type Status,
 } from "@/lib/db/types";
+import { fromZonedDate, toZonedDate } from "@/lib/time-zone";
+import { cn } from "@/lib/utils";
 import {
   batchUpdateFeatureDates,
+  captureBaseline,
+  createDependency,
+  createFeature,
+  deleteBaseline,
+  deleteDependency,
   deleteFeature,
+  setFeatureKind,
+  setFeatureParent,
+  setRoadmapCalendar,
+  updateDependency,
+  updateFeature,
+  updateFeatureProgress,
   updateFeatureStatus,
 } from "../actions";
 
@@ -106,6 +211,11 @@ type RoadmapViewProps = {
   statuses: Status[];
   dependencies: Dependency[];
   markers: SerializedMarker[];
+  calendars: CalendarWithHolidays[];
+  calendarId: string | null;
+  baselines: SerializedBaselineWithFeatures[];
+  timeZone: string;
+  lookups: FeatureLookups;
 };
 
 // Convert DB dependency to Gantt dependency type
@@ -116,20 +226,74 @@ function toGanttDependency(dep: Dependency): GanttDependency {
     targetId: dep.targetId,
     type: dep.type,
     color: dep.color ?? undefined,
+    lag: dep.lag,
+    lagUnit: dep.lagUnit,
+  };
+}
+
+// Convert DB calendar to Gantt calendar type
+function toGanttCalendar(calendar: CalendarWithHolidays): GanttCalendar {
+  return {
+    id: calendar.id,
+    name: calendar.name,
+    workingDays: calendar.workingDays,
+    holidays: calendar.holidays.map((holiday) => holiday.date),
   };
 }
 
 const GanttView = ({
   features: initialFeatures,
-  dependencies,
+  dependencies: initialDependencies,
   markers,
+  calendars,
+  calendarId: initialCalendarId,
+  baselines: initialBaselines,
+  timeZone,
+  lookups,
 }: {
   features: FeatureWithRelations[];
   dependencies: GanttDependency[];
   markers: Marker[];
+  calendars: CalendarWithHolidays[];
+  calendarId: string | null;
+  baselines: BaselineWithFeatures[];
+  timeZone: string;
+  lookups: FeatureLookups;
 }) => {
   const [features, setFeatures] = useState(initialFeatures);
+  const [dependencies, setDependencies] = useState(initialDependencies);
+  const today = useMemo(() => toZonedDate(new Date(), timeZone), [timeZone]);
   const [zoom, setZoom] = useState(100);
+  const [hierarchyMode, setHierarchyMode] = useState<HierarchyMode>("group");
+  const [collapsed] = useCollapsedFeatures();
+  const [calendarId, setCalendarId] = useState(initialCalendarId);
+  const selectedCalendar = calendars.find((c) => c.id === calendarId);
+  const calendar = selectedCalendar
+    ? toGanttCalendar(selectedCalendar)
+    : undefined;
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  // Seed of the risk simulation, or null when the simulation is hidden
+  const [simulationSeed, setSimulationSeed] = useState<number | null>(null);
+  const [estimateFeature, setEstimateFeature] =
+    useState<FeatureWithRelations | null>(null);
+  const [isBackwardOpen, setIsBackwardOpen] = useState(false);
+  const [constraintFeature, setConstraintFeature] =
+    useState<FeatureWithRelations | null>(null);
+  const [parentFeature, setParentFeature] =
+    useState<FeatureWithRelations | null>(null);
+  const [historyFeature, setHistoryFeature] =
+    useState<FeatureWithRelations | null>(null);
+  const [featureDraft, setFeatureDraft] = useState<FeatureDraft | null>(null);
+  const [baselines, setBaselines] = useState(initialBaselines);
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<ChangeConflict[]>([]);
+  const [editingDependency, setEditingDependency] =
+    useState<GanttDependency | null>(null);
+  const [, setSidebarColumns] = useSidebarColumns();
+  const [undoHistory, setUndoHistory] = useState(EMPTY_UNDO_HISTORY);
+  // Set while a saved step is being written back, so steps don't interleave
+  const undoBusyRef = useRef(false);
 
   // Pending changes state
   const [pendingChanges, setPendingChanges] = useState<
@@ -159,25 +323,321 @@ const GanttView = ({
     originalFeaturesRef.current = originalMap;
   }, [initialFeatures]);
 
-  const groupedFeatures = groupBy(features, "group.name");
-
-  const sortedGroupedFeatures = Object.fromEntries(
-    Object.entries(groupedFeatures).sort(([nameA], [nameB]) =>
-      nameA.localeCompare(nameB)
-    )
+  // Parents show the span of their children; the schedulers only place
+  // leaves, with dependencies on a parent applied to each of its children
+  const displayFeatures = rollupParentFeatures(features);
+  const scheduling = getSchedulingGraph(features, dependencies);
+  const sections = getFeatureSections(
+    displayFeatures,
+    hierarchyMode,
+    collapsed
   );
 
   // Flatten sorted features for index lookup
-  const allSortedFeatures = Object.values(sortedGroupedFeatures).flat();
+  const allSortedFeatures = sections.flatMap((section) =>
+    section.allRows.map((row) => row.feature)
+  );
+  const schedulableIds = new Set(scheduling.features.map((f) => f.id));
+
+  // Critical path analysis for float display and highlighting
+  const criticalPath = calculateCriticalPath(
+    scheduling.features,
+    scheduling.dependencies,
+    { calendar }
+  );
+  const isCritical = (id: string) =>
+    showCriticalPath && (criticalPath.features.get(id)?.critical ?? false);
+  const criticalDependencyIds = showCriticalPath
+    ? criticalPath.criticalDependencyIds
+    : undefined;
+  const dependencyCycles = findDependencyCycles(scheduling.dependencies);
+  const constraintViolations = findConstraintViolations(
+    scheduling.features,
+    scheduling.dependencies,
+    { calendar }
+  );
+  const violatedFeatureIds = new Set(
+    constraintViolations.map((violation) => violation.featureId)
+  );
 
   const handleViewFeature = (id: string) =>
     console.log(`Feature selected: ${id}`);
 
   const handleCopyLink = (id: string) => console.log(`Copy link: ${id}`);
 
+  // Monte Carlo forecast per feature and per release. The runs take a
+  // moment, so they wait until the schedule settles instead of re-running on
+  // every edit
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  useEffect(() => {
+    if (simulationSeed === null) {
+      setSimulation(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      const graph = getSchedulingGraph(features, dependencies);
+      const releases = groupBy(graph.features, "release.name");
+      setSimulation(
+        simulateSchedule(graph.features, graph.dependencies, {
+          calendar: selectedCalendar
+            ? toGanttCalendar(selectedCalendar)
+            : undefined,
+          seed: simulationSeed,
+          groups: Object.fromEntries(
+            Object.entries(releases).map(([name, releaseFeatures]) => [
+              name,
+              releaseFeatures.map((feature) => feature.id),
+            ])
+          ),
+        })
+      );
+    }, SIMULATION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [features, dependencies, selectedCalendar, simulationSeed]);
+
+  // Persist field edits against the version last read, so an edit someone
+  // else saved in the meantime is reported instead of overwritten
+  const saveFeatureFields = async (
+    featureId: string,
+    value: Parameters<typeof updateFeature>[1]
+  ) => {
+    const known = features.find((feature) => feature.id === featureId);
+    const result = await updateFeature(featureId, value, known?.updatedAt);
+    if (!result.success) {
+      setLinkError(result.error);
+      return;
+    }
+    setFeatures((prev) =>
+      applySavedVersions(prev, [result.data, ...result.rolledUp])
+    );
+  };
+
+  const handleSaveEstimate = async (
+    featureId: string,
+    value: EstimateValue
+  ) => {
+    setFeatures((prev) =>
+      prev.map((feature) =>
+        feature.id === featureId ? { ...feature, ...value } : feature
+      )
+    );
+    setEstimateFeature(null);
+    await saveFeatureFields(featureId, value);
+  };
+
+  // Put a feature's row back as it was before an edit the server rejected
+  const restoreFeatureRow = (previous: FeatureWithRelations) =>
+    setFeatures((prev) =>
+      prev.map((feature) => (feature.id === previous.id ? previous : feature))
+    );
+
+  // Convert between milestone and task, saving immediately from the saved
+  // start; the kind, dates and any unsaved move come back if the save fails
+  const handleToggleMilestone = async (feature: FeatureWithRelations) => {
+    const kind = feature.kind === "milestone" ? "task" : "milestone";
+    const previous = features.find((f) => f.id === feature.id) ?? feature;
+    const original = originalFeaturesRef.current.get(feature.id);
+    const pending = pendingChanges.get(feature.id);
+    const startAt = original?.startAt ?? feature.startAt;
+    const endAt = kind === "milestone" ? startAt : addDays(startAt, 1);
+
+    setFeatures((prev) =>
+      prev.map((f) =>
+        f.id === feature.id ? { ...f, kind, startAt, endAt } : f
+      )
+    );
+    originalFeaturesRef.current.set(feature.id, { startAt, endAt });
+    setPendingChanges((prev) => {
+      const next = new Map(prev);
+      next.delete(feature.id);
+      return next;
+    });
+    const result = await setFeatureKind(feature.id, kind, previous.updatedAt);
+    if (!result.success) {
+      restoreFeatureRow(previous);
+      if (original) {
+        originalFeaturesRef.current.set(feature.id, original);
+      } else {
+        originalFeaturesRef.current.delete(feature.id);
+      }
+      if (pending) {
+        setPendingChanges((prev) => new Map(prev).set(feature.id, pending));
+      }
+      setLinkError(result.error);
+      return;
+    }
+    setLinkError(null);
+    setFeatures((prev) =>
+      applySavedVersions(prev, [result.data, ...result.rolledUp])
+    );
+  };
+
+  // Persist a dependency drawn by dragging between two bars
+  const handleLink = async (
+    sourceId: string,
+    targetId: string,
+    type: GanttDependencyType
+  ) => {
+    // Bars of new features have no id to link to until they are saved
+    if (isPendingFeature(sourceId) || isPendingFeature(targetId)) {
+      setLinkError("Wait for the new feature to be saved before linking it.");
+      return;
+    }
+    const result = await createDependency({ sourceId, targetId, type });
+    if (!result.success) {
+      setLinkError(result.error);
+      return;
+    }
+    setLinkError(null);
+    setDependencies((prev) => [...prev, toGanttDependency(result.data)]);
+  };
+
+  // Arrow edits apply locally first so the path redraws at once, and are
+  // rolled back if the server rejects them
+  const handleDependencyChange = async (
+    id: string,
+    changes: GanttDependencyChanges
+  ) => {
+    const previous = dependencies;
+    setDependencies((prev) =>
+      prev.map((dep) =>
+        dep.id === id
+          ? {
+              ...dep,
+              ...changes,
+              color:
+                "color" in changes ? (changes.color ?? undefined) : dep.color,
+            }
+          : dep
+      )
+    );
+    setEditingDependency(null);
+    const result = await updateDependency(id, changes);
+    if (!result.success) {
+      setDependencies(previous);
+      setLinkError(result.error);
+      return;
+    }
+    setLinkError(null);
+    setDependencies((prev) =>
+      prev.map((dep) => (dep.id === id ? toGanttDependency(result.data) : dep))
+    );
+  };
+
+  const handleDependencyDelete = async (id: string) => {
+    const previous = dependencies;
+    setDependencies((prev) => prev.filter((dep) => dep.id !== id));
+    const result = await deleteDependency(id);
+    if (!result.success) {
+      setDependencies(previous);
+      setLinkError(result.error);
+      return;
+    }
+    setLinkError(null);
+  };
+
+  // A revert from the history panel replaces the feature's saved fields and
+  // drops any unsaved move of it
+  const handleRevertFeature = (reverted: Feature, rolledUp: Feature[]) => {
+    const startAt = toZonedDate(reverted.startAt, timeZone);
+    const endAt = toZonedDate(reverted.endAt, timeZone);
+    originalFeaturesRef.current.set(reverted.id, { startAt, endAt });
+    setPendingChanges((prev) => {
+      const next = new Map(prev);
+      next.delete(reverted.id);
+      return next;
+    });
+    setFeatures((prev) =>
+      applySavedVersions(
+        prev.map((feature) =>
+          feature.id === reverted.id
+            ? { ...feature, ...reverted, startAt, endAt }
+            : feature
+        ),
+        rolledUp
+      )
+    );
+  };
+
+  const handleSaveParent = async (
+    featureId: string,
+    parentId: string | null
+  ) => {
+    const previous = features.find((feature) => feature.id === featureId);
+    setFeatures((prev) =>
+      prev.map((feature) =>
+        feature.id === featureId ? { ...feature, parentId } : feature
+      )
+    );
+    setParentFeature(null);
+    const result = await setFeatureParent(featureId, parentId);
+    if (!result.success) {
+      if (previous) {
+        restoreFeatureRow(previous);
+      }
+      setLinkError(result.error);
+      return;
+    }
+    setLinkError(null);
+    setFeatures((prev) =>
+      applySavedVersions(prev, [result.data, ...result.rolledUp])
+    );
+  };
+
+  const handleProgressChange = async (
+    featureId: string,
+    percentComplete: number
+  ) => {
+    const previous = features.find((feature) => feature.id === featureId);
+    setFeatures((prev) =>
+      prev.map((feature) =>
+        feature.id === featureId ? { ...feature, percentComplete } : feature
+      )
+    );
+    const result = await updateFeatureProgress(featureId, percentComplete);
+    if (!result.success) {
+      if (previous) {
+        restoreFeatureRow(previous);
+      }
+      setLinkError(result.error);
+      return;
+    }
+    setLinkError(null);
+    setFeatures((prev) => applySavedVersions(prev, [result.data]));
+  };
+
+  const handleSaveConstraint = async (
+    featureId: string,
+    value: ConstraintValue
+  ) => {
+    setFeatures((prev) =>
+      prev.map((feature) =>
+        feature.id === featureId ? { ...feature, ...value } : feature
+      )
+    );
+    setConstraintFeature(null);
+    await saveFeatureFields(featureId, value);
+  };
+
+  // The row comes back in its place if the server keeps the feature
   const handleRemoveFeature = async (id: string) => {
+    const index = features.findIndex((feature) => feature.id === id);
+    const removed = features[index];
     setFeatures((prev) => prev.filter((feature) => feature.id !== id));
-    await deleteFeature(id);
+    const result = await deleteFeature(id);
+    if (!result.success) {
+      if (removed) {
+        setFeatures((prev) => [
+          ...prev.slice(0, index),
+          removed,
+          ...prev.slice(index),
+        ]);
+      }
+      setLinkError(result.error);
+      return;
+    }
+    setLinkError(null);
+    setFeatures((prev) => applySavedVersions(prev, result.rolledUp));
   };
 
   const handleRemoveMarker = (id: string) =>
@@ -186,37 +646,192 @@ const GanttView = ({
   const handleCreateMarker = (date: Date) =>
     console.log(`Create marker: ${date.toISOString()}`);
 
-  // Track pending change for a feature
-  const trackPendingChange = (
-    featureId: string,
-    newStartAt: Date,
-    newEndAt: Date,
-    source: "drag" | "recalculate"
-  ) => {
-    const feature = features.find((f) => f.id === featureId);
-    const original = originalFeaturesRef.current.get(featureId);
-    if (!(feature && original)) {
+  // Baseline dates by feature, for the ghost bars and variance columns
+  const selectedBaseline = baselines.find((b) => b.id === baselineId);
+  const baselineDates = new Map(
+    (selectedBaseline?.features ?? []).map((entry) => [
+      entry.featureId,
+      { startAt: entry.startAt, endAt: entry.endAt },
+    ])
+  );
+
+  const handleBaselineChange = (id: string | null) => {
+    setBaselineId(id);
+    // Show the variance columns only while comparing against a baseline
+    setSidebarColumns((prev) => ({
+      ...prev,
+      startVariance: id !== null,
+      finishVariance: id !== null,
+    }));
+  };
+
+  const handleCaptureBaseline = async (name: string) => {
+    const result = await captureBaseline(name);
+    if (!result.success) {
+      return result.error;
+    }
+    // Snapshot dates come back as exact instants; show them in wall-clock
+    // time like the baselines loaded with the page
+    const captured = {
+      ...result.data,
+      features: result.data.features.map((entry) => ({
+        ...entry,
+        startAt: toZonedDate(entry.startAt, timeZone),
+        endAt: toZonedDate(entry.endAt, timeZone),
+      })),
+    };
+    setBaselines((prev) => [captured, ...prev]);
+    handleBaselineChange(captured.id);
+    return null;
+  };
+
+  // The baseline and the comparison against it come back if the delete fails
+  const handleDeleteBaseline = async (id: string) => {
+    const previous = baselines;
+    const previousId = baselineId;
+    setBaselines((prev) => prev.filter((baseline) => baseline.id !== id));
+    handleBaselineChange(null);
+    const result = await deleteBaseline(id);
+    if (!result.success) {
+      setBaselines(previous);
+      handleBaselineChange(previousId);
+      setLinkError(result.error);
       return;
     }
+    setLinkError(null);
+  };
 
-    setPendingChanges((prev) => {
-      const next = new Map(prev);
-      next.set(featureId, {
-        id: crypto.randomUUID(),
-        featureId,
-        featureName: feature.name,
-        groupName: feature.group.name,
-        originalStartAt: original.startAt,
-        originalEndAt: original.endAt,
-        newStartAt,
-        newEndAt,
-        source,
-        timestamp: new Date(),
+  // Label features by their sidebar short ID, e.g. "T4 Checkout flow"
+  const getFeatureLabel = (id: string) => {
+    const index = allSortedFeatures.findIndex((f) => f.id === id);
+    return index >= 0 ? `T${index + 1} ${allSortedFeatures[index].name}` : id;
+  };
+
+  // Explain a scheduled update by following its binding predecessors
+  const explainUpdate = (featureId: string, updates: FeatureUpdate[]) =>
+    describeScheduleTrace(
+      traceScheduleChange(featureId, updates, features),
+      getFeatureLabel
+    );
+
+  const applySnapshots = (snapshots: FeatureSnapshot[]) => {
+    setFeatures((prev) => applySnapshotDates(prev, snapshots));
+    setPendingChanges((prev) => applySnapshotChanges(prev, snapshots));
+  };
+
+  // Apply date updates locally and track them as pending changes, recorded
+  // as one undoable step
+  const trackPendingChanges = (
+    updates: FeatureUpdate[],
+    source: PendingChange["source"],
+    explain?: (featureId: string) => string[]
+  ) => {
+    const before: FeatureSnapshot[] = [];
+    const after: FeatureSnapshot[] = [];
+    for (const update of updates) {
+      const feature = features.find((f) => f.id === update.id);
+      const original = originalFeaturesRef.current.get(update.id);
+      if (!(feature && original)) {
+        continue;
+      }
+      before.push({
+        featureId: update.id,
+        startAt: feature.startAt,
+        endAt: feature.endAt,
+        pending: pendingChanges.get(update.id),
       });
-      return next;
-    });
+      after.push({
+        featureId: update.id,
+        startAt: update.startAt,
+        endAt: update.endAt,
+        pending: {
+          id: crypto.randomUUID(),
+          featureId: update.id,
+          featureName: feature.name,
+          groupName: feature.group.name,
+          originalStartAt: original.startAt,
+          originalEndAt: original.endAt,
+          newStartAt: update.startAt,
+          newEndAt: update.endAt,
+          source,
+          trace: explain?.(update.id),
+          timestamp: new Date(),
+        },
+      });
+    }
+
+    applySnapshots(after);
+    setUndoHistory((prev) => pushUndoStep(prev, { source, before, after }));
+  };
+
+  // Write dates straight to the server, for undoing and redoing saved steps
+  const persistSnapshots = async (snapshots: FeatureSnapshot[]) => {
+    const versions = new Map(features.map((f) => [f.id, f.updatedAt]));
+    const result = await batchUpdateFeatureDates(
+      snapshots.map((snapshot) => ({
+        id: snapshot.featureId,
+        startAt: fromZonedDate(snapshot.startAt, timeZone),
+        endAt: fromZonedDate(snapshot.endAt, timeZone),
+        updatedAt: versions.get(snapshot.featureId),
+        source: "revert" as const,
+      }))
+    );
+    if (!result.success) {
+      setLinkError(
+        "conflicts" in result
+          ? "These features were changed by someone else since, so the step was dropped from the history."
+          : result.error
+      );
+      return false;
+    }
+    setFeatures((prev) =>
+      applySavedVersions(prev, [...result.data, ...result.rolledUp])
+    );
+    for (const snapshot of snapshots) {
+      originalFeaturesRef.current.set(snapshot.featureId, {
+        startAt: snapshot.startAt,
+        endAt: snapshot.endAt,
+      });
+    }
+    return true;
   };
 
+  // Step back or forward through the history; saved steps are reversed with
+  // a compensating save
+  const stepHistory = async (from: "undo" | "redo") => {
+    const step = undoHistory[from].at(-1);
+    if (!step || undoBusyRef.current) {
+      return;
+    }
+    const snapshots = from === "undo" ? step.before : step.after;
+    undoBusyRef.current = true;
+    const applied =
+      step.source !== "save" || (await persistSnapshots(snapshots));
+    undoBusyRef.current = false;
+    if (!applied) {
+      setUndoHistory((prev) => dropUndoStep(prev, from));
+      return;
+    }
+    applySnapshots(snapshots);
+    setUndoHistory((prev) => shiftUndoStep(prev, from));
+  };
+
+  const handleUndo = () => stepHistory("undo");
+  const handleRedo = () => stepHistory("redo");
+
+  // Re-subscribed every render so the shortcut sees the latest history
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const direction = getUndoShortcut(event);
+      if (direction) {
+        event.preventDefault();
+        stepHistory(direction);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
   const handleMoveFeature = (id: string, startAt: Date, endAt: Date | null) => {
     if (!endAt) {
       return;
@@ -224,87 +839,203 @@ const GanttView = ({
 
     // Calculate all features that need to be rescheduled
     const updates = autoSchedule(
-      id,
-      { startAt, endAt },
-      features,
-      dependencies
+      { id, startAt, endAt },
+      scheduling.features,
+      scheduling.dependencies,
+      { calendar }
     );
 
-    // Apply all updates locally for immediate visual feedback
-    setFeatures((prev) =>
-      prev.map((feature) => {
-        const update = updates.find((u) => u.id === feature.id);
-        return update
-          ? { ...feature, startAt: update.startAt, endAt: update.endAt }
-          : feature;
-      })
+    // Apply locally and track as pending changes (don't save to DB yet)
+    trackPendingChanges(updates, "drag", (featureId) =>
+      explainUpdate(featureId, updates)
     );
 
-    // Track pending changes (don't save to DB yet)
-    for (const update of updates) {
-      trackPendingChange(update.id, update.startAt, update.endAt, "drag");
-    }
-
     console.log(`Tracked ${updates.length} pending change(s)`);
   };
 
-  const handleAddFeature = (date: Date) =>
-    console.log(`Add feature: ${date.toISOString()}`);
+  // Bars of new features stay fixed until the server returns them
+  const getBarHandlers = (featureId: string) =>
+    isPendingFeature(featureId)
+      ? {}
+      : {
+          onLink: handleLink,
+          onMove: handleMoveFeature,
+          onProgressChange: handleProgressChange,
+        };
+
+  const handleAddFeature = (date: Date, row: number) =>
+    setFeatureDraft(
+      createFeatureDraft(
+        date,
+        getFeatureAtRow(sections, row),
+        hierarchyMode,
+        "monthly"
+      )
+    );
+
+  // Show the new bar at once, swap in the saved row when the server returns
+  // it, then link it after its predecessor
+  const handleCreateFeature = async (
+    values: NewFeatureValues,
+    predecessorId: string | null
+  ) => {
+    const optimistic = buildOptimisticFeature(
+      createPendingFeatureId(),
+      values,
+      lookups
+    );
+    if (!optimistic) {
+      return;
+    }
+    setFeatureDraft(null);
+    setFeatures((prev) => [...prev, optimistic]);
+
+    const result = await createFeature({
+      ...values,
+      startAt: fromZonedDate(values.startAt, timeZone),
+      endAt: fromZonedDate(values.endAt, timeZone),
+    });
+    if (!result.success) {
+      setFeatures((prev) => prev.filter((f) => f.id !== optimistic.id));
+      setLinkError(result.error);
+      return;
+    }
+    const created: FeatureWithRelations = {
+      ...optimistic,
+      ...result.data,
+      startAt: toZonedDate(result.data.startAt, timeZone),
+      endAt: toZonedDate(result.data.endAt, timeZone),
+    };
+    originalFeaturesRef.current.set(created.id, {
+      startAt: created.startAt,
+      endAt: created.endAt,
+    });
+    setFeatures((prev) =>
+      applySavedVersions(
+        prev.map((f) => (f.id === optimistic.id ? created : f)),
+        result.rolledUp
+      )
+    );
+    if (predecessorId) {
+      await handleLink(predecessorId, created.id, "FS");
+    }
+  };
 
   const handleZoomIn = () => setZoom((prev) => Math.min(prev + 25, 200));
   const handleZoomOut = () => setZoom((prev) => Math.max(prev - 25, 25));
 
-  const handleRecalculateSchedule = () => {
-    const updates = recalculateSchedule(features, dependencies);
+  const handleCalendarChange = async (value: string) => {
+    const previousId = calendarId;
+    const nextCalendarId = value || null;
+    setCalendarId(nextCalendarId);
+    const result = await setRoadmapCalendar(nextCalendarId);
+    if (!result.success) {
+      setCalendarId(previousId);
+      setLinkError(result.error);
+      return;
+    }
+    setLinkError(null);
+  };
 
+  // Apply scheduler updates locally and track them as pending changes
+  const applyScheduleUpdates = (
+    updates: FeatureUpdate[],
+    source: PendingChange["source"]
+  ) => {
     if (updates.length === 0) {
       console.log("Schedule is already up to date");
       return;
     }
 
-    // Apply all updates locally for immediate visual feedback
-    setFeatures((prev) =>
-      prev.map((feature) => {
-        const update = updates.find((u) => u.id === feature.id);
-        return update
-          ? { ...feature, startAt: update.startAt, endAt: update.endAt }
-          : feature;
-      })
+    // Apply locally and track as pending changes (don't save to DB yet)
+    trackPendingChanges(updates, source, (featureId) =>
+      explainUpdate(featureId, updates)
     );
 
-    // Track pending changes (don't save to DB yet)
-    for (const update of updates) {
-      trackPendingChange(
-        update.id,
-        update.startAt,
-        update.endAt,
-        "recalculate"
-      );
-    }
+    console.log(`Tracked ${updates.length} pending ${source} change(s)`);
+  };
+
+  const handleRecalculateSchedule = () =>
+    applyScheduleUpdates(
+      recalculateSchedule(scheduling.features, scheduling.dependencies, {
+        calendar,
+      }),
+      "recalculate"
+    );
 
-    console.log(`Tracked ${updates.length} pending recalculation(s)`);
+  const handlePreviewBackward = (target: BackwardScheduleTarget) => {
+    setIsBackwardOpen(false);
+    applyScheduleUpdates(
+      scheduleBackward(target, scheduling.features, scheduling.dependencies, {
+        calendar,
+      }),
+      "backward"
+    );
   };
 
+  const handleLevelResources = () =>
+    applyScheduleUpdates(
+      levelResources(scheduling.features, scheduling.dependencies, {
+        calendar,
+      }),
+      "level"
+    );
+
   // Open verification dialog with all changes selected by default
   const handleOpenVerificationDialog = () => {
     setSelectedChanges(new Set(pendingChanges.keys()));
     setIsVerificationOpen(true);
   };
 
-  // Save selected changes to database
-  const handleSaveSelected = async () => {
-    const changesToSave = Array.from(selectedChanges)
+  // Save the selected changes to the database, sending the version of each
+  // feature last read so edits others saved meanwhile come back as conflicts
+  const saveChanges = async (
+    selected: Set<string>,
+    versions: Map<string, Date> = new Map()
+  ) => {
+    const changesToSave = Array.from(selected)
       .map((featureId) => pendingChanges.get(featureId))
       .filter((change): change is PendingChange => change !== undefined)
       .map((change) => ({
         id: change.featureId,
         startAt: change.newStartAt,
         endAt: change.newEndAt,
+        source: change.source,
       }));
 
+    if (changesToSave.length > 0) {
+      const knownVersions = new Map(features.map((f) => [f.id, f.updatedAt]));
+      const result = await batchUpdateFeatureDates(
+        changesToSave.map((change) => ({
+          ...change,
+          startAt: fromZonedDate(change.startAt, timeZone),
+          endAt: fromZonedDate(change.endAt, timeZone),
+          updatedAt: versions.get(change.id) ?? knownVersions.get(change.id),
+        }))
+      );
+      if (!result.success) {
+        if ("conflicts" in result) {
+          setConflicts(
+            result.conflicts.map((feature) => ({
+              featureId: feature.id,
+              serverStartAt: toZonedDate(feature.startAt, timeZone),
+              serverEndAt: toZonedDate(feature.endAt, timeZone),
+              serverUpdatedAt: feature.updatedAt,
+            }))
+          );
+        } else {
+          setLinkError(result.error);
+        }
+        return;
+      }
+      setFeatures((prev) =>
+        applySavedVersions(prev, [...result.data, ...result.rolledUp])
+      );
+    }
+
     // Revert unselected changes in local state
     const unselectedFeatureIds = Array.from(pendingChanges.keys()).filter(
-      (id) => !selectedChanges.has(id)
+      (id) => !selected.has(id)
     );
 
     setFeatures((prev) =>
@@ -323,10 +1054,24 @@ const GanttView = ({
       })
     );
 
-    // Save selected changes to database
-    if (changesToSave.length > 0) {
-      await batchUpdateFeatureDates(changesToSave);
-    }
+    // Saved moves become one step, undone by saving the old dates again
+    const savedStep = {
+      source: "save" as const,
+      before: changesToSave.map((change) => {
+        const original = originalFeaturesRef.current.get(change.id);
+        return {
+          featureId: change.id,
+          startAt: original?.startAt ?? change.startAt,
+          endAt: original?.endAt ?? change.endAt,
+        };
+      }),
+      after: changesToSave.map((change) => ({
+        featureId: change.id,
+        startAt: change.startAt,
+        endAt: change.endAt,
+      })),
+    };
+    setUndoHistory((prev) => pushUndoStep(dropPendingSteps(prev), savedStep));
 
     // Update original features ref with saved changes
     for (const change of changesToSave) {
@@ -344,6 +1089,45 @@ const GanttView = ({
     console.log(`Saved ${changesToSave.length} change(s)`);
   };
 
+  const handleSaveSelected = () => saveChanges(selectedChanges);
+
+  // Take the server's dates where chosen and save the rest over the versions
+  // now on the server
+  const handleResolveConflicts = async (
+    resolutions: Map<string, ConflictResolution>
+  ) => {
+    const versions = new Map(
+      conflicts.map((conflict) => [
+        conflict.featureId,
+        conflict.serverUpdatedAt,
+      ])
+    );
+    const selected = new Set(selectedChanges);
+    for (const conflict of conflicts) {
+      if (resolutions.get(conflict.featureId) === "theirs") {
+        // Unselected changes revert to these dates when saving
+        selected.delete(conflict.featureId);
+        originalFeaturesRef.current.set(conflict.featureId, {
+          startAt: conflict.serverStartAt,
+          endAt: conflict.serverEndAt,
+        });
+      }
+    }
+    setFeatures((prev) =>
+      prev.map((feature) => ({
+        ...feature,
+        updatedAt: versions.get(feature.id) ?? feature.updatedAt,
+      }))
+    );
+    setConflicts([]);
+    await saveChanges(selected, versions);
+  };
+
+  const handleCancelSave = () => {
+    setConflicts([]);
+    setIsVerificationOpen(false);
+  };
+
   // Discard all pending changes
   const handleDiscardChanges = () => {
     // Revert all features to original values
@@ -363,6 +1147,7 @@ const GanttView = ({
       })
     );
     setPendingChanges(new Map());
+    setUndoHistory(dropPendingSteps);
   };
 
   // Selection handlers for dialog
@@ -385,6 +1170,43 @@ const GanttView = ({
   return (
     <div className="flex h-full flex-col">
       <div className="flex items-center gap-4 border-b p-2">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground text-sm">Organize by:</span>
+          <select
+            className="rounded border px-2 py-1 text-sm"
+            onChange={(e) => setHierarchyMode(e.target.value as HierarchyMode)}
+            value={hierarchyMode}
+          >
+            {HIERARCHY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground text-sm">Calendar:</span>
+          <select
+            className="rounded border px-2 py-1 text-sm"
+            onChange={(e) => handleCalendarChange(e.target.value)}
+            value={calendarId ?? ""}
+          >
+            <option value="">Calendar days</option>
+            {calendars.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <TimeZoneSelect timeZone={timeZone} />
+        <BaselineControls
+          baselines={baselines}
+          onCapture={handleCaptureBaseline}
+          onDelete={handleDeleteBaseline}
+          onSelect={handleBaselineChange}
+          selectedId={baselineId}
+        />
         <div className="flex items-center gap-1">
           <span className="text-muted-foreground text-sm">Zoom:</span>
           <button
@@ -403,6 +1225,28 @@ const GanttView = ({
             <IconPlus size={16} />
           </button>
         </div>
+        <div className="flex items-center gap-1">
+          <button
+            aria-label="Undo"
+            className="rounded border p-1 hover:bg-secondary disabled:opacity-50"
+            disabled={undoHistory.undo.length === 0}
+            onClick={handleUndo}
+            title={getUndoTitle(undoHistory, "undo")}
+            type="button"
+          >
+            <IconArrowBackUp size={16} />
+          </button>
+          <button
+            aria-label="Redo"
+            className="rounded border p-1 hover:bg-secondary disabled:opacity-50"
+            disabled={undoHistory.redo.length === 0}
+            onClick={handleRedo}
+            title={getUndoTitle(undoHistory, "redo")}
+            type="button"
+          >
+            <IconArrowForwardUp size={16} />
+          </button>
+        </div>
         <button
           className="flex items-center gap-1.5 rounded border px-2 py-1 text-sm hover:bg-secondary"
           onClick={handleRecalculateSchedule}
@@ -411,6 +1255,48 @@ const GanttView = ({
           <IconCalendarRepeat size={16} />
           Recalculate
         </button>
+        <button
+          className="flex items-center gap-1.5 rounded border px-2 py-1 text-sm hover:bg-secondary"
+          onClick={handleLevelResources}
+          type="button"
+        >
+          <IconUsers size={16} />
+          Level resources
+        </button>
+        <button
+          className="flex items-center gap-1.5 rounded border px-2 py-1 text-sm hover:bg-secondary"
+          onClick={() => setIsBackwardOpen(true)}
+          type="button"
+        >
+          <IconCalendarDue size={16} />
+          Schedule backwards
+        </button>
+        <button
+          aria-pressed={showCriticalPath}
+          className={cn(
+            "flex items-center gap-1.5 rounded border px-2 py-1 text-sm hover:bg-secondary",
+            showCriticalPath ? "border-red-500 text-red-500" : ""
+          )}
+          onClick={() => setShowCriticalPath((prev) => !prev)}
+          type="button"
+        >
+          <IconRoute size={16} />
+          Critical path
+        </button>
+        <button
+          aria-pressed={simulationSeed !== null}
+          className={cn(
+            "flex items-center gap-1.5 rounded border px-2 py-1 text-sm hover:bg-secondary",
+            simulationSeed === null ? "" : "border-violet-500 text-violet-500"
+          )}
+          onClick={() =>
+            setSimulationSeed((prev) => (prev === null ? 1 : null))
+          }
+          type="button"
+        >
+          <IconChartHistogram size={16} />
+          Simulate risk
+        </button>
         {pendingChanges.size > 0 && (
           <>
             <button
@@ -432,102 +1318,180 @@ const GanttView = ({
           </>
         )}
       </div>
+      <DependencyCycleWarning
+        cycles={dependencyCycles}
+        features={allSortedFeatures}
+      />
+      <ConstraintWarning
+        features={allSortedFeatures}
+        violations={constraintViolations}
+      />
+      <LinkError message={linkError} onDismiss={() => setLinkError(null)} />
       <GanttProvider
+        calendar={calendar}
         className="flex-1 rounded-none"
         onAddItem={handleAddFeature}
         range="monthly"
+        today={today}
         zoom={zoom}
       >
         <GanttSidebar>
-          {Object.entries(sortedGroupedFeatures).map(
-            ([group, groupFeatures]) => (
-              <GanttSidebarGroup key={group} name={group}>
-                {groupFeatures.map((feature) => (
-                  <GanttSidebarItem
-                    allFeatures={allSortedFeatures}
-                    dependencies={dependencies}
-                    feature={feature}
-                    featureIndex={
-                      allSortedFeatures.findIndex((f) => f.id === feature.id) +
-                      1
-                    }
-                    key={feature.id}
-                    onSelectItem={handleViewFeature}
-                  />
-                ))}
-              </GanttSidebarGroup>
-            )
-          )}
+          {sections.map((section) => (
+            <GanttSidebarGroup
+              key={section.name}
+              name={section.name}
+              progress={getRollupProgress(
+                section.allRows
+                  .filter((row) => !row.hasChildren)
+                  .map((row) => row.feature),
+                calendar
+              )}
+            >
+              {section.rows.map(({ feature, depth, hasChildren }) => (
+                <GanttSidebarItem
+                  allFeatures={allSortedFeatures}
+                  baseline={baselineDates.get(feature.id)}
+                  dependencies={dependencies}
+                  depth={depth}
+                  feature={feature}
+                  featureIndex={
+                    allSortedFeatures.findIndex((f) => f.id === feature.id) + 1
+                  }
+                  hasChildren={hasChildren}
+                  key={feature.id}
+                  onSelectItem={handleViewFeature}
+                  totalFloat={criticalPath.features.get(feature.id)?.totalFloat}
+                />
+              ))}
+            </GanttSidebarGroup>
+          ))}
         </GanttSidebar>
         <GanttTimeline>
           <GanttHeader />
           <GanttFeatureList>
-            {Object.entries(sortedGroupedFeatures).map(
-              ([group, groupFeatures]) => (
-                <GanttFeatureListGroup key={group}>
-                  {groupFeatures.map((feature) => (
-                    <div
-                      className="flex"
-                      key={feature.id}
-                      style={{ height: "var(--gantt-row-height)" }}
-                    >
-                      <ContextMenu>
-                        <ContextMenuTrigger
+            {sections.map((section) => (
+              <GanttFeatureListGroup key={section.name}>
+                {section.rows.map(({ feature, hasChildren }) => (
+                  <div
+                    className="flex"
+                    key={feature.id}
+                    style={{ height: "var(--gantt-row-height)" }}
+                  >
+                    <ContextMenu disabled={isPendingFeature(feature.id)}>
+                      <ContextMenuTrigger
+                        onClick={() => handleViewFeature(feature.id)}
+                        render={<button type="button" />}
+                      >
+                        <GanttFeatureItem
+                          baseline={baselineDates.get(feature.id)}
+                          constraintViolated={violatedFeatureIds.has(
+                            feature.id
+                          )}
+                          critical={isCritical(feature.id)}
+                          forecast={simulation?.features.get(feature.id)}
+                          summary={hasChildren}
+                          {...getBarHandlers(feature.id)}
+                          {...feature}
+                        >
+                          <p className="flex-1 truncate text-xs">
+                            {feature.name}
+                          </p>
+                          {feature.owner ? (
+                            <Avatar className="h-4 w-4">
+                              <AvatarImage src={feature.owner.image ?? ""} />
+                              <AvatarFallback>
+                                {feature.owner.name?.slice(0, 2)}
+                              </AvatarFallback>
+                            </Avatar>
+                          ) : null}
+                        </GanttFeatureItem>
+                      </ContextMenuTrigger>
+                      <ContextMenuContent>
+                        <ContextMenuItem
+                          className="flex items-center gap-2"
                           onClick={() => handleViewFeature(feature.id)}
-                          render={<button type="button" />}
                         >
-                          <GanttFeatureItem
-                            onMove={handleMoveFeature}
-                            {...feature}
-                          >
-                            <p className="flex-1 truncate text-xs">
-                              {feature.name}
-                            </p>
-                            {feature.owner ? (
-                              <Avatar className="h-4 w-4">
-                                <AvatarImage src={feature.owner.image ?? ""} />
-                                <AvatarFallback>
-                                  {feature.owner.name?.slice(0, 2)}
-                                </AvatarFallback>
-                              </Avatar>
-                            ) : null}
-                          </GanttFeatureItem>
-                        </ContextMenuTrigger>
-                        <ContextMenuContent>
-                          <ContextMenuItem
-                            className="flex items-center gap-2"
-                            onClick={() => handleViewFeature(feature.id)}
-                          >
-                            <EyeIcon
-                              className="text-muted-foreground"
-                              size={16}
-                            />
-                            View feature
-                          </ContextMenuItem>
-                          <ContextMenuItem
-                            className="flex items-center gap-2"
-                            onClick={() => handleCopyLink(feature.id)}
-                          >
-                            <LinkIcon
-                              className="text-muted-foreground"
-                              size={16}
-                            />
-                            Copy link
-                          </ContextMenuItem>
-                          <ContextMenuItem
-                            className="flex items-center gap-2 text-destructive"
-                            onClick={() => handleRemoveFeature(feature.id)}
-                          >
-                            <TrashIcon size={16} />
-                            Remove from roadmap
-                          </ContextMenuItem>
-                        </ContextMenuContent>
-                      </ContextMenu>
-                    </div>
-                  ))}
-                </GanttFeatureListGroup>
-              )
-            )}
+                          <EyeIcon
+                            className="text-muted-foreground"
+                            size={16}
+                          />
+                          View feature
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          className="flex items-center gap-2"
+                          onClick={() => handleCopyLink(feature.id)}
+                        >
+                          <LinkIcon
+                            className="text-muted-foreground"
+                            size={16}
+                          />
+                          Copy link
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          className="flex items-center gap-2"
+                          onClick={() => setConstraintFeature(feature)}
+                        >
+                          <PinIcon
+                            className="text-muted-foreground"
+                            size={16}
+                          />
+                          Set constraint
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          className="flex items-center gap-2"
+                          onClick={() => setEstimateFeature(feature)}
+                        >
+                          <TimerIcon
+                            className="text-muted-foreground"
+                            size={16}
+                          />
+                          Set estimate
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          className="flex items-center gap-2"
+                          onClick={() => setParentFeature(feature)}
+                        >
+                          <ListTreeIcon
+                            className="text-muted-foreground"
+                            size={16}
+                          />
+                          Set parent
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          className="flex items-center gap-2"
+                          onClick={() => setHistoryFeature(feature)}
+                        >
+                          <HistoryIcon
+                            className="text-muted-foreground"
+                            size={16}
+                          />
+                          History
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          className="flex items-center gap-2"
+                          onClick={() => handleToggleMilestone(feature)}
+                        >
+                          <DiamondIcon
+                            className="text-muted-foreground"
+                            size={16}
+                          />
+                          {feature.kind === "milestone"
+                            ? "Convert to task"
+                            : "Convert to milestone"}
+                        </ContextMenuItem>
+                        <ContextMenuItem
+                          className="flex items-center gap-2 text-destructive"
+                          onClick={() => handleRemoveFeature(feature.id)}
+                        >
+                          <TrashIcon size={16} />
+                          Remove from roadmap
+                        </ContextMenuItem>
+                      </ContextMenuContent>
+                    </ContextMenu>
+                  </div>
+                ))}
+              </GanttFeatureListGroup>
+            ))}
           </GanttFeatureList>
           {markers.map((marker) => (
             <GanttMarker
@@ -536,14 +1500,69 @@ const GanttView = ({
               onRemove={handleRemoveMarker}
             />
           ))}
-          <GanttDependencyLayer dependencies={dependencies} />
-          <GanttToday />
+          <GanttDependencyLayer
+            criticalDependencyIds={criticalDependencyIds}
+            dependencies={dependencies}
+            onDependencyChange={handleDependencyChange}
+            onDependencyDelete={handleDependencyDelete}
+            onDependencyEdit={setEditingDependency}
+          />
+          <GanttToday date={today} />
           <GanttCreateMarkerTrigger onCreateMarker={handleCreateMarker} />
         </GanttTimeline>
       </GanttProvider>
+      {simulation ? (
+        <SimulationPanel
+          onClose={() => setSimulationSeed(null)}
+          onSeedChange={setSimulationSeed}
+          result={simulation}
+        />
+      ) : null}
+      <CreateFeatureDialog
+        draft={featureDraft}
+        features={allSortedFeatures}
+        lookups={lookups}
+        onCancel={() => setFeatureDraft(null)}
+        onCreate={handleCreateFeature}
+      />
+      <ConstraintDialog
+        feature={constraintFeature}
+        onCancel={() => setConstraintFeature(null)}
+        onSave={handleSaveConstraint}
+      />
+      <EstimateDialog
+        feature={estimateFeature}
+        onCancel={() => setEstimateFeature(null)}
+        onSave={handleSaveEstimate}
+      />
+      <HistoryPanel
+        feature={historyFeature}
+        onClose={() => setHistoryFeature(null)}
+        onRevert={handleRevertFeature}
+        timeZone={timeZone}
+      />
+      <LagDialog
+        dependency={editingDependency}
+        onCancel={() => setEditingDependency(null)}
+        onSave={handleDependencyChange}
+      />
+      <ParentDialog
+        feature={parentFeature}
+        features={allSortedFeatures}
+        onCancel={() => setParentFeature(null)}
+        onSave={handleSaveParent}
+      />
+      <BackwardScheduleDialog
+        features={allSortedFeatures.filter((f) => schedulableIds.has(f.id))}
+        onCancel={() => setIsBackwardOpen(false)}
+        onPreview={handlePreviewBackward}
+        open={isBackwardOpen}
+      />
       <SaveChangesDialog
-        onCancel={() => setIsVerificationOpen(false)}
+        conflicts={conflicts}
+        onCancel={handleCancelSave}
         onDeselectAll={handleDeselectAll}
+        onResolveConflicts={handleResolveConflicts}
         onSave={handleSaveSelected}
         onSelectAll={handleSelectAll}
         onSelectionChange={handleSelectionChange}
@@ -786,7 +1805,15 @@ const TableView = ({ features }: { features: FeatureWithRelations[] }) => {
             />
           </div>
           <div>
-            <span className="font-medium">{row.original.name}</span>
+            <span className="flex items-center gap-1.5 font-medium">
+              {row.original.name}
+              {row.original.kind === "milestone" ? (
+                <span className="flex items-center gap-1 rounded border px-1 font-normal text-muted-foreground text-xs">
+                  <DiamondIcon size={10} />
+                  Milestone
+                </span>
+              ) : null}
+            </span>
             <div className="flex items-center gap-1 text-muted-foreground text-xs">
               <span>{row.original.product.name}</span>
               <ChevronRightIcon size={12} />
@@ -853,10 +1880,22 @@ export function RoadmapView({
   statuses,
   dependencies,
   markers: serializedMarkers,
+  calendars,
+  calendarId,
+  baselines: serializedBaselines,
+  timeZone,
+  lookups,
 }: RoadmapViewProps) {
-  // Deserialize dates from server component
-  const features = serializedFeatures.map(deserializeFeature);
-  const markers = serializedMarkers.map(deserializeMarker);
+  // Deserialize dates from server component, in the workspace time zone
+  const features = serializedFeatures.map((feature) =>
+    deserializeFeature(feature, timeZone)
+  );
+  const markers = serializedMarkers.map((marker) =>
+    deserializeMarker(marker, timeZone)
+  );
+  const baselines = serializedBaselines.map((baseline) =>
+    deserializeBaseline(baseline, timeZone)
+  );
 
   // Convert dependencies to Gantt format
   const ganttDependencies = dependencies.map(toGanttDependency);
@@ -868,9 +1907,16 @@ export function RoadmapView({
       icon: GanttChartSquareIcon,
       component: () => (
         <GanttView
+          baselines={baselines}
+          calendarId={calendarId}
+          calendars={calendars}
           dependencies={ganttDependencies}
           features={features}
+          // Remount on a time zone change so dates are shifted afresh
+          key={timeZone}
+          lookups={lookups}
           markers={markers}
+          timeZone={timeZone}
         />
       ),
     },
@@ -907,14 +1953,30 @@ export function RoadmapView({
     >
       <div className="flex items-center justify-between gap-4 p-4">
         <p className="font-medium">Roadmap</p>
-        <TabsList>
-          {views.map((view) => (
-            <TabsTrigger key={view.id} value={view.id}>
-              <view.icon size={16} />
-              <span className="sr-only">{view.label}</span>
-            </TabsTrigger>
-          ))}
-        </TabsList>
+        <div className="flex items-center gap-2">
+          <Link
+            className="flex items-center gap-1.5 rounded px-2 py-1 text-muted-foreground text-sm hover:text-foreground"
+            href="/trash"
+          >
+            <TrashIcon size={16} />
+            Trash
+          </Link>
+          <Link
+            className="flex items-center gap-1.5 rounded px-2 py-1 text-muted-foreground text-sm hover:text-foreground"
+            href="/settings"
+          >
+            <SettingsIcon size={16} />
+            Settings
+          </Link>
+          <TabsList>
+            {views.map((view) => (
+              <TabsTrigger key={view.id} value={view.id}>
+                <view.icon size={16} />
+                <span className="sr-only">{view.label}</span>
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </div>
       </div>
       {views.map((view) => (
         <TabsContent
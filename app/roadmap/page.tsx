@@ -4,15 +4,29 @@ import { RoadmapView } from "./components/roadmap-view";
 export const dynamic = "force-dynamic";
 
 export default async function RoadmapPage() {
-  const { features, statuses, dependencies, markers } =
-    await getSerializedRoadmapData();
+  const {
+    features,
+    statuses,
+    dependencies,
+    markers,
+    calendars,
+    calendarId,
+    baselines,
+    timeZone,
+    lookups,
+  } = await getSerializedRoadmapData();
 
   return (
     <RoadmapView
+      baselines={baselines}
+      calendarId={calendarId}
+      calendars={calendars}
       dependencies={dependencies}
       initialFeatures={features}
+      lookups={lookups}
       markers={markers}
       statuses={statuses}
+      timeZone={timeZone}
     />
   );
 }
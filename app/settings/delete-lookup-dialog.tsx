@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import type { LookupItem, LookupKind } from "@/lib/db/types";
+
+// Select value for leaving a deleted user's features without an owner
+const UNASSIGNED = "";
+
+type DeleteLookupDialogProps = {
+  kind: LookupKind;
+  // Singular name of the kind, e.g. "status"
+  label: string;
+  // Row being deleted, or null when the dialog is closed
+  item: LookupItem | null;
+  // Rows its features can move to
+  others: LookupItem[];
+  error: string | null;
+  onDelete: (reassignToId: string | null) => void;
+  onCancel: () => void;
+};
+
+function describeUsage(featureCount: number, label: string): string {
+  if (featureCount === 0) {
+    return `No features use this ${label}.`;
+  }
+  const uses =
+    featureCount === 1 ? "1 feature uses" : `${featureCount} features use`;
+  return `${uses} this ${label}, including any in the trash. Choose where they go.`;
+}
+
+// Confirm deleting a lookup row, choosing where the features that use it go
+export function DeleteLookupDialog({
+  kind,
+  label,
+  item,
+  others,
+  error,
+  onDelete,
+  onCancel,
+}: DeleteLookupDialogProps) {
+  const [reassignToId, setReassignToId] = useState(UNASSIGNED);
+
+  useEffect(() => {
+    setReassignToId(kind === "user" ? UNASSIGNED : (others[0]?.id ?? ""));
+  }, [kind, others]);
+
+  const inUse = (item?.featureCount ?? 0) > 0;
+  // Features need a value for every lookup except their owner
+  const needsTarget = inUse && kind !== "user";
+  const hasNowhereToGo = needsTarget && others.length === 0;
+  // Unused rows have no features to move
+  const target = inUse && reassignToId !== UNASSIGNED ? reassignToId : null;
+  const canDelete = !needsTarget || target !== null;
+
+  return (
+    <Dialog open={item !== null}>
+      <DialogContent
+        className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-md"
+        showCloseButton={false}
+      >
+        <DialogHeader>
+          <DialogTitle>Delete {item?.name}?</DialogTitle>
+          <DialogDescription>
+            {describeUsage(item?.featureCount ?? 0, label)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {inUse ? (
+          <div className="grid gap-1.5 py-2">
+            <Label htmlFor="lookup-reassign">
+              {kind === "user" ? "New owner" : "Move features to"}
+            </Label>
+            <select
+              className="rounded border px-2 py-1 text-sm"
+              id="lookup-reassign"
+              onChange={(e) => setReassignToId(e.target.value)}
+              value={reassignToId}
+            >
+              {kind === "user" ? (
+                <option value={UNASSIGNED}>Nobody (unassigned)</option>
+              ) : null}
+              {others.map((other) => (
+                <option key={other.id} value={other.id}>
+                  {other.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+        {hasNowhereToGo ? (
+          <p className="text-muted-foreground text-sm">
+            Add another {label} first, so its features have somewhere to go.
+          </p>
+        ) : null}
+        {error ? <p className="text-destructive text-sm">{error}</p> : null}
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button
+            disabled={!canDelete}
+            onClick={() => onDelete(target)}
+            variant="destructive"
+          >
+            Delete
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { LookupItem, LookupKind } from "@/lib/db/types";
+import {
+  type ActionResult,
+  type FieldErrors,
+  hasFieldErrors,
+  type LookupInput,
+  validateLookup,
+} from "@/lib/validation";
+
+const DEFAULT_COLOR = "#6B7280";
+
+type LookupDialogProps = {
+  kind: LookupKind;
+  // Singular name of the kind, e.g. "status"
+  label: string;
+  // Row being edited, "new" to add one, or null when the dialog is closed
+  item: LookupItem | "new" | null;
+  onSave: (data: LookupInput) => Promise<ActionResult<LookupItem>>;
+  onCancel: () => void;
+};
+
+// Add or rename a status, group, product, initiative, release or user
+export function LookupDialog({
+  kind,
+  label,
+  item,
+  onSave,
+  onCancel,
+}: LookupDialogProps) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [image, setImage] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const current = item === "new" ? null : item;
+    setName(current?.name ?? "");
+    setColor(current?.color ?? DEFAULT_COLOR);
+    setImage(current?.image ?? "");
+    setErrors({});
+    setFormError(null);
+  }, [item]);
+
+  const handleSave = async () => {
+    const data: LookupInput = { name, color, image: image || null };
+    const fieldErrors = validateLookup(kind, data);
+    setErrors(fieldErrors);
+    if (hasFieldErrors(fieldErrors)) {
+      return;
+    }
+    setIsSaving(true);
+    const result = await onSave(data);
+    setIsSaving(false);
+    if (!result.success) {
+      setErrors(result.fieldErrors ?? {});
+      setFormError(result.fieldErrors ? null : result.error);
+    }
+  };
+
+  const isNew = item === "new";
+
+  return (
+    <Dialog open={item !== null}>
+      <DialogContent
+        className="rounded-lg! border border-border shadow-xl ring-0 sm:max-w-md"
+        showCloseButton={false}
+      >
+        <DialogHeader>
+          <DialogTitle className="capitalize">
+            {isNew ? `New ${label}` : `Edit ${label}`}
+          </DialogTitle>
+          <DialogDescription>
+            {isNew
+              ? `The ${label} is added at the end of the list.`
+              : `Changes show on every feature that uses this ${label}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 py-2">
+          <div className="grid gap-1.5">
+            <Label htmlFor="lookup-name">Name</Label>
+            <Input
+              aria-invalid={Boolean(errors.name)}
+              id="lookup-name"
+              onChange={(e) => setName(e.target.value)}
+              value={name}
+            />
+            {errors.name ? (
+              <p className="text-destructive text-xs">{errors.name}</p>
+            ) : null}
+          </div>
+          {kind === "status" ? (
+            <div className="grid gap-1.5">
+              <Label htmlFor="lookup-color">Color</Label>
+              <Input
+                aria-invalid={Boolean(errors.color)}
+                className="h-8 w-16 p-1"
+                id="lookup-color"
+                onChange={(e) => setColor(e.target.value)}
+                type="color"
+                value={color}
+              />
+              {errors.color ? (
+                <p className="text-destructive text-xs">{errors.color}</p>
+              ) : null}
+            </div>
+          ) : null}
+          {kind === "user" ? (
+            <div className="grid gap-1.5">
+              <Label htmlFor="lookup-image">Avatar URL (optional)</Label>
+              <Input
+                aria-invalid={Boolean(errors.image)}
+                id="lookup-image"
+                onChange={(e) => setImage(e.target.value)}
+                placeholder="https://"
+                value={image}
+              />
+              {errors.image ? (
+                <p className="text-destructive text-xs">{errors.image}</p>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+        {formError ? (
+          <p className="text-destructive text-sm">{formError}</p>
+        ) : null}
+
+        <DialogFooter>
+          <Button onClick={onCancel} variant="outline">
+            Cancel
+          </Button>
+          <Button disabled={isSaving} onClick={handleSave}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import {
+  IconArrowDown,
+  IconArrowUp,
+  IconPencil,
+  IconPlus,
+  IconTrash,
+} from "@tabler/icons-react";
+import { useMemo, useState } from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { LookupItem, LookupKind } from "@/lib/db/types";
+import type { LookupInput } from "@/lib/validation";
+import {
+  createLookup,
+  deleteLookup,
+  reorderLookups,
+  updateLookup,
+} from "../roadmap/actions";
+import { DeleteLookupDialog } from "./delete-lookup-dialog";
+import { LookupDialog } from "./lookup-dialog";
+
+type LookupListProps = {
+  kind: LookupKind;
+  // Singular name of the kind, e.g. "status"
+  label: string;
+  items: LookupItem[];
+  onChange: (items: LookupItem[]) => void;
+};
+
+// Move the row at index by offset (-1 up, 1 down), or null at either end
+function moveItem(
+  items: LookupItem[],
+  index: number,
+  offset: number
+): LookupItem[] | null {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) {
+    return null;
+  }
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved.map((item, position) => ({ ...item, position }));
+}
+
+// One lookup table in display order, with add, edit, delete and reorder
+export function LookupList({ kind, label, items, onChange }: LookupListProps) {
+  const [editing, setEditing] = useState<LookupItem | "new" | null>(null);
+  const [deleting, setDeleting] = useState<LookupItem | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const others = useMemo(
+    () => items.filter((item) => item.id !== deleting?.id),
+    [items, deleting]
+  );
+
+  const handleSave = async (data: LookupInput) => {
+    const result =
+      editing === "new" || editing === null
+        ? await createLookup(kind, data)
+        : await updateLookup(kind, editing.id, data);
+    if (result.success) {
+      const exists = items.some((item) => item.id === result.data.id);
+      onChange(
+        exists
+          ? items.map((item) =>
+              item.id === result.data.id ? result.data : item
+            )
+          : [...items, result.data]
+      );
+      setEditing(null);
+    }
+    return result;
+  };
+
+  const handleDelete = async (reassignToId: string | null) => {
+    if (!deleting) {
+      return;
+    }
+    const result = await deleteLookup(kind, deleting.id, reassignToId);
+    if (!result.success) {
+      setDeleteError(result.error);
+      return;
+    }
+    onChange(
+      items
+        .filter((item) => item.id !== deleting.id)
+        .map((item) =>
+          item.id === reassignToId
+            ? {
+                ...item,
+                featureCount: item.featureCount + deleting.featureCount,
+              }
+            : item
+        )
+    );
+    setDeleting(null);
+    setDeleteError(null);
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const moved = moveItem(items, index, offset);
+    if (!moved) {
+      return;
+    }
+    onChange(moved);
+    const result = await reorderLookups(
+      kind,
+      moved.map((item) => item.id)
+    );
+    if (result.success) {
+      setError(null);
+    } else {
+      onChange(items);
+      setError(result.error);
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-muted-foreground text-sm">
+          Listed in the order they appear in columns, sections and pickers.
+        </p>
+        <Button onClick={() => setEditing("new")} size="sm" variant="outline">
+          <IconPlus size={16} />
+          <span className="capitalize">New {label}</span>
+        </Button>
+      </div>
+      {error ? <p className="text-destructive text-sm">{error}</p> : null}
+
+      {items.length === 0 ? (
+        <p className="p-8 text-center text-muted-foreground text-sm">
+          Nothing here yet.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Features</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => (
+              <TableRow key={item.id}>
+                <TableCell className="font-medium">
+                  <div className="flex items-center gap-2">
+                    {kind === "status" ? (
+                      <span
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: item.color }}
+                      />
+                    ) : null}
+                    {kind === "user" ? (
+                      <Avatar className="h-5 w-5">
+                        <AvatarImage src={item.image ?? undefined} />
+                        <AvatarFallback>{item.name.slice(0, 2)}</AvatarFallback>
+                      </Avatar>
+                    ) : null}
+                    {item.name}
+                  </div>
+                </TableCell>
+                <TableCell>{item.featureCount}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    aria-label="Move up"
+                    disabled={index === 0}
+                    onClick={() => handleMove(index, -1)}
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <IconArrowUp size={16} />
+                  </Button>
+                  <Button
+                    aria-label="Move down"
+                    disabled={index === items.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <IconArrowDown size={16} />
+                  </Button>
+                  <Button
+                    aria-label="Edit"
+                    onClick={() => setEditing(item)}
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <IconPencil size={16} />
+                  </Button>
+                  <Button
+                    aria-label="Delete"
+                    onClick={() => setDeleting(item)}
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <IconTrash size={16} />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <LookupDialog
+        item={editing}
+        kind={kind}
+        label={label}
+        onCancel={() => setEditing(null)}
+        onSave={handleSave}
+      />
+      <DeleteLookupDialog
+        error={deleteError}
+        item={deleting}
+        kind={kind}
+        label={label}
+        onCancel={() => {
+          setDeleting(null);
+          setDeleteError(null);
+        }}
+        onDelete={handleDelete}
+        others={others}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { getAllLookupItems } from "@/lib/db/queries/lookups";
+import { SettingsView } from "./settings-view";
+
+export const dynamic = "force-dynamic";
+
+export default async function SettingsPage() {
+  const lookups = await getAllLookupItems();
+
+  return <SettingsView initialLookups={lookups} />;
+}
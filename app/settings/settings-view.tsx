@@ -0,0 +1,71 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { LookupItem, LookupKind } from "@/lib/db/types";
+import { LookupList } from "./lookup-list";
+
+const SECTIONS: { kind: LookupKind; title: string; label: string }[] = [
+  { kind: "status", title: "Statuses", label: "status" },
+  { kind: "group", title: "Groups", label: "group" },
+  { kind: "product", title: "Products", label: "product" },
+  { kind: "initiative", title: "Initiatives", label: "initiative" },
+  { kind: "release", title: "Releases", label: "release" },
+  { kind: "user", title: "Users", label: "user" },
+];
+
+type SettingsViewProps = {
+  initialLookups: Record<LookupKind, LookupItem[]>;
+};
+
+// The statuses, groups, products, initiatives, releases and users features
+// are sorted into, one tab each
+export function SettingsView({ initialLookups }: SettingsViewProps) {
+  const [lookups, setLookups] = useState(initialLookups);
+
+  const handleChange = (kind: LookupKind, items: LookupItem[]) => {
+    setLookups((prev) => ({ ...prev, [kind]: items }));
+  };
+
+  return (
+    <div className="flex h-screen flex-col">
+      <div className="flex items-center gap-4 border-b p-4">
+        <p className="font-medium">Settings</p>
+        <p className="text-muted-foreground text-sm">
+          Manage the values features are organized by.
+        </p>
+        <Link
+          className="ml-auto text-muted-foreground text-sm hover:text-foreground"
+          href="/roadmap"
+        >
+          Back to roadmap
+        </Link>
+      </div>
+
+      <Tabs className="min-h-0 flex-1 gap-4 p-4" defaultValue="status">
+        <TabsList>
+          {SECTIONS.map((section) => (
+            <TabsTrigger key={section.kind} value={section.kind}>
+              {section.title}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {SECTIONS.map((section) => (
+          <TabsContent
+            className="overflow-auto"
+            key={section.kind}
+            value={section.kind}
+          >
+            <LookupList
+              items={lookups[section.kind]}
+              kind={section.kind}
+              label={section.label}
+              onChange={(items) => handleChange(section.kind, items)}
+            />
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+}
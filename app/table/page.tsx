@@ -4,7 +4,7 @@ import { TableView } from "./table-view";
 export const dynamic = "force-dynamic";
 
 export default async function TablePage() {
-  const { features } = await getSerializedRoadmapData();
+  const { features, timeZone } = await getSerializedRoadmapData();
 
-  return <TableView features={features} />;
+  return <TableView features={features} timeZone={timeZone} />;
 }
@@ -22,12 +22,19 @@ import {
 
 type TableViewProps = {
   features: SerializedFeatureWithRelations[];
+  timeZone: string;
 };
 
-export function TableView({ features: serializedFeatures }: TableViewProps) {
+export function TableView({
+  features: serializedFeatures,
+  timeZone,
+}: TableViewProps) {
   const features = useMemo(
-    () => serializedFeatures.map(deserializeFeature),
-    [serializedFeatures]
+    () =>
+      serializedFeatures.map((feature) =>
+        deserializeFeature(feature, timeZone)
+      ),
+    [serializedFeatures, timeZone]
   );
 
   const columns: ColumnDef<FeatureWithRelations>[] = [
@@ -0,0 +1,25 @@
+import {
+  getRoadmapTimeZone,
+  getTrashedFeatures,
+} from "@/lib/db/queries/features";
+import { serializeFeature } from "@/lib/db/types";
+import { TrashView } from "./trash-view";
+
+export const dynamic = "force-dynamic";
+
+export default async function TrashPage() {
+  const [features, timeZone] = await Promise.all([
+    getTrashedFeatures(),
+    getRoadmapTimeZone(),
+  ]);
+
+  return (
+    <TrashView
+      initialFeatures={features.map((feature) => ({
+        ...serializeFeature(feature),
+        dependencyCount: feature.dependencyCount,
+      }))}
+      timeZone={timeZone}
+    />
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { IconArrowBackUp, IconTrashX } from "@tabler/icons-react";
+import { format } from "date-fns";
+import Link from "next/link";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { SerializedTrashedFeature } from "@/lib/db/types";
+import { toZonedDate } from "@/lib/time-zone";
+import { getPurgeDate, TRASH_RETENTION_DAYS } from "@/lib/trash";
+import { purgeTrash, restoreFeature } from "../roadmap/actions";
+
+type TrashViewProps = {
+  initialFeatures: SerializedTrashedFeature[];
+  timeZone: string;
+};
+
+// Trashed rows always have deletedAt; updatedAt is set at the same time
+function getDeletedAt(feature: SerializedTrashedFeature): Date {
+  return new Date(feature.deletedAt ?? feature.updatedAt);
+}
+
+function isExpired(feature: SerializedTrashedFeature, now: Date): boolean {
+  return getPurgeDate(getDeletedAt(feature)) < now;
+}
+
+// Deleted features, restorable until they are purged after the retention
+// period
+export function TrashView({ initialFeatures, timeZone }: TrashViewProps) {
+  const [features, setFeatures] = useState(initialFeatures);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const expiredCount = features.filter((feature) =>
+    isExpired(feature, new Date())
+  ).length;
+
+  const formatDate = (value: Date) =>
+    format(toZonedDate(value, timeZone), "MMM d, yyyy");
+
+  const handleRestore = async (id: string) => {
+    const result = await restoreFeature(id);
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setFeatures((prev) => prev.filter((feature) => feature.id !== id));
+  };
+
+  const handlePurge = async () => {
+    const result = await purgeTrash();
+    if (!result.success) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setNotice(
+      `Permanently deleted ${result.data} feature${result.data === 1 ? "" : "s"}.`
+    );
+    const now = new Date();
+    setFeatures((prev) => prev.filter((feature) => !isExpired(feature, now)));
+  };
+
+  return (
+    <div className="flex h-screen flex-col">
+      <div className="flex items-center gap-4 border-b p-4">
+        <p className="font-medium">Trash</p>
+        <p className="text-muted-foreground text-sm">
+          Deleted features can be restored, with their dependencies, for{" "}
+          {TRASH_RETENTION_DAYS} days.
+        </p>
+        <Link
+          className="ml-auto text-muted-foreground text-sm hover:text-foreground"
+          href="/roadmap"
+        >
+          Back to roadmap
+        </Link>
+        <Button
+          disabled={expiredCount === 0}
+          onClick={handlePurge}
+          size="sm"
+          variant="destructive"
+        >
+          <IconTrashX size={16} />
+          Purge expired ({expiredCount})
+        </Button>
+      </div>
+      {error ? (
+        <p className="border-b bg-destructive/10 px-4 py-2 text-destructive text-sm">
+          {error}
+        </p>
+      ) : null}
+      {notice ? (
+        <p className="border-b px-4 py-2 text-muted-foreground text-sm">
+          {notice}
+        </p>
+      ) : null}
+
+      {features.length === 0 ? (
+        <p className="p-8 text-center text-muted-foreground text-sm">
+          The trash is empty.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Feature</TableHead>
+              <TableHead>Group</TableHead>
+              <TableHead>Dependencies</TableHead>
+              <TableHead>Deleted</TableHead>
+              <TableHead>Purged after</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {features.map((feature) => {
+              const deletedAt = getDeletedAt(feature);
+              return (
+                <TableRow key={feature.id}>
+                  <TableCell className="font-medium">{feature.name}</TableCell>
+                  <TableCell>{feature.group.name}</TableCell>
+                  <TableCell>{feature.dependencyCount}</TableCell>
+                  <TableCell>{formatDate(deletedAt)}</TableCell>
+                  <TableCell>{formatDate(getPurgeDate(deletedAt))}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      onClick={() => handleRestore(feature.id)}
+                      size="sm"
+                      variant="outline"
+                    >
+                      <IconArrowBackUp size={16} />
+                      Restore
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -68,6 +68,8 @@ export type Feature = {
   startAt: Date;
   endAt: Date;
   status: Status;
+  // Milestones are shown with a diamond and listed first on their day
+  kind?: "task" | "milestone";
 };
 
 type ComboboxProps = {
@@ -244,9 +246,14 @@ export const CalendarBody = ({ features, children }: CalendarBodyProps) => {
   const featuresByDay = useMemo(() => {
     const result: { [day: number]: Feature[] } = {};
     for (let day = 1; day <= daysInMonth; day++) {
-      result[day] = features.filter((feature) =>
-        isSameDay(new Date(feature.endAt), new Date(year, month, day))
-      );
+      result[day] = features
+        .filter((feature) =>
+          isSameDay(new Date(feature.endAt), new Date(year, month, day))
+        )
+        .sort(
+          (a, b) =>
+            Number(b.kind === "milestone") - Number(a.kind === "milestone")
+        );
     }
     return result;
   }, [features, daysInMonth, year, month]);
@@ -480,7 +487,12 @@ export const CalendarItem = memo(
   ({ feature, className }: CalendarItemProps) => (
     <div className={cn("flex items-center gap-2", className)}>
       <div
-        className="h-2 w-2 shrink-0 rounded-full"
+        className={cn(
+          "h-2 w-2 shrink-0",
+          feature.kind === "milestone"
+            ? "rotate-45 rounded-[1px]"
+            : "rounded-full"
+        )}
         style={{
           backgroundColor: feature.status.color,
         }}
@@ -2,11 +2,13 @@
 
 import { IconPlus } from "@tabler/icons-react";
 import { useMouse, useThrottle, useWindowScroll } from "@uidotdev/usehooks";
+import { addDays } from "date-fns";
 import type { FC } from "react";
 import { useId, useState } from "react";
 import { cn } from "@/lib/utils";
 import { useGantt } from "../context";
 import { useGanttDragging, useGanttScrollX } from "../store";
+import { isWorkingDay } from "../utils/calendar";
 import { getDateByMousePosition } from "../utils/timeline";
 
 export type GanttAddFeatureHelperProps = {
@@ -27,8 +29,10 @@ export const GanttAddFeatureHelper: FC<GanttAddFeatureHelperProps> = ({
     const x =
       mousePosition.x - (ganttRect?.left ?? 0) + scrollX - gantt.sidebarWidth;
     const currentDate = getDateByMousePosition(gantt, x);
+    // Columns start below the header, level with the first feature row
+    const row = Math.max(0, Math.floor(top / gantt.rowHeight));
 
-    gantt.onAddItem?.(currentDate);
+    gantt.onAddItem?.(currentDate, row);
   };
 
   return (
@@ -54,14 +58,50 @@ export const GanttAddFeatureHelper: FC<GanttAddFeatureHelperProps> = ({
   );
 };
 
+type GanttNonWorkingShadingProps = {
+  date: Date;
+};
+
+// Shades non-working days of a column: the whole column in the hourly and
+// daily ranges, or the matching day slices of a week column in the weekly range
+const GanttNonWorkingShading: FC<GanttNonWorkingShadingProps> = ({ date }) => {
+  const gantt = useGantt();
+
+  if (gantt.range === "hourly" || gantt.range === "daily") {
+    return isWorkingDay(date, gantt.calendar) ? null : (
+      <div className="pointer-events-none absolute inset-0 bg-foreground/5" />
+    );
+  }
+
+  if (gantt.range !== "weekly") {
+    return null;
+  }
+
+  return Array.from({ length: 7 }).map((_, dayIndex) => {
+    const day = addDays(date, dayIndex);
+    return isWorkingDay(day, gantt.calendar) ? null : (
+      <div
+        className="pointer-events-none absolute inset-y-0 bg-foreground/5"
+        key={day.toISOString()}
+        style={{
+          left: `${(dayIndex / 7) * 100}%`,
+          width: `${100 / 7}%`,
+        }}
+      />
+    );
+  });
+};
+
 export type GanttColumnProps = {
   index: number;
   isColumnSecondary?: (item: number) => boolean;
+  date?: Date;
 };
 
 export const GanttColumn: FC<GanttColumnProps> = ({
   index,
   isColumnSecondary,
+  date,
 }) => {
   const gantt = useGantt();
   const [dragging] = useGanttDragging();
@@ -90,6 +130,7 @@ export const GanttColumn: FC<GanttColumnProps> = ({
       onMouseLeave={handleMouseLeave}
       ref={mouseRef}
     >
+      {date ? <GanttNonWorkingShading date={date} /> : null}
       {!dragging && hovering && gantt.onAddItem ? (
         <GanttAddFeatureHelper top={top} />
       ) : null}
@@ -100,11 +141,14 @@ export const GanttColumn: FC<GanttColumnProps> = ({
 export type GanttColumnsProps = {
   columns: number;
   isColumnSecondary?: (item: number) => boolean;
+  // Start date of each column, used to shade non-working days
+  getColumnDate?: (item: number) => Date;
 };
 
 export const GanttColumns: FC<GanttColumnsProps> = ({
   columns,
   isColumnSecondary,
+  getColumnDate,
 }) => {
   const id = useId();
 
@@ -119,6 +163,7 @@ export const GanttColumns: FC<GanttColumnsProps> = ({
         const uniqueKey = `${id}-column-${index}`;
         return (
           <GanttColumn
+            date={getColumnDate?.(index)}
             index={index}
             isColumnSecondary={isColumnSecondary}
             key={uniqueKey}
@@ -1,14 +1,36 @@
 "use client";
 
-import type { FC } from "react";
+import { ClockIcon, PaletteIcon, SplineIcon, TrashIcon } from "lucide-react";
+import type { FC, KeyboardEvent } from "react";
 import { memo, useEffect, useId, useMemo, useState } from "react";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
 import { cn } from "@/lib/utils";
-import { useFeaturePositions } from "../store";
-import type { FeaturePosition, GanttDependency } from "../types";
+import { useFeaturePositions, useLinkDraft } from "../store";
+import type {
+  ArrowEndpoint,
+  FeaturePosition,
+  GanttDependency,
+  GanttDependencyChanges,
+  GanttDependencyType,
+  GanttLinkDraft,
+} from "../types";
 import {
   calculateDependencyEndpoints,
   calculateDependencyPath,
+  formatLag,
 } from "../utils/dependencies";
+import { getSourceDependencyId } from "../utils/hierarchy";
 
 type GanttDependencyArrowProps = {
   path: string;
@@ -32,12 +54,244 @@ const GanttDependencyArrow: FC<GanttDependencyArrowProps> = memo(
 
 GanttDependencyArrow.displayName = "GanttDependencyArrow";
 
+type GanttDependencyLagLabelProps = {
+  label: string;
+  target: ArrowEndpoint;
+  targetFromRight: boolean;
+  color: string;
+};
+
+// Small lag badge drawn just above the point where the arrow enters the target
+const GanttDependencyLagLabel: FC<GanttDependencyLagLabelProps> = memo(
+  ({ label, target, targetFromRight, color }) => (
+    <text
+      className="font-mono text-[10px]"
+      dominantBaseline="auto"
+      fill={color}
+      textAnchor={targetFromRight ? "start" : "end"}
+      x={targetFromRight ? target.x + 4 : target.x - 4}
+      y={target.y - 5}
+    >
+      {label}
+    </text>
+  )
+);
+
+GanttDependencyLagLabel.displayName = "GanttDependencyLagLabel";
+
+type GanttLinkRubberBandProps = {
+  draft: GanttLinkDraft;
+  featurePositions: Map<string, FeaturePosition>;
+  color: string;
+  markerId: string;
+};
+
+// Dashed arrow from the bar end being linked to the pointer
+const GanttLinkRubberBand: FC<GanttLinkRubberBandProps> = ({
+  draft,
+  featurePositions,
+  color,
+  markerId,
+}) => {
+  const source = featurePositions.get(draft.sourceId);
+  if (!source) {
+    return null;
+  }
+
+  const x =
+    draft.sourceEnd === "start" ? source.left : source.left + source.width;
+  const y = source.top + source.height / 2;
+  // Leave the bar outwards from the end the link starts at
+  const bend = draft.sourceEnd === "start" ? -40 : 40;
+
+  return (
+    <path
+      d={`M ${x} ${y} C ${x + bend} ${y}, ${draft.x - bend} ${draft.y}, ${draft.x} ${draft.y}`}
+      fill="none"
+      markerEnd={`url(#${markerId})`}
+      stroke={color}
+      strokeDasharray="4 3"
+      strokeWidth={2}
+    />
+  );
+};
+
+export const DEPENDENCY_TYPE_LABELS: Record<GanttDependencyType, string> = {
+  FS: "Finish to start",
+  SS: "Start to start",
+  FF: "Finish to finish",
+  SF: "Start to finish",
+};
+
+// Colors offered in the arrow menu; "Default" clears the color
+export const DEPENDENCY_COLORS: { label: string; value: string | null }[] = [
+  { label: "Default", value: null },
+  { label: "Blue", value: "#3b82f6" },
+  { label: "Green", value: "#22c55e" },
+  { label: "Purple", value: "#a855f7" },
+  { label: "Orange", value: "#f97316" },
+  { label: "Pink", value: "#ec4899" },
+  { label: "Teal", value: "#14b8a6" },
+];
+
+type CalculatedDependency = {
+  dependency: GanttDependency;
+  id: string;
+  path: string;
+  color: string;
+  markerId: string;
+  strokeWidth: number;
+  lagLabel: string | null;
+  target: ArrowEndpoint;
+  targetFromRight: boolean;
+};
+
+type GanttInteractiveDependencyProps = {
+  calculated: CalculatedDependency;
+  onChange: (id: string, changes: GanttDependencyChanges) => void;
+  onDelete: (id: string) => void;
+  onEdit?: (dependency: GanttDependency) => void;
+};
+
+// Arrow with a wide invisible hit area that highlights on hover and focus.
+// Right-click (or the context menu key) opens its menu; Enter edits the lag
+// and Delete removes it.
+const GanttInteractiveDependency: FC<GanttInteractiveDependencyProps> = ({
+  calculated,
+  onChange,
+  onDelete,
+  onEdit,
+}) => {
+  const { dependency } = calculated;
+
+  const handleKeyDown = (event: KeyboardEvent<SVGGElement>) => {
+    if (event.key === "Delete" || event.key === "Backspace") {
+      event.preventDefault();
+      onDelete(dependency.id);
+    } else if (event.key === "Enter" && onEdit) {
+      event.preventDefault();
+      onEdit(dependency);
+    }
+  };
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger
+        render={
+          // biome-ignore lint/a11y/useSemanticElements: SVG content cannot contain a <button>
+          <g
+            aria-label={`${DEPENDENCY_TYPE_LABELS[dependency.type]} dependency`}
+            className="group/arrow pointer-events-auto cursor-pointer outline-none"
+            onKeyDown={handleKeyDown}
+            role="button"
+            tabIndex={0}
+          />
+        }
+      >
+        <path
+          className="opacity-0 transition-opacity group-hover/arrow:opacity-25 group-focus/arrow:opacity-40"
+          d={calculated.path}
+          fill="none"
+          stroke={calculated.color}
+          strokeLinecap="round"
+          strokeWidth={12}
+        />
+        <GanttDependencyArrow
+          color={calculated.color}
+          markerId={calculated.markerId}
+          path={calculated.path}
+          strokeWidth={calculated.strokeWidth}
+        />
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger className="flex items-center gap-2">
+            <SplineIcon className="text-muted-foreground" size={16} />
+            Type
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            <ContextMenuRadioGroup
+              onValueChange={(value) =>
+                onChange(dependency.id, { type: value as GanttDependencyType })
+              }
+              value={dependency.type}
+            >
+              {Object.entries(DEPENDENCY_TYPE_LABELS).map(([type, label]) => (
+                <ContextMenuRadioItem key={type} value={type}>
+                  {label} ({type})
+                </ContextMenuRadioItem>
+              ))}
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger className="flex items-center gap-2">
+            <PaletteIcon className="text-muted-foreground" size={16} />
+            Color
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            <ContextMenuRadioGroup
+              onValueChange={(value) =>
+                onChange(dependency.id, {
+                  color: value === "" ? null : (value as string),
+                })
+              }
+              value={dependency.color ?? ""}
+            >
+              {DEPENDENCY_COLORS.map((option) => (
+                <ContextMenuRadioItem
+                  key={option.label}
+                  value={option.value ?? ""}
+                >
+                  <span
+                    className="size-3 rounded-full border"
+                    style={{ backgroundColor: option.value ?? undefined }}
+                  />
+                  {option.label}
+                </ContextMenuRadioItem>
+              ))}
+            </ContextMenuRadioGroup>
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        {onEdit ? (
+          <ContextMenuItem
+            className="flex items-center gap-2"
+            onClick={() => onEdit(dependency)}
+          >
+            <ClockIcon className="text-muted-foreground" size={16} />
+            Edit lag…
+          </ContextMenuItem>
+        ) : null}
+        <ContextMenuSeparator />
+        <ContextMenuItem
+          className="flex items-center gap-2"
+          onClick={() => onDelete(dependency.id)}
+          variant="destructive"
+        >
+          <TrashIcon size={16} />
+          Delete dependency
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
+
 export type GanttDependencyLayerProps = {
   dependencies: GanttDependency[];
   className?: string;
   defaultColor?: string;
   strokeWidth?: number;
   arrowSize?: number;
+  // Dependencies on the critical path, drawn highlighted in criticalColor.
+  // Ids of dependencies expanded onto a parent's leaves highlight the
+  // dependency they came from.
+  criticalDependencyIds?: Set<string>;
+  criticalColor?: string;
+  // Make arrows interactive: changed from their menu, deleted with Delete
+  onDependencyChange?: (id: string, changes: GanttDependencyChanges) => void;
+  onDependencyDelete?: (id: string) => void;
+  // Open a fuller editor (e.g. for the lag), from the menu or with Enter
+  onDependencyEdit?: (dependency: GanttDependency) => void;
 };
 
 export const GanttDependencyLayer: FC<GanttDependencyLayerProps> = ({
@@ -46,9 +300,20 @@ export const GanttDependencyLayer: FC<GanttDependencyLayerProps> = ({
   defaultColor = "#94a3b8",
   strokeWidth = 2,
   arrowSize = 6,
+  criticalDependencyIds,
+  criticalColor = "#ef4444",
+  onDependencyChange,
+  onDependencyDelete,
+  onDependencyEdit,
 }) => {
+  const handlers =
+    onDependencyChange && onDependencyDelete
+      ? { onChange: onDependencyChange, onDelete: onDependencyDelete }
+      : null;
   const [featurePositions] = useFeaturePositions();
+  const [linkDraft] = useLinkDraft();
   const markerId = useId();
+  const criticalMarkerId = `${markerId}-critical`;
 
   // Debounce position updates to avoid race conditions when multiple features update
   // Using 100ms to account for RAF delays in position calculations
@@ -74,6 +339,14 @@ export const GanttDependencyLayer: FC<GanttDependencyLayerProps> = ({
     }));
   }, [stablePositions]);
 
+  const criticalIds = useMemo(
+    () =>
+      criticalDependencyIds
+        ? new Set([...criticalDependencyIds].map(getSourceDependencyId))
+        : null,
+    [criticalDependencyIds]
+  );
+
   const calculatedDependencies = useMemo(
     () =>
       dependencies
@@ -94,25 +367,35 @@ export const GanttDependencyLayer: FC<GanttDependencyLayerProps> = ({
             obstacles,
           });
 
+          const critical = criticalIds?.has(dep.id) ?? false;
+
           return {
+            dependency: dep,
             id: dep.id,
             path,
-            color: dep.color ?? defaultColor,
+            color: critical ? criticalColor : (dep.color ?? defaultColor),
+            markerId: critical ? criticalMarkerId : markerId,
+            strokeWidth: critical ? strokeWidth + 1 : strokeWidth,
+            lagLabel: formatLag(dep),
+            target: endpoints.target,
+            targetFromRight: endpoints.targetFromRight,
           };
         })
-        .filter(
-          (
-            d
-          ): d is {
-            id: string;
-            path: string;
-            color: string;
-          } => d !== null
-        ),
-    [dependencies, stablePositions, defaultColor, allObstacles]
+        .filter((d): d is CalculatedDependency => d !== null),
+    [
+      dependencies,
+      stablePositions,
+      defaultColor,
+      allObstacles,
+      criticalIds,
+      criticalColor,
+      markerId,
+      criticalMarkerId,
+      strokeWidth,
+    ]
   );
 
-  if (calculatedDependencies.length === 0) {
+  if (calculatedDependencies.length === 0 && !linkDraft) {
     return null;
   }
 
@@ -142,17 +425,62 @@ export const GanttDependencyLayer: FC<GanttDependencyLayerProps> = ({
             fill={defaultColor}
           />
         </marker>
+        <marker
+          id={criticalMarkerId}
+          markerHeight={arrowSize}
+          markerUnits="strokeWidth"
+          markerWidth={arrowSize}
+          orient="auto"
+          refX={arrowSize - 1}
+          refY={arrowSize / 2}
+        >
+          <path
+            d={`M0,0 L0,${arrowSize} L${arrowSize},${arrowSize / 2} z`}
+            fill={criticalColor}
+          />
+        </marker>
       </defs>
 
-      {calculatedDependencies.map((dep) => (
-        <GanttDependencyArrow
-          color={dep.color}
-          key={dep.id}
+      {calculatedDependencies.map((dep) =>
+        handlers ? (
+          <GanttInteractiveDependency
+            calculated={dep}
+            key={dep.id}
+            onChange={handlers.onChange}
+            onDelete={handlers.onDelete}
+            onEdit={onDependencyEdit}
+          />
+        ) : (
+          <GanttDependencyArrow
+            color={dep.color}
+            key={dep.id}
+            markerId={dep.markerId}
+            path={dep.path}
+            strokeWidth={dep.strokeWidth}
+          />
+        )
+      )}
+
+      {linkDraft ? (
+        <GanttLinkRubberBand
+          color={defaultColor}
+          draft={linkDraft}
+          featurePositions={featurePositions}
           markerId={markerId}
-          path={dep.path}
-          strokeWidth={strokeWidth}
         />
-      ))}
+      ) : null}
+
+      {calculatedDependencies.map((dep) =>
+        dep.lagLabel ? (
+          <GanttDependencyLagLabel
+            color={dep.color}
+            key={`${dep.id}-lag`}
+            label={dep.lagLabel}
+            target={dep.target}
+            targetFromRight={dep.targetFromRight}
+          />
+        ) : null
+      )}
     </svg>
   );
 };
@@ -2,14 +2,21 @@
 
 import {
   DndContext,
+  type DragMoveEvent,
   MouseSensor,
   useDraggable,
   useSensor,
 } from "@dnd-kit/core";
 import { restrictToHorizontalAxis } from "@dnd-kit/modifiers";
+import {
+  IconArrowBarRight,
+  IconArrowBarToRight,
+  IconFlag,
+  IconPin,
+} from "@tabler/icons-react";
 import { useMouse } from "@uidotdev/usehooks";
-import { addDays, format } from "date-fns";
-import type { FC, ReactNode } from "react";
+import { addDays, addHours, format } from "date-fns";
+import type { FC, PointerEvent, ReactNode } from "react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
@@ -18,8 +25,17 @@ import {
   useFeaturePositions,
   useGanttDragging,
   useGanttScrollX,
+  useLinkDraft,
 } from "../store";
-import type { GanttFeature } from "../types";
+import type {
+  GanttConstraintType,
+  GanttDependencyType,
+  GanttFeature,
+  GanttLinkEnd,
+} from "../types";
+import { formatConstraint } from "../utils/constraints";
+import { getLinkType } from "../utils/dependencies";
+import { isBehindSchedule } from "../utils/progress";
 import {
   getAddRange,
   getDifferenceIn,
@@ -38,6 +54,7 @@ export const GanttFeatureDragHelper: FC<GanttFeatureDragHelperProps> = ({
   featureId,
   date,
 }) => {
+  const gantt = useGantt();
   const [, setDragging] = useGanttDragging();
   const { attributes, listeners, setNodeRef } = useDraggable({
     id: `feature-drag-helper-${featureId}`,
@@ -78,20 +95,79 @@ export const GanttFeatureDragHelper: FC<GanttFeatureDragHelperProps> = ({
             isPressed ? "block" : "hidden group-hover:block"
           )}
         >
-          {format(date, "MMM dd, yyyy")}
+          {format(
+            date,
+            gantt.range === "hourly" ? "MMM dd, yyyy HH:mm" : "MMM dd, yyyy"
+          )}
         </div>
       ) : null}
     </div>
   );
 };
 
+export type GanttFeatureProgressHelperProps = {
+  featureId: GanttFeature["id"];
+  percentComplete: number;
+};
+
+// Handle on the progress edge; dragging it sideways changes percent complete
+export const GanttFeatureProgressHelper: FC<
+  GanttFeatureProgressHelperProps
+> = ({ featureId, percentComplete }) => {
+  const [, setDragging] = useGanttDragging();
+  const { attributes, listeners, setNodeRef } = useDraggable({
+    id: `feature-progress-helper-${featureId}`,
+  });
+
+  const isPressed = Boolean(attributes["aria-pressed"]);
+
+  useEffect(() => setDragging(isPressed), [isPressed, setDragging]);
+
+  return (
+    <div
+      className="group -translate-x-1/2 absolute bottom-0 z-4 h-2.5 w-4 cursor-ew-resize outline-none"
+      ref={setNodeRef}
+      style={{ left: `${percentComplete}%` }}
+      {...attributes}
+      {...listeners}
+      aria-label="Progress"
+      aria-valuemax={100}
+      aria-valuemin={0}
+      aria-valuenow={percentComplete}
+      role="slider"
+      tabIndex={0}
+    >
+      <div
+        className={cn(
+          "mx-auto h-full w-1 rounded-sm bg-muted-foreground opacity-0 transition-opacity group-hover:opacity-100",
+          isPressed ? "opacity-100" : ""
+        )}
+      />
+      <div
+        className={cn(
+          "-translate-x-1/2 absolute top-4 left-1/2 whitespace-nowrap rounded-lg border border-border/50 bg-background/90 px-2 py-1 text-foreground text-xs backdrop-blur-lg",
+          isPressed ? "block" : "hidden group-hover:block"
+        )}
+      >
+        {percentComplete}% complete
+      </div>
+    </div>
+  );
+};
+
 export type GanttFeatureItemCardProps = Pick<GanttFeature, "id"> & {
   children?: ReactNode;
+  // Percent complete, drawn as a filled segment from the start of the card
+  progress?: number;
+  // Tint the progress segment when it lags the elapsed time
+  behindSchedule?: boolean;
 };
 
 export const GanttFeatureItemCard: FC<GanttFeatureItemCardProps> = ({
   id,
   children,
+  progress = 0,
+  behindSchedule = false,
 }) => {
   const [, setDragging] = useGanttDragging();
   const { attributes, listeners, setNodeRef } = useDraggable({ id });
@@ -100,10 +176,26 @@ export const GanttFeatureItemCard: FC<GanttFeatureItemCardProps> = ({
   useEffect(() => setDragging(isPressed), [isPressed, setDragging]);
 
   return (
-    <Card className="h-full w-full rounded-md bg-background p-2 text-xs shadow-sm">
+    <Card
+      className={cn(
+        "relative h-full w-full overflow-hidden rounded-md bg-background p-2 text-xs shadow-sm",
+        behindSchedule ? "border-amber-500" : ""
+      )}
+      data-behind-schedule={behindSchedule || undefined}
+      title={behindSchedule ? "Behind schedule" : ""}
+    >
+      {progress > 0 ? (
+        <div
+          className={cn(
+            "pointer-events-none absolute inset-y-0 left-0",
+            behindSchedule ? "bg-amber-500/20" : "bg-primary/10"
+          )}
+          style={{ width: `${progress}%` }}
+        />
+      ) : null}
       <div
         className={cn(
-          "flex h-full w-full items-center justify-between gap-2 text-left",
+          "relative flex h-full w-full items-center justify-between gap-2 text-left",
           isPressed ? "cursor-grabbing" : ""
         )}
         {...attributes}
@@ -116,16 +208,416 @@ export const GanttFeatureItemCard: FC<GanttFeatureItemCardProps> = ({
   );
 };
 
+// Bar end under a screen point: an explicit connector, or the nearer half
+// of a bar
+function findLinkTarget(
+  clientX: number,
+  clientY: number
+): { featureId: string; end: GanttLinkEnd } | null {
+  const element = document.elementFromPoint(clientX, clientY);
+  const handle = element?.closest<HTMLElement>("[data-link-end]");
+  if (handle?.dataset.featureId) {
+    return {
+      featureId: handle.dataset.featureId,
+      end: handle.dataset.linkEnd === "start" ? "start" : "end",
+    };
+  }
+  const bar = element?.closest<HTMLElement>("[data-feature-bar]");
+  if (bar?.dataset.featureBar) {
+    const rect = bar.getBoundingClientRect();
+    return {
+      featureId: bar.dataset.featureBar,
+      end: clientX < rect.left + rect.width / 2 ? "start" : "end",
+    };
+  }
+  return null;
+}
+
+export type GanttFeatureLinkHandleProps = {
+  featureId: GanttFeature["id"];
+  end: GanttLinkEnd;
+  onLink: (
+    sourceId: string,
+    targetId: string,
+    type: GanttDependencyType
+  ) => void;
+};
+
+// Connector dot beside a bar end; drag it onto another bar to link them
+export const GanttFeatureLinkHandle: FC<GanttFeatureLinkHandleProps> = ({
+  featureId,
+  end,
+  onLink,
+}) => {
+  const gantt = useGantt();
+  const [draft, setDraft] = useLinkDraft();
+  const active = draft?.sourceId === featureId && draft.sourceEnd === end;
+
+  // Pointer position in the same space as the recorded feature positions
+  const toTimelinePoint = (event: PointerEvent<HTMLDivElement>) => {
+    const container = gantt.ref?.current;
+    const rect = container?.getBoundingClientRect();
+    return {
+      x:
+        event.clientX -
+        (rect?.left ?? 0) +
+        (container?.scrollLeft ?? 0) -
+        gantt.sidebarWidth,
+      y:
+        event.clientY -
+        (rect?.top ?? 0) +
+        (container?.scrollTop ?? 0) -
+        gantt.headerHeight,
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    // Keep the bar's own drag and click handlers out of it
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft({
+      sourceId: featureId,
+      sourceEnd: end,
+      ...toTimelinePoint(event),
+    });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (active) {
+      setDraft({
+        sourceId: featureId,
+        sourceEnd: end,
+        ...toTimelinePoint(event),
+      });
+    }
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (!active) {
+      return;
+    }
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    setDraft(null);
+    const target = findLinkTarget(event.clientX, event.clientY);
+    if (target && target.featureId !== featureId) {
+      onLink(featureId, target.featureId, getLinkType(end, target.end));
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "-translate-y-1/2 absolute top-1/2 z-30 flex size-4 cursor-crosshair items-center justify-center opacity-0 transition-opacity group-hover/bar:opacity-100",
+        end === "start" ? "-left-5" : "-right-5",
+        // While any link is dragged, every connector is a visible drop target
+        draft ? "opacity-100" : ""
+      )}
+      data-feature-id={featureId}
+      data-link-end={end}
+      onPointerCancel={() => setDraft(null)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      title={`Drag to link from ${end === "start" ? "start" : "finish"}`}
+    >
+      <div className="size-2 rounded-full border-2 border-primary bg-background" />
+    </div>
+  );
+};
+
+// Start and finish connectors, shown only when linking is enabled
+const GanttFeatureLinkHandles: FC<{
+  featureId: string;
+  onLink?: GanttFeatureLinkHandleProps["onLink"];
+}> = ({ featureId, onLink }) =>
+  onLink ? (
+    <>
+      <GanttFeatureLinkHandle
+        end="start"
+        featureId={featureId}
+        onLink={onLink}
+      />
+      <GanttFeatureLinkHandle end="end" featureId={featureId} onLink={onLink} />
+    </>
+  ) : null;
+
+// Width of the box a milestone diamond is drawn in, centred on its date
+const MILESTONE_SIZE = 20;
+
+export type GanttMilestoneDiamondProps = Pick<GanttFeature, "id" | "name"> & {
+  critical?: boolean;
+  behindSchedule?: boolean;
+};
+
+// Zero-duration feature drawn as a diamond with its name beside it
+export const GanttMilestoneDiamond: FC<GanttMilestoneDiamondProps> = ({
+  id,
+  name,
+  critical = false,
+  behindSchedule = false,
+}) => {
+  const [, setDragging] = useGanttDragging();
+  const { attributes, listeners, setNodeRef } = useDraggable({ id });
+  const isPressed = Boolean(attributes["aria-pressed"]);
+
+  useEffect(() => setDragging(isPressed), [isPressed, setDragging]);
+
+  const title = behindSchedule ? `${name} (behind schedule)` : name;
+  let color = "border-primary bg-primary";
+  if (critical) {
+    color = "border-red-500 bg-red-500";
+  } else if (behindSchedule) {
+    color = "border-amber-500 bg-amber-500";
+  }
+
+  return (
+    <div
+      className={cn(
+        "relative flex h-full w-full items-center justify-center",
+        isPressed ? "cursor-grabbing" : ""
+      )}
+      ref={setNodeRef}
+      title={title}
+      {...attributes}
+      {...listeners}
+    >
+      <div className={cn("size-3.5 rotate-45 rounded-[2px] border-2", color)} />
+      <span className="pointer-events-none absolute left-full ml-1.5 whitespace-nowrap text-xs">
+        {name}
+      </span>
+    </div>
+  );
+};
+
+export type GanttSummaryBarProps = Pick<GanttFeature, "name"> & {
+  progress?: number;
+  critical?: boolean;
+};
+
+// Bracket-shaped bar for a parent feature; its dates come from its children,
+// so it cannot be dragged or resized
+export const GanttSummaryBar: FC<GanttSummaryBarProps> = ({
+  name,
+  progress = 0,
+  critical = false,
+}) => {
+  const color = critical ? "bg-red-500" : "bg-foreground/80";
+
+  return (
+    <div
+      className="relative flex h-full w-full items-start"
+      title={`${name} (${progress}% complete)`}
+    >
+      <div className={cn("relative mt-1 h-2 w-full rounded-t-sm", color)}>
+        <div
+          className="absolute inset-y-0 left-0 rounded-tl-sm bg-primary"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      <div
+        className={cn("absolute top-3 left-0 size-1.5 rounded-b-sm", color)}
+      />
+      <div
+        className={cn("absolute top-3 right-0 size-1.5 rounded-b-sm", color)}
+      />
+      <span className="pointer-events-none absolute bottom-0 left-0 truncate font-medium text-[10px]">
+        {name}
+      </span>
+    </div>
+  );
+};
+
+const CONSTRAINT_ICONS: Record<GanttConstraintType, typeof IconPin> = {
+  SNET: IconArrowBarRight,
+  FNLT: IconArrowBarToRight,
+  MSO: IconPin,
+  DEADLINE: IconFlag,
+};
+
+export type GanttConstraintGlyphProps = Pick<
+  GanttFeature,
+  "constraintType" | "constraintDate"
+> & {
+  violated?: boolean;
+};
+
+// Small icon on the bar edge the constraint applies to (start or finish)
+export const GanttConstraintGlyph: FC<GanttConstraintGlyphProps> = ({
+  constraintType,
+  constraintDate,
+  violated = false,
+}) => {
+  const label = formatConstraint({ constraintType, constraintDate });
+  if (!(constraintType && label)) {
+    return null;
+  }
+  const Icon = CONSTRAINT_ICONS[constraintType];
+  const atStart = constraintType === "SNET" || constraintType === "MSO";
+  const title = violated ? `${label} (not met)` : label;
+
+  return (
+    <div
+      aria-label={label}
+      className={cn(
+        "-top-1.5 pointer-events-auto absolute z-30 rounded-full border bg-background p-px",
+        atStart ? "-left-1.5" : "-right-1.5",
+        violated
+          ? "border-amber-500 text-amber-500"
+          : "border-border text-muted-foreground"
+      )}
+      data-violated={violated || undefined}
+      role="img"
+      title={title}
+    >
+      <Icon size={10} />
+    </div>
+  );
+};
+
+export type GanttForecastWhiskerProps = {
+  forecast: { p50: Date; p80: Date; p95: Date };
+};
+
+// Whisker from the P50 to the P95 simulated finish with a tick at each,
+// drawn under the bar so it never blocks dragging
+export const GanttForecastWhisker: FC<GanttForecastWhiskerProps> = ({
+  forecast,
+}) => {
+  const gantt = useGantt();
+  const timelineStartDate = useMemo(
+    () => new Date(gantt.timelineData.at(0)?.year ?? 0, 0, 1),
+    [gantt.timelineData]
+  );
+  const [p50, p80, p95] = [forecast.p50, forecast.p80, forecast.p95].map(
+    (date) => Math.round(getOffset(date, timelineStartDate, gantt))
+  );
+  const label = `Finish P50 ${format(forecast.p50, "MMM d")}, P80 ${format(forecast.p80, "MMM d")}, P95 ${format(forecast.p95, "MMM d")}`;
+
+  return (
+    <div
+      aria-label={label}
+      className="-translate-y-1/2 pointer-events-none absolute top-1/2 z-10 h-3"
+      role="img"
+      style={{ left: p50, width: Math.max(p95 - p50, 1) }}
+    >
+      <div className="absolute inset-x-0 top-1/2 h-px bg-violet-500" />
+      <div className="absolute left-0 h-full w-px bg-violet-500" />
+      <div
+        className="absolute h-full w-px bg-violet-500"
+        style={{ left: p80 - p50 }}
+      />
+      <div className="absolute right-0 h-full w-px bg-violet-500" />
+    </div>
+  );
+};
+
+type GanttFeatureItemShapeProps = Pick<GanttFeature, "id" | "name"> & {
+  milestone: boolean;
+  summary: boolean;
+  critical: boolean;
+  behindSchedule: boolean;
+  progress: number;
+  children?: ReactNode;
+};
+
+// What a feature is drawn as: a summary bracket, a diamond or a card
+const GanttFeatureItemShape: FC<GanttFeatureItemShapeProps> = ({
+  id,
+  name,
+  milestone,
+  summary,
+  critical,
+  behindSchedule,
+  progress,
+  children,
+}) => {
+  if (summary) {
+    return (
+      <GanttSummaryBar critical={critical} name={name} progress={progress} />
+    );
+  }
+  if (milestone) {
+    return (
+      <GanttMilestoneDiamond
+        behindSchedule={behindSchedule}
+        critical={critical}
+        id={id}
+        name={name}
+      />
+    );
+  }
+  return (
+    <GanttFeatureItemCard
+      behindSchedule={behindSchedule}
+      id={id}
+      progress={progress}
+    >
+      {children ?? <p className="flex-1 truncate text-xs">{name}</p>}
+    </GanttFeatureItemCard>
+  );
+};
+
 export type GanttFeatureItemProps = GanttFeature & {
+  // Called when the bar is dropped after a move or resize; omit to fix it
+  // in place
   onMove?: (id: string, startDate: Date, endDate: Date | null) => void;
   children?: ReactNode;
   className?: string;
+  // Highlight the bar as part of the critical path
+  critical?: boolean;
+  // Flag the constraint glyph when the bar breaks its constraint
+  constraintViolated?: boolean;
+  // Baseline dates, drawn as a ghost bar under the feature
+  baseline?: { startAt: Date; endAt: Date };
+  // Simulated finish percentiles, drawn as a whisker past the bar
+  forecast?: GanttForecastWhiskerProps["forecast"];
+  // Called when the progress edge is dropped; omit to make progress read-only
+  onProgressChange?: (id: string, percentComplete: number) => void;
+  // Draw a parent as a summary bar spanning its children
+  summary?: boolean;
+  // Called when a connector is dragged onto another bar; omit to hide them
+  onLink?: GanttFeatureLinkHandleProps["onLink"];
 };
 
+// Local progress while the progress edge is dragged, committed on drop
+function useFeatureProgress(
+  feature: Pick<GanttFeature, "id" | "percentComplete">,
+  width: number,
+  onProgressChange: GanttFeatureItemProps["onProgressChange"]
+) {
+  const initial = feature.percentComplete ?? 0;
+  const [progress, setProgress] = useState(initial);
+
+  useEffect(() => setProgress(initial), [initial]);
+
+  const handleProgressDragMove = useCallback(
+    (event: DragMoveEvent) => {
+      const delta = width > 0 ? (event.delta.x / width) * 100 : 0;
+      setProgress(Math.min(Math.max(Math.round(initial + delta), 0), 100));
+    },
+    [initial, width]
+  );
+
+  const handleProgressDragEnd = useCallback(
+    () => onProgressChange?.(feature.id, progress),
+    [onProgressChange, feature.id, progress]
+  );
+
+  return { progress, handleProgressDragMove, handleProgressDragEnd };
+}
+
 export const GanttFeatureItem: FC<GanttFeatureItemProps> = ({
   onMove,
   children,
   className,
+  critical = false,
+  constraintViolated = false,
+  baseline,
+  forecast,
+  onProgressChange,
+  summary = false,
+  onLink,
   ...feature
 }) => {
   const [scrollX] = useGanttScrollX();
@@ -145,13 +637,40 @@ export const GanttFeatureItem: FC<GanttFeatureItemProps> = ({
     setEndAt(feature.endAt);
   }, [feature.startAt, feature.endAt]);
 
+  // Milestones skip getWidth, which gives same-day features a full day
+  const milestone = feature.kind === "milestone";
   const width = useMemo(
-    () => getWidth(startAt, endAt, gantt),
-    [startAt, endAt, gantt]
+    () => (milestone ? MILESTONE_SIZE : getWidth(startAt, endAt, gantt)),
+    [milestone, startAt, endAt, gantt]
   );
   const offset = useMemo(
-    () => getOffset(startAt, timelineStartDate, gantt),
-    [startAt, timelineStartDate, gantt]
+    () =>
+      getOffset(startAt, timelineStartDate, gantt) -
+      (milestone ? MILESTONE_SIZE / 2 : 0),
+    [milestone, startAt, timelineStartDate, gantt]
+  );
+  const resizable = onMove !== undefined && !(milestone || summary);
+  const showProgress =
+    onProgressChange !== undefined && !(milestone || summary);
+
+  const { progress, handleProgressDragMove, handleProgressDragEnd } =
+    useFeatureProgress(feature, width, onProgressChange);
+  const today = useMemo(() => gantt.today ?? new Date(), [gantt.today]);
+  const behindSchedule = isBehindSchedule(
+    { startAt, endAt: endAt ?? startAt, percentComplete: progress },
+    today,
+    gantt.calendar
+  );
+
+  const baselineBar = useMemo(
+    () =>
+      baseline
+        ? {
+            left: getOffset(baseline.startAt, timelineStartDate, gantt),
+            width: getWidth(baseline.startAt, baseline.endAt, gantt),
+          }
+        : null,
+    [baseline, timelineStartDate, gantt]
   );
 
   const addRange = useMemo(() => getAddRange(gantt.range), [gantt.range]);
@@ -172,18 +691,30 @@ export const GanttFeatureItem: FC<GanttFeatureItemProps> = ({
   }, [mousePosition.x, startAt, endAt]);
 
   const handleItemDragMove = useCallback(() => {
+    if (!onMove) {
+      return;
+    }
     const currentDate = getDateByMousePosition(gantt, mousePosition.x);
     const originalDate = getDateByMousePosition(gantt, previousMouseX);
     const delta =
-      gantt.range === "daily"
+      gantt.range === "daily" || gantt.range === "hourly"
         ? getDifferenceIn(gantt.range)(currentDate, originalDate)
         : getInnerDifferenceIn(gantt.range)(currentDate, originalDate);
-    const newStartDate = addDays(previousStartAt, delta);
-    const newEndDate = previousEndAt ? addDays(previousEndAt, delta) : null;
+    // Columns in the hourly range are hours rather than days
+    const shift = gantt.range === "hourly" ? addHours : addDays;
+    const newStartDate = shift(previousStartAt, delta);
+    const newEndDate = previousEndAt ? shift(previousEndAt, delta) : null;
 
     setStartAt(newStartDate);
     setEndAt(newEndDate);
-  }, [gantt, mousePosition.x, previousMouseX, previousStartAt, previousEndAt]);
+  }, [
+    onMove,
+    gantt,
+    mousePosition.x,
+    previousMouseX,
+    previousStartAt,
+    previousEndAt,
+  ]);
 
   const onDragEnd = useCallback(
     () => onMove?.(feature.id, startAt, endAt),
@@ -260,15 +791,30 @@ export const GanttFeatureItem: FC<GanttFeatureItemProps> = ({
       ref={itemRef}
       style={{ height: "var(--gantt-row-height)" }}
     >
+      {baselineBar ? (
+        <div
+          className="pointer-events-none absolute bottom-0 z-10 h-1.5 rounded-full border border-muted-foreground/40 border-dashed bg-muted-foreground/20"
+          style={{
+            left: Math.round(baselineBar.left),
+            width: Math.max(Math.round(baselineBar.width), 2),
+          }}
+        />
+      ) : null}
       <div
-        className="pointer-events-auto absolute top-0.5 z-20"
+        className={cn(
+          "group/bar pointer-events-auto absolute top-0.5 z-20",
+          critical ? "rounded-md ring-2 ring-red-500" : "",
+          milestone || summary ? "ring-0" : ""
+        )}
+        data-critical={critical || undefined}
+        data-feature-bar={feature.id}
         style={{
           height: "calc(var(--gantt-row-height) - 4px)",
           width: Math.round(width),
           left: Math.round(offset),
         }}
       >
-        {onMove ? (
+        {resizable ? (
           <DndContext
             id={`gantt-left-${feature.id}`}
             modifiers={[restrictToHorizontalAxis]}
@@ -291,13 +837,33 @@ export const GanttFeatureItem: FC<GanttFeatureItemProps> = ({
           onDragStart={handleItemDragStart}
           sensors={[mouseSensor]}
         >
-          <GanttFeatureItemCard id={feature.id}>
-            {children ?? (
-              <p className="flex-1 truncate text-xs">{feature.name}</p>
-            )}
-          </GanttFeatureItemCard>
+          <GanttFeatureItemShape
+            behindSchedule={behindSchedule}
+            critical={critical}
+            id={feature.id}
+            milestone={milestone}
+            name={feature.name}
+            progress={progress}
+            summary={summary}
+          >
+            {children}
+          </GanttFeatureItemShape>
         </DndContext>
-        {onMove ? (
+        {showProgress ? (
+          <DndContext
+            id={`gantt-progress-${feature.id}`}
+            modifiers={[restrictToHorizontalAxis]}
+            onDragEnd={handleProgressDragEnd}
+            onDragMove={handleProgressDragMove}
+            sensors={[mouseSensor]}
+          >
+            <GanttFeatureProgressHelper
+              featureId={feature.id}
+              percentComplete={progress}
+            />
+          </DndContext>
+        ) : null}
+        {resizable ? (
           <DndContext
             id={`gantt-right-${feature.id}`}
             modifiers={[restrictToHorizontalAxis]}
@@ -312,7 +878,14 @@ export const GanttFeatureItem: FC<GanttFeatureItemProps> = ({
             />
           </DndContext>
         ) : null}
+        <GanttConstraintGlyph
+          constraintDate={feature.constraintDate}
+          constraintType={feature.constraintType}
+          violated={constraintViolated}
+        />
+        <GanttFeatureLinkHandles featureId={feature.id} onLink={onLink} />
       </div>
+      {forecast ? <GanttForecastWhisker forecast={forecast} /> : null}
     </div>
   );
 };
@@ -1,10 +1,18 @@
 "use client";
 
-import { addDays, addWeeks, format, getWeek, startOfWeek } from "date-fns";
+import {
+  addDays,
+  addHours,
+  addWeeks,
+  format,
+  getWeek,
+  startOfWeek,
+} from "date-fns";
 import type { FC, ReactNode } from "react";
 import { useId } from "react";
 import { cn } from "@/lib/utils";
 import { useGantt } from "../context";
+import { useGanttScrollX } from "../store";
 import type { Range } from "../types";
 import { GanttColumns } from "./columns";
 
@@ -56,6 +64,63 @@ export const GanttContentHeader: FC<GanttContentHeaderProps> = ({
   );
 };
 
+// Days drawn on either side of the visible ones, so a quick scroll does not
+// show blank days before the next render
+const HOURLY_BUFFER_DAYS = 1;
+
+// Each day of the hourly range is 24 columns and a year is thousands of them,
+// so only the days in view are drawn; the others keep their width as spacers
+const HourlyHeader: FC = () => {
+  const gantt = useGantt();
+  const [scrollX] = useGanttScrollX();
+  const dayWidth = ((gantt.columnWidth * gantt.zoom) / 100) * 24;
+  const viewportWidth =
+    gantt.ref?.current?.clientWidth ??
+    (typeof window === "undefined" ? 0 : window.innerWidth);
+  const firstDay = Math.floor(scrollX / dayWidth) - HOURLY_BUFFER_DAYS;
+  const lastDay =
+    Math.ceil((scrollX + viewportWidth) / dayWidth) + HOURLY_BUFFER_DAYS;
+  let dayOffset = 0;
+
+  return gantt.timelineData.map((year) =>
+    year.quarters
+      .flatMap((quarter) => quarter.months)
+      .flatMap((monthData, monthIndex) =>
+        Array.from({ length: monthData.days }).map((_, dayIndex) => {
+          const day = new Date(year.year, monthIndex, dayIndex + 1);
+          const position = dayOffset;
+          dayOffset += 1;
+
+          if (position < firstDay || position > lastDay) {
+            return (
+              <div
+                className="shrink-0"
+                key={day.toISOString()}
+                style={{ width: "calc(var(--gantt-column-width) * 24)" }}
+              />
+            );
+          }
+
+          return (
+            <div className="relative flex flex-col" key={day.toISOString()}>
+              <GanttContentHeader
+                columns={24}
+                renderHeaderItem={(item: number) => (
+                  <p>{format(addHours(day, item), "HH")}</p>
+                )}
+                title={format(day, "EEEE, MMMM d yyyy")}
+              />
+              <GanttColumns
+                columns={24}
+                getColumnDate={(item: number) => addHours(day, item)}
+              />
+            </div>
+          );
+        })
+      )
+  );
+};
+
 const DailyHeader: FC = () => {
   const gantt = useGantt();
 
@@ -83,10 +148,8 @@ const DailyHeader: FC = () => {
           />
           <GanttColumns
             columns={monthData.days}
-            isColumnSecondary={(item: number) =>
-              [0, 6].includes(
-                addDays(new Date(year.year, index, 1), item).getDay()
-              )
+            getColumnDate={(item: number) =>
+              addDays(new Date(year.year, index, 1), item)
             }
           />
         </div>
@@ -161,7 +224,12 @@ const WeeklyHeader: FC = () => {
               }}
               title={format(firstDay, "MMMM yyyy")}
             />
-            <GanttColumns columns={weeksInMonth} />
+            <GanttColumns
+              columns={weeksInMonth}
+              getColumnDate={(item: number) =>
+                addWeeks(startOfWeek(firstDay), item)
+              }
+            />
           </div>
         );
       })
@@ -186,6 +254,7 @@ const YearlyHeader: FC = () => {
 };
 
 const headers: Record<Range, FC> = {
+  hourly: HourlyHeader,
   daily: DailyHeader,
   weekly: WeeklyHeader,
   monthly: MonthlyHeader,
@@ -147,12 +147,17 @@ GanttMarker.displayName = "GanttMarker";
 
 export type GanttTodayProps = {
   className?: string;
+  // Current time as the timeline shows it, e.g. shifted to a time zone
+  date?: Date;
 };
 
-export const GanttToday: FC<GanttTodayProps> = ({ className }) => {
+export const GanttToday: FC<GanttTodayProps> = ({ className, date: now }) => {
   const label = "Today";
-  const date = useMemo(() => new Date(), []);
   const gantt = useGantt();
+  const date = useMemo(
+    () => now ?? gantt.today ?? new Date(),
+    [now, gantt.today]
+  );
   const differenceIn = useMemo(
     () => getDifferenceIn(gantt.range),
     [gantt.range]
@@ -1,6 +1,7 @@
 "use client";
 
 import { format } from "date-fns";
+import { ChevronRightIcon } from "lucide-react";
 import type {
   FC,
   KeyboardEventHandler,
@@ -18,9 +19,11 @@ import { useGantt } from "../context";
 import {
   COLUMN_WIDTHS,
   type SidebarColumns,
+  useCollapsedFeatures,
   useSidebarColumns,
 } from "../store";
 import type { GanttDependency, GanttFeature } from "../types";
+import { getDuration } from "../utils/calendar";
 
 const getGridTemplateColumns = (columns: SidebarColumns): string => {
   const parts: string[] = [`minmax(${COLUMN_WIDTHS.name}px, 1fr)`];
@@ -42,6 +45,15 @@ const getGridTemplateColumns = (columns: SidebarColumns): string => {
   if (columns.deps) {
     parts.push(`${COLUMN_WIDTHS.deps}px`);
   }
+  if (columns.float) {
+    parts.push(`${COLUMN_WIDTHS.float}px`);
+  }
+  if (columns.startVariance) {
+    parts.push(`${COLUMN_WIDTHS.startVariance}px`);
+  }
+  if (columns.finishVariance) {
+    parts.push(`${COLUMN_WIDTHS.finishVariance}px`);
+  }
   return parts.join(" ");
 };
 
@@ -65,6 +77,15 @@ export const getSidebarWidth = (columns: SidebarColumns): number => {
   if (columns.deps) {
     width += COLUMN_WIDTHS.deps;
   }
+  if (columns.float) {
+    width += COLUMN_WIDTHS.float;
+  }
+  if (columns.startVariance) {
+    width += COLUMN_WIDTHS.startVariance;
+  }
+  if (columns.finishVariance) {
+    width += COLUMN_WIDTHS.finishVariance;
+  }
   return width;
 };
 
@@ -73,6 +94,173 @@ const getShortId = (uuid: string, allFeatures: GanttFeature[]): string => {
   return index >= 0 ? `T${index + 1}` : "-";
 };
 
+// Total float cell, highlighted when the feature is on the critical path
+const GanttSidebarFloatCell: FC<{ totalFloat?: number }> = ({ totalFloat }) => {
+  if (totalFloat === undefined) {
+    return (
+      <div className="pointer-events-none truncate px-2 text-muted-foreground">
+        -
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "pointer-events-none truncate px-2",
+        totalFloat <= 0 ? "font-medium text-red-500" : "text-muted-foreground"
+      )}
+    >
+      {totalFloat}d
+    </div>
+  );
+};
+
+// Status color, drawn as a diamond for milestones
+const GanttSidebarStatusDot: FC<{ feature: GanttFeature }> = ({ feature }) => (
+  <div
+    className={cn(
+      "h-2 w-2 shrink-0",
+      feature.kind === "milestone" ? "rotate-45 rounded-[1px]" : "rounded-full"
+    )}
+    style={{ backgroundColor: feature.status.color }}
+  />
+);
+
+// Baseline variance cell: working days late (+) or early (-) against the baseline
+const GanttSidebarVarianceCell: FC<{
+  baselineDate?: Date;
+  currentDate: Date;
+}> = ({ baselineDate, currentDate }) => {
+  const gantt = useGantt();
+
+  if (!baselineDate) {
+    return (
+      <div className="pointer-events-none truncate px-2 text-muted-foreground">
+        -
+      </div>
+    );
+  }
+
+  const variance = getDuration(baselineDate, currentDate, gantt.calendar);
+  const label = variance > 0 ? `+${variance}d` : `${variance}d`;
+
+  return (
+    <div
+      className={cn(
+        "pointer-events-none truncate px-2",
+        variance > 0 ? "font-medium text-amber-600" : "text-muted-foreground"
+      )}
+    >
+      {label}
+    </div>
+  );
+};
+
+// Start and finish variance cells, each shown when its column is enabled
+const GanttSidebarVarianceCells: FC<{
+  feature: GanttFeature;
+  baseline?: { startAt: Date; endAt: Date };
+}> = ({ feature, baseline }) => {
+  const [columns] = useSidebarColumns();
+
+  return (
+    <>
+      {columns.startVariance ? (
+        <GanttSidebarVarianceCell
+          baselineDate={baseline?.startAt}
+          currentDate={feature.startAt}
+        />
+      ) : null}
+      {columns.finishVariance ? (
+        <GanttSidebarVarianceCell
+          baselineDate={baseline?.endAt}
+          currentDate={feature.endAt}
+        />
+      ) : null}
+    </>
+  );
+};
+
+// Indent per level of the work breakdown, and the room kept for the toggle
+const TREE_INDENT = 14;
+const TREE_TOGGLE_WIDTH = 16;
+
+// Expand/collapse button for a parent row, overlaid on the name column
+const GanttSidebarTreeToggle: FC<{ feature: GanttFeature; depth: number }> = ({
+  feature,
+  depth,
+}) => {
+  const [collapsed, setCollapsed] = useCollapsedFeatures();
+  const expanded = !collapsed.has(feature.id);
+
+  const handleToggle = () => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(feature.id)) {
+        next.delete(feature.id);
+      } else {
+        next.add(feature.id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <button
+      aria-expanded={expanded}
+      aria-label={`${expanded ? "Collapse" : "Expand"} ${feature.name}`}
+      className="-translate-y-1/2 absolute top-1/2 flex items-center justify-center rounded text-muted-foreground hover:bg-secondary hover:text-foreground"
+      onClick={handleToggle}
+      style={{
+        left: 6 + depth * TREE_INDENT,
+        width: TREE_TOGGLE_WIDTH,
+        height: TREE_TOGGLE_WIDTH,
+      }}
+      type="button"
+    >
+      <ChevronRightIcon
+        className={cn("transition-transform", expanded ? "rotate-90" : "")}
+        size={12}
+      />
+    </button>
+  );
+};
+
+// Short ID, status and name, indented by the feature's depth in the tree
+const GanttSidebarNameCell: FC<{
+  feature: GanttFeature;
+  featureIndex?: number;
+  depth?: number;
+  hasChildren: boolean;
+}> = ({ feature, featureIndex, depth, hasChildren }) => {
+  const shortId = featureIndex !== undefined ? `T${featureIndex}` : "";
+  const treePadding =
+    depth === undefined ? 0 : depth * TREE_INDENT + TREE_TOGGLE_WIDTH;
+
+  return (
+    <div
+      className="pointer-events-none flex items-center gap-2 truncate px-2.5"
+      style={{ paddingLeft: 10 + treePadding }}
+    >
+      {shortId ? (
+        <span className="shrink-0 font-mono text-muted-foreground">
+          {shortId}
+        </span>
+      ) : null}
+      <GanttSidebarStatusDot feature={feature} />
+      <span
+        className={cn(
+          "truncate",
+          hasChildren ? "font-semibold" : "font-medium"
+        )}
+      >
+        {feature.name}
+      </span>
+    </div>
+  );
+};
+
 export type GanttSidebarItemProps = {
   feature: GanttFeature;
   featureIndex?: number;
@@ -80,6 +268,14 @@ export type GanttSidebarItemProps = {
   onSelectItem?: (id: string) => void;
   className?: string;
   dependencies?: GanttDependency[];
+  // Total float from critical path analysis (undefined = not analysed)
+  totalFloat?: number;
+  // Baseline dates for the variance columns (undefined = not in baseline)
+  baseline?: { startAt: Date; endAt: Date };
+  // Level in the work breakdown (undefined = flat list without tree toggles)
+  depth?: number;
+  // Whether the feature is a parent that can be expanded and collapsed
+  hasChildren?: boolean;
 };
 
 export const GanttSidebarItem: FC<GanttSidebarItemProps> = ({
@@ -89,6 +285,10 @@ export const GanttSidebarItem: FC<GanttSidebarItemProps> = ({
   onSelectItem,
   className,
   dependencies = [],
+  totalFloat,
+  baseline,
+  depth,
+  hasChildren = false,
 }) => {
   const gantt = useGantt();
   const [columns] = useSidebarColumns();
@@ -112,8 +312,6 @@ export const GanttSidebarItem: FC<GanttSidebarItemProps> = ({
     ),
   ];
 
-  const shortId = featureIndex !== undefined ? `T${featureIndex}` : "";
-
   const handleClick: MouseEventHandler<HTMLButtonElement> = (event) => {
     if (event.target === event.currentTarget) {
       gantt.scrollToFeature?.(feature);
@@ -129,76 +327,82 @@ export const GanttSidebarItem: FC<GanttSidebarItemProps> = ({
   };
 
   return (
-    <button
-      className={cn(
-        "relative grid w-full items-center text-left text-xs hover:bg-secondary",
-        className
-      )}
-      key={feature.id}
-      onClick={handleClick}
-      onKeyDown={handleKeyDown}
-      style={{
-        height: "var(--gantt-row-height)",
-        gridTemplateColumns: getGridTemplateColumns(columns),
-      }}
-      type="button"
-    >
-      {/* Name column - always visible */}
-      <div className="pointer-events-none flex items-center gap-2 truncate px-2.5">
-        {shortId ? (
-          <span className="shrink-0 font-mono text-muted-foreground">
-            {shortId}
-          </span>
-        ) : null}
-        <div
-          className="h-2 w-2 shrink-0 rounded-full"
-          style={{ backgroundColor: feature.status.color }}
+    <div className="relative">
+      <button
+        className={cn(
+          "relative grid w-full items-center text-left text-xs hover:bg-secondary",
+          className
+        )}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        style={{
+          height: "var(--gantt-row-height)",
+          gridTemplateColumns: getGridTemplateColumns(columns),
+        }}
+        type="button"
+      >
+        {/* Name column - always visible, indented by tree depth */}
+        <GanttSidebarNameCell
+          depth={depth}
+          feature={feature}
+          featureIndex={featureIndex}
+          hasChildren={hasChildren}
         />
-        <span className="truncate font-medium">{feature.name}</span>
-      </div>
 
-      {/* Status column */}
-      {columns.status ? (
-        <div className="pointer-events-none truncate px-2 text-muted-foreground">
-          {feature.status.name}
-        </div>
-      ) : null}
+        {/* Status column */}
+        {columns.status ? (
+          <div className="pointer-events-none truncate px-2 text-muted-foreground">
+            {feature.status.name}
+          </div>
+        ) : null}
 
-      {/* Start date column */}
-      {columns.start ? (
-        <div className="pointer-events-none truncate px-2 text-muted-foreground">
-          {format(feature.startAt, "MMM d")}
-        </div>
-      ) : null}
+        {/* Start date column */}
+        {columns.start ? (
+          <div className="pointer-events-none truncate px-2 text-muted-foreground">
+            {format(feature.startAt, "MMM d")}
+          </div>
+        ) : null}
 
-      {/* End date column */}
-      {columns.end ? (
-        <div className="pointer-events-none truncate px-2 text-muted-foreground">
-          {format(feature.endAt, "MMM d")}
-        </div>
-      ) : null}
+        {/* End date column */}
+        {columns.end ? (
+          <div className="pointer-events-none truncate px-2 text-muted-foreground">
+            {format(feature.endAt, "MMM d")}
+          </div>
+        ) : null}
 
-      {/* Successors column */}
-      {columns.successors ? (
-        <div className="pointer-events-none truncate px-2 text-muted-foreground">
-          {successorIds.length > 0 ? successorIds.join(", ") : "-"}
-        </div>
-      ) : null}
+        {/* Successors column */}
+        {columns.successors ? (
+          <div className="pointer-events-none truncate px-2 text-muted-foreground">
+            {successorIds.length > 0 ? successorIds.join(", ") : "-"}
+          </div>
+        ) : null}
 
-      {/* Predecessors column */}
-      {columns.predecessors ? (
-        <div className="pointer-events-none truncate px-2 text-muted-foreground">
-          {predecessorIds.length > 0 ? predecessorIds.join(", ") : "-"}
-        </div>
-      ) : null}
+        {/* Predecessors column */}
+        {columns.predecessors ? (
+          <div className="pointer-events-none truncate px-2 text-muted-foreground">
+            {predecessorIds.length > 0 ? predecessorIds.join(", ") : "-"}
+          </div>
+        ) : null}
+
+        {/* Dependency types column */}
+        {columns.deps ? (
+          <div className="pointer-events-none truncate px-2 text-muted-foreground">
+            {depTypes.length > 0 ? depTypes.join(", ") : "-"}
+          </div>
+        ) : null}
 
-      {/* Dependency types column */}
-      {columns.deps ? (
-        <div className="pointer-events-none truncate px-2 text-muted-foreground">
-          {depTypes.length > 0 ? depTypes.join(", ") : "-"}
-        </div>
+        {/* Total float column */}
+        {columns.float ? (
+          <GanttSidebarFloatCell totalFloat={totalFloat} />
+        ) : null}
+
+        {/* Baseline variance columns */}
+        <GanttSidebarVarianceCells baseline={baseline} feature={feature} />
+      </button>
+      {hasChildren ? (
+        <GanttSidebarTreeToggle depth={depth ?? 0} feature={feature} />
       ) : null}
-    </button>
+    </div>
   );
 };
 
@@ -244,6 +448,15 @@ export const GanttSidebarHeader: FC = () => {
             {columns.deps ? (
               <div className="flex items-end px-2 pb-2">Deps</div>
             ) : null}
+            {columns.float ? (
+              <div className="flex items-end px-2 pb-2">Float</div>
+            ) : null}
+            {columns.startVariance ? (
+              <div className="flex items-end px-2 pb-2">Start Δ</div>
+            ) : null}
+            {columns.finishVariance ? (
+              <div className="flex items-end px-2 pb-2">End Δ</div>
+            ) : null}
           </div>
         </ContextMenuTrigger>
         <ContextMenuContent>
@@ -286,6 +499,24 @@ export const GanttSidebarHeader: FC = () => {
           >
             Dependency Types
           </ContextMenuCheckboxItem>
+          <ContextMenuCheckboxItem
+            checked={columns.float}
+            onCheckedChange={() => toggleColumn("float")}
+          >
+            Total Float
+          </ContextMenuCheckboxItem>
+          <ContextMenuCheckboxItem
+            checked={columns.startVariance}
+            onCheckedChange={() => toggleColumn("startVariance")}
+          >
+            Start Variance
+          </ContextMenuCheckboxItem>
+          <ContextMenuCheckboxItem
+            checked={columns.finishVariance}
+            onCheckedChange={() => toggleColumn("finishVariance")}
+          >
+            Finish Variance
+          </ContextMenuCheckboxItem>
         </ContextMenuContent>
       </ContextMenu>
     </div>
@@ -296,19 +527,33 @@ export type GanttSidebarGroupProps = {
   children: ReactNode;
   name: string;
   className?: string;
+  // Rolled-up percent complete of the group's features
+  progress?: number;
 };
 
 export const GanttSidebarGroup: FC<GanttSidebarGroupProps> = ({
   children,
   name,
   className,
+  progress,
 }) => (
   <div className={className}>
     <p
-      className="flex w-full items-center truncate px-2.5 text-left font-medium text-muted-foreground text-xs"
+      className="flex w-full items-center gap-2 px-2.5 text-left font-medium text-muted-foreground text-xs"
       style={{ height: "var(--gantt-row-height)" }}
     >
-      {name}
+      <span className="truncate">{name}</span>
+      {progress === undefined ? null : (
+        <span className="ml-auto flex shrink-0 items-center gap-1.5 font-normal">
+          <span className="h-1 w-12 overflow-hidden rounded-full bg-muted">
+            <span
+              className="block h-full bg-primary/60"
+              style={{ width: `${progress}%` }}
+            />
+          </span>
+          {progress}%
+        </span>
+      )}
     </p>
     <div className="divide-y divide-border/50">{children}</div>
   </div>
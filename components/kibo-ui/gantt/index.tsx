@@ -7,8 +7,8 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
 import { GanttContext } from "./context";
 import { useGanttScrollX } from "./store";
-import type { GanttFeature, Range, TimelineData } from "./types";
-import { getOffset } from "./utils/timeline";
+import type { GanttCalendar, GanttFeature, Range, TimelineData } from "./types";
+import { createInitialTimelineData, getOffset } from "./utils/timeline";
 
 export {
   GanttAddFeatureHelper,
@@ -19,22 +19,36 @@ export {
   type GanttColumnsProps,
 } from "./components/columns";
 export {
+  DEPENDENCY_COLORS,
+  DEPENDENCY_TYPE_LABELS,
   GanttDependencyLayer,
   type GanttDependencyLayerProps,
 } from "./components/dependencies";
 export {
+  GanttConstraintGlyph,
+  type GanttConstraintGlyphProps,
   GanttFeatureDragHelper,
   type GanttFeatureDragHelperProps,
   GanttFeatureItem,
   GanttFeatureItemCard,
   type GanttFeatureItemCardProps,
   type GanttFeatureItemProps,
+  GanttFeatureLinkHandle,
+  type GanttFeatureLinkHandleProps,
   GanttFeatureList,
   GanttFeatureListGroup,
   type GanttFeatureListGroupProps,
   type GanttFeatureListProps,
+  GanttFeatureProgressHelper,
+  type GanttFeatureProgressHelperProps,
   GanttFeatureRow,
   type GanttFeatureRowProps,
+  GanttForecastWhisker,
+  type GanttForecastWhiskerProps,
+  GanttMilestoneDiamond,
+  type GanttMilestoneDiamondProps,
+  GanttSummaryBar,
+  type GanttSummaryBarProps,
 } from "./components/features";
 // Re-export components
 export {
@@ -63,54 +77,102 @@ export { GanttTimeline, type GanttTimelineProps } from "./components/timeline";
 // Re-export store hooks
 export {
   type SidebarColumns,
+  useCollapsedFeatures,
   useFeaturePositions,
   useGanttDragging,
   useGanttScrollX,
+  useLinkDraft,
   useSidebarColumns,
 } from "./store";
 // Re-export types
 export type {
   FeaturePosition,
+  GanttCalendar,
+  GanttConstraintType,
   GanttContextProps,
   GanttDependency,
+  GanttDependencyChanges,
   GanttDependencyType,
   GanttFeature,
+  GanttFeatureKind,
+  GanttLagUnit,
+  GanttLinkDraft,
+  GanttLinkEnd,
   GanttMarkerProps,
   GanttStatus,
   Range,
   TimelineData,
 } from "./types";
 // Re-export utilities
-export { autoSchedule, recalculateSchedule } from "./utils/auto-schedule";
-
-const createInitialTimelineData = (today: Date) => {
-  const data: TimelineData = [];
-
-  data.push(
-    { year: today.getFullYear() - 1, quarters: new Array(4).fill(null) },
-    { year: today.getFullYear(), quarters: new Array(4).fill(null) },
-    { year: today.getFullYear() + 1, quarters: new Array(4).fill(null) }
-  );
-
-  for (const yearObj of data) {
-    yearObj.quarters = new Array(4).fill(null).map((_, quarterIndex) => ({
-      // biome-ignore lint: monthInQuarter is a descriptive local variable that doesn't actually shadow
-      months: new Array(3).fill(null).map((_, monthInQuarter) => {
-        const monthNum = quarterIndex * 3 + monthInQuarter;
-        return {
-          days: getDaysInMonth(new Date(yearObj.year, monthNum, 1)),
-        };
-      }),
-    }));
-  }
-
-  return data;
-};
+export {
+  autoSchedule,
+  type ConstraintViolation,
+  type FeatureUpdate,
+  findConstraintViolations,
+  recalculateSchedule,
+  resolveFeatureDates,
+  type ScheduleBinding,
+  type ScheduleOptions,
+} from "./utils/auto-schedule";
+export {
+  type BackwardScheduleTarget,
+  scheduleBackward,
+} from "./utils/backward-schedule";
+export {
+  addWorkingDays,
+  differenceInWorkingDays,
+  isWorkingDay,
+} from "./utils/calendar";
+export {
+  CONSTRAINT_LABELS,
+  formatConstraint,
+  getConstraintDate,
+} from "./utils/constraints";
+export {
+  type CriticalPathEntry,
+  type CriticalPathResult,
+  calculateCriticalPath,
+} from "./utils/critical-path";
+export {
+  findCycleForNewDependency,
+  findDependencyCycles,
+} from "./utils/graph";
+export {
+  buildFeatureTree,
+  flattenFeatureTree,
+  type GanttTreeNode,
+  type GanttTreeRow,
+  getSchedulingGraph,
+  getSourceDependencyId,
+  isDescendantOf,
+  rollupParentFeatures,
+} from "./utils/hierarchy";
+export {
+  createSeededRandom,
+  type FinishForecast,
+  type GroupForecast,
+  type SimulationOptions,
+  type SimulationResult,
+  simulateSchedule,
+} from "./utils/monte-carlo";
+export {
+  getExpectedProgress,
+  getRollupProgress,
+  isBehindSchedule,
+} from "./utils/progress";
+export { levelResources } from "./utils/resource-leveling";
+export {
+  describeScheduleTrace,
+  type ScheduleTraceStep,
+  traceScheduleChange,
+} from "./utils/schedule-trace";
 
 export type GanttProviderProps = {
   range?: Range;
   zoom?: number;
-  onAddItem?: (date: Date) => void;
+  onAddItem?: (date: Date, row: number) => void;
+  calendar?: GanttCalendar;
+  today?: Date;
   children: ReactNode;
   className?: string;
 };
@@ -119,12 +181,14 @@ export const GanttProvider: FC<GanttProviderProps> = ({
   zoom = 100,
   range = "monthly",
   onAddItem,
+  calendar,
+  today,
   children,
   className,
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
-  const [timelineData, setTimelineData] = useState<TimelineData>(
-    createInitialTimelineData(new Date())
+  const [timelineData, setTimelineData] = useState<TimelineData>(() =>
+    createInitialTimelineData(new Date(), range)
   );
   const [, setScrollX] = useGanttScrollX();
   const [sidebarWidth, setSidebarWidth] = useState(0);
@@ -133,7 +197,9 @@ export const GanttProvider: FC<GanttProviderProps> = ({
   const rowHeight = 36;
   let columnWidth = 50;
 
-  if (range === "weekly") {
+  if (range === "hourly") {
+    columnWidth = 40;
+  } else if (range === "weekly") {
     columnWidth = 80;
   } else if (range === "monthly") {
     columnWidth = 150;
@@ -155,6 +221,14 @@ export const GanttProvider: FC<GanttProviderProps> = ({
     [zoom, columnWidth, sidebarWidth]
   );
 
+  // Switching in or out of the hourly range changes how many years load
+  const hourly = range === "hourly";
+  useEffect(() => {
+    setTimelineData(
+      createInitialTimelineData(new Date(), hourly ? "hourly" : undefined)
+    );
+  }, [hourly]);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollLeft =
@@ -314,6 +388,8 @@ export const GanttProvider: FC<GanttProviderProps> = ({
         placeholderLength: 2,
         ref: scrollRef,
         scrollToFeature,
+        calendar,
+        today,
       }}
     >
       <div
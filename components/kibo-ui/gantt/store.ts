@@ -1,5 +1,5 @@
 import { atom, useAtom } from "jotai";
-import type { FeaturePosition } from "./types";
+import type { FeaturePosition, GanttLinkDraft } from "./types";
 
 export const draggingAtom = atom(false);
 export const scrollXAtom = atom(0);
@@ -7,6 +7,12 @@ export const featurePositionsAtom = atom<Map<string, FeaturePosition>>(
   new Map()
 );
 
+// Dependency link being dragged between bars, drawn as a rubber band
+export const linkDraftAtom = atom<GanttLinkDraft | null>(null);
+
+// Parent features whose children are hidden in the sidebar and timeline
+export const collapsedFeaturesAtom = atom<Set<string>>(new Set<string>());
+
 export type SidebarColumns = {
   name: boolean;
   status: boolean;
@@ -15,6 +21,9 @@ export type SidebarColumns = {
   successors: boolean;
   predecessors: boolean;
   deps: boolean;
+  float: boolean;
+  startVariance: boolean;
+  finishVariance: boolean;
 };
 
 export const sidebarColumnsAtom = atom<SidebarColumns>({
@@ -25,6 +34,10 @@ export const sidebarColumnsAtom = atom<SidebarColumns>({
   successors: true,
   predecessors: true,
   deps: true,
+  float: true,
+  // Variance columns only make sense once a baseline is chosen
+  startVariance: false,
+  finishVariance: false,
 });
 
 export const COLUMN_WIDTHS = {
@@ -35,9 +48,14 @@ export const COLUMN_WIDTHS = {
   successors: 80,
   predecessors: 80,
   deps: 80,
+  float: 60,
+  startVariance: 60,
+  finishVariance: 60,
 } as const;
 
 export const useGanttDragging = () => useAtom(draggingAtom);
 export const useGanttScrollX = () => useAtom(scrollXAtom);
 export const useFeaturePositions = () => useAtom(featurePositionsAtom);
 export const useSidebarColumns = () => useAtom(sidebarColumnsAtom);
+export const useCollapsedFeatures = () => useAtom(collapsedFeaturesAtom);
+export const useLinkDraft = () => useAtom(linkDraftAtom);
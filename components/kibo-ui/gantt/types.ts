@@ -6,6 +6,10 @@ export type GanttStatus = {
   color: string;
 };
 
+export type GanttConstraintType = "SNET" | "FNLT" | "MSO" | "DEADLINE";
+
+export type GanttFeatureKind = "task" | "milestone";
+
 export type GanttFeature = {
   id: string;
   name: string;
@@ -13,6 +17,21 @@ export type GanttFeature = {
   endAt: Date;
   status: GanttStatus;
   lane?: string;
+  // Milestones have no duration (startAt equals endAt) and render as diamonds
+  kind?: GanttFeatureKind;
+  // Parent in the work breakdown; a parent's dates are derived from its children
+  parentId?: string | null;
+  // Resource used by leveling: features with the same owner must not overlap
+  ownerId?: string | null;
+  constraintType?: GanttConstraintType | null;
+  // Constraint date formatted as "yyyy-MM-dd"
+  constraintDate?: string | null;
+  // Three-point duration estimate in days, used by the risk simulation
+  optimisticDuration?: number | null;
+  mostLikelyDuration?: number | null;
+  pessimisticDuration?: number | null;
+  // Share of the work done, 0-100
+  percentComplete?: number;
 };
 
 export type GanttMarkerProps = {
@@ -23,12 +42,45 @@ export type GanttMarkerProps = {
 
 export type GanttDependencyType = "FS" | "SS" | "FF" | "SF";
 
+export type GanttLagUnit = "calendar" | "working";
+
+// End of a bar a dependency link is drawn from or to
+export type GanttLinkEnd = "start" | "end";
+
+// Link being dragged out of a bar; x and y follow the pointer in timeline
+// coordinates (the same space as FeaturePosition)
+export type GanttLinkDraft = {
+  sourceId: string;
+  sourceEnd: GanttLinkEnd;
+  x: number;
+  y: number;
+};
+
 export type GanttDependency = {
   id: string;
   sourceId: string;
   targetId: string;
   type: GanttDependencyType;
   color?: string;
+  // Signed lag in days (positive = delay, negative = lead)
+  lag?: number;
+  lagUnit?: GanttLagUnit;
+};
+
+// Editable parts of a dependency; a null color resets it to the default
+export type GanttDependencyChanges = Partial<
+  Pick<GanttDependency, "type" | "lag" | "lagUnit">
+> & {
+  color?: string | null;
+};
+
+export type GanttCalendar = {
+  id: string;
+  name: string;
+  // Working weekdays using Date#getDay numbering (0 = Sunday ... 6 = Saturday)
+  workingDays: number[];
+  // Non-working dates formatted as "yyyy-MM-dd"
+  holidays: string[];
 };
 
 export type FeaturePosition = {
@@ -39,7 +91,13 @@ export type FeaturePosition = {
   height: number;
 };
 
-export type Range = "daily" | "weekly" | "monthly" | "quarterly" | "yearly";
+export type Range =
+  | "hourly"
+  | "daily"
+  | "weekly"
+  | "monthly"
+  | "quarterly"
+  | "yearly";
 
 export type TimelineData = {
   year: number;
@@ -57,11 +115,17 @@ export type GanttContextProps = {
   sidebarWidth: number;
   headerHeight: number;
   rowHeight: number;
-  onAddItem: ((date: Date) => void) | undefined;
+  // Called with the clicked date and the row under the pointer, counted from
+  // the top of the feature list in row heights (section headers included)
+  onAddItem: ((date: Date, row: number) => void) | undefined;
   placeholderLength: number;
   timelineData: TimelineData;
   ref: RefObject<HTMLDivElement | null> | null;
   scrollToFeature?: (feature: GanttFeature) => void;
+  calendar?: GanttCalendar;
+  // The current date and time in the chart's time zone, for the today line
+  // and behind-schedule checks; the browser's clock when not given
+  today?: Date;
 };
 
 // Dependency arrow types
@@ -1,301 +1,416 @@
-import { addDays, differenceInDays } from "date-fns";
-import type { GanttDependency, GanttFeature } from "../types";
-
-type FeatureUpdate = {
+import { addDays } from "date-fns";
+import type {
+  GanttCalendar,
+  GanttConstraintType,
+  GanttDependency,
+  GanttFeature,
+} from "../types";
+import {
+  addDuration,
+  addWorkingDays,
+  getDuration,
+  snapToWorkingDay,
+} from "./calendar";
+import { getConstrainedStart, getConstraintDate } from "./constraints";
+import {
+  buildDependencyGraph,
+  buildReverseDependencyGraph,
+  sortTopologically,
+} from "./graph";
+
+// What determined a feature's scheduled dates
+export type ScheduleBinding =
+  | { type: "dependency"; dependency: GanttDependency }
+  | { type: "constraint"; constraintType: GanttConstraintType; date: Date }
+  // Delayed until another feature with the same owner finishes
+  | { type: "resource"; featureId: string }
+  // Backward scheduling: finishes in time for a successor or the target date
+  | { type: "successor"; dependency: GanttDependency }
+  | { type: "target"; date: Date };
+
+export type FeatureUpdate = {
   id: string;
   startAt: Date;
   endAt: Date;
+  // Why the scheduler placed the feature here (absent for a user's own move)
+  binding?: ScheduleBinding;
+};
+
+export type ConstraintViolation = {
+  featureId: string;
+  type: GanttConstraintType;
+  date: Date;
+  message: string;
+};
+
+export type ScheduleOptions = {
+  // Working calendar for duration math; calendar days are used when omitted
+  calendar?: GanttCalendar;
 };
 
-// Build dependency graph for efficient traversal
-function buildDependencyGraph(
-  dependencies: GanttDependency[]
-): Map<string, GanttDependency[]> {
-  const graph = new Map<string, GanttDependency[]>();
-  for (const dep of dependencies) {
-    const existing = graph.get(dep.sourceId) || [];
-    existing.push(dep);
-    graph.set(dep.sourceId, existing);
+// Shift a dependency anchor date by the dependency's lag (or lead if negative)
+export function applyLag(
+  date: Date,
+  dep: GanttDependency,
+  calendar: GanttCalendar | undefined
+): Date {
+  const lag = dep.lag ?? 0;
+  if (lag === 0) {
+    return date;
   }
-  return graph;
+  return dep.lagUnit === "working"
+    ? addWorkingDays(date, lag, calendar)
+    : addDays(date, lag);
 }
 
-// Calculate new dates for target feature based on dependency type
-function calculateTargetDates(
-  source: GanttFeature,
-  target: GanttFeature,
-  depType: GanttDependency["type"]
+// Place a feature so it starts at the given date, keeping its duration
+function placeFromStart(
+  startAt: Date,
+  duration: number,
+  calendar: GanttCalendar | undefined
 ): { startAt: Date; endAt: Date } {
-  const duration = differenceInDays(target.endAt, target.startAt);
+  const workingStart = calendar ? snapToWorkingDay(startAt, calendar) : startAt;
+  return {
+    startAt: workingStart,
+    endAt: addDuration(workingStart, duration, calendar),
+  };
+}
+
+// Place a feature so it finishes at the given date, keeping its duration
+function placeFromEnd(
+  endAt: Date,
+  duration: number,
+  calendar: GanttCalendar | undefined
+): { startAt: Date; endAt: Date } {
+  return { startAt: addDuration(endAt, -duration, calendar), endAt };
+}
 
-  switch (depType) {
+// Calculate new dates for target feature based on dependency type and lag
+export function calculateTargetDates(
+  source: GanttFeature,
+  duration: number,
+  dep: GanttDependency,
+  calendar: GanttCalendar | undefined
+): { startAt: Date; endAt: Date } {
+  switch (dep.type) {
     case "FS": // Target starts when source finishes
-      return {
-        startAt: source.endAt,
-        endAt: addDays(source.endAt, duration),
-      };
+      return placeFromStart(
+        applyLag(source.endAt, dep, calendar),
+        duration,
+        calendar
+      );
     case "SS": // Target starts when source starts
-      return {
-        startAt: source.startAt,
-        endAt: addDays(source.startAt, duration),
-      };
+      return placeFromStart(
+        applyLag(source.startAt, dep, calendar),
+        duration,
+        calendar
+      );
     case "FF": // Target finishes when source finishes
-      return {
-        startAt: addDays(source.endAt, -duration),
-        endAt: source.endAt,
-      };
+      return placeFromEnd(
+        applyLag(source.endAt, dep, calendar),
+        duration,
+        calendar
+      );
     case "SF": // Target finishes when source starts
-      return {
-        startAt: addDays(source.startAt, -duration),
-        endAt: source.startAt,
-      };
+      return placeFromEnd(
+        applyLag(source.startAt, dep, calendar),
+        duration,
+        calendar
+      );
     default:
-      throw new Error(`Unknown dependency type: ${depType satisfies never}`);
+      throw new Error(`Unknown dependency type: ${dep.type satisfies never}`);
   }
 }
 
-// Update a feature with new dates and add to updates
-function updateFeatureDates(
+type Dates = { startAt: Date; endAt: Date };
+
+// Whether placement a is later than b (by start, then by finish)
+const isLater = (a: Dates, b: Dates): boolean =>
+  a.startAt.getTime() > b.startAt.getTime() ||
+  (a.startAt.getTime() === b.startAt.getTime() &&
+    a.endAt.getTime() > b.endAt.getTime());
+
+const isSameDates = (a: Dates, b: Dates): boolean =>
+  a.startAt.getTime() === b.startAt.getTime() &&
+  a.endAt.getTime() === b.endAt.getTime();
+
+// Latest placement required by any predecessor, and the dependency behind it
+function findBindingDependency(
   feature: GanttFeature,
-  newDates: { startAt: Date; endAt: Date },
-  updates: FeatureUpdate[]
-): void {
-  feature.startAt = newDates.startAt;
-  feature.endAt = newDates.endAt;
-  updates.push({ id: feature.id, ...newDates });
-}
+  incomingDeps: GanttDependency[],
+  scheduled: Map<string, GanttFeature>,
+  calendar: GanttCalendar | undefined
+): { dates: Dates; dependency: GanttDependency } | null {
+  const duration = getDuration(feature.startAt, feature.endAt, calendar);
+  let binding: { dates: Dates; dependency: GanttDependency } | null = null;
 
-// Process a single dependency and update target if needed
-function processDependency(
-  dep: GanttDependency,
-  source: GanttFeature,
-  target: GanttFeature,
-  context: { updates: FeatureUpdate[]; queue: string[] }
-): void {
-  const calculatedDates = calculateTargetDates(source, target, dep.type);
+  for (const dep of incomingDeps) {
+    const source = scheduled.get(dep.sourceId);
+    if (!source) {
+      continue;
+    }
+    const dates = calculateTargetDates(source, duration, dep, calendar);
+    if (!binding || isLater(dates, binding.dates)) {
+      binding = { dates, dependency: dep };
+    }
+  }
+
+  return binding;
+}
 
-  // Only update if dates actually changed
+/**
+ * Resolve where a feature belongs given all of its predecessors.
+ * Every FS/SS/FF/SF dependency yields a placement that keeps the feature's
+ * duration; the latest of them satisfies all, and the feature's own
+ * constraint is applied on top. Features without predecessors or
+ * constraints keep their dates.
+ *
+ * @param feature - Feature to place
+ * @param incomingDeps - Dependencies pointing at the feature
+ * @param scheduled - Features by ID holding their already-scheduled dates
+ * @param calendar - Working calendar for duration math
+ * @returns The new dates and what bound them (absent when nothing did)
+ */
+export function resolveFeatureDates(
+  feature: GanttFeature,
+  incomingDeps: GanttDependency[],
+  scheduled: Map<string, GanttFeature>,
+  calendar: GanttCalendar | undefined
+): { dates: Dates; binding?: ScheduleBinding } {
+  const fromDependencies = findBindingDependency(
+    feature,
+    incomingDeps,
+    scheduled,
+    calendar
+  );
+  const earliestStart = fromDependencies?.dates.startAt ?? null;
+  const startAt = getConstrainedStart(feature, earliestStart, calendar);
+  const constraintDate = getConstraintDate(feature);
+
+  if (fromDependencies && startAt.getTime() === earliestStart?.getTime()) {
+    return {
+      dates: fromDependencies.dates,
+      binding: { type: "dependency", dependency: fromDependencies.dependency },
+    };
+  }
   if (
-    target.startAt.getTime() !== calculatedDates.startAt.getTime() ||
-    target.endAt.getTime() !== calculatedDates.endAt.getTime()
+    feature.constraintType &&
+    constraintDate &&
+    startAt.getTime() !== feature.startAt.getTime()
   ) {
-    updateFeatureDates(target, calculatedDates, context.updates);
-    context.queue.push(dep.targetId);
+    const duration = getDuration(feature.startAt, feature.endAt, calendar);
+    return {
+      dates: { startAt, endAt: addDuration(startAt, duration, calendar) },
+      binding: {
+        type: "constraint",
+        constraintType: feature.constraintType,
+        date: constraintDate,
+      },
+    };
+  }
+  return { dates: { startAt: feature.startAt, endAt: feature.endAt } };
+}
+
+// Reschedule one feature in place, recording an update when its dates change
+function rescheduleFeature(
+  feature: GanttFeature,
+  incomingDeps: GanttDependency[],
+  featuresMap: Map<string, GanttFeature>,
+  context: { updates: FeatureUpdate[]; calendar: GanttCalendar | undefined }
+): void {
+  const { dates, binding } = resolveFeatureDates(
+    feature,
+    incomingDeps,
+    featuresMap,
+    context.calendar
+  );
+  if (isSameDates(dates, feature)) {
+    return;
+  }
+  feature.startAt = dates.startAt;
+  feature.endAt = dates.endAt;
+  context.updates.push({ id: feature.id, ...dates, binding });
+}
+
+// All features reachable downstream of a feature through its successors
+function collectDownstream(
+  featureId: string,
+  depGraph: Map<string, GanttDependency[]>
+): Set<string> {
+  const downstream = new Set<string>();
+  const queue = [featureId];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift();
+    if (!currentId || downstream.has(currentId)) {
+      continue;
+    }
+    downstream.add(currentId);
+    for (const dep of depGraph.get(currentId) || []) {
+      queue.push(dep.targetId);
+    }
   }
+
+  return downstream;
 }
 
 /**
  * Auto-schedule dependent features when a feature is moved.
- * Uses BFS to propagate changes downstream through the dependency graph.
+ * Every feature downstream of the moved one is re-placed in topological
+ * order against all of its predecessors, so the latest one always wins
+ * regardless of dependency type.
  *
- * @param movedFeatureId - ID of the feature that was moved
- * @param newDates - New start and end dates for the moved feature
+ * @param moved - ID and new start and end dates of the feature that was moved
  * @param features - Array of all features
  * @param dependencies - Array of all dependencies
- * @returns Array of feature updates to apply
+ * @param options - Scheduling options such as the working calendar
+ * @returns Array of feature updates to apply, each explaining its binding
  */
 export function autoSchedule(
-  movedFeatureId: string,
-  newDates: { startAt: Date; endAt: Date },
+  moved: FeatureUpdate,
   features: GanttFeature[],
-  dependencies: GanttDependency[]
+  dependencies: GanttDependency[],
+  options: ScheduleOptions = {}
 ): FeatureUpdate[] {
   const updates: FeatureUpdate[] = [];
   const featuresMap = new Map(features.map((f) => [f.id, { ...f }]));
-  const depGraph = buildDependencyGraph(dependencies);
+  const reverseGraph = buildReverseDependencyGraph(dependencies);
 
   // Update the moved feature first
-  const movedFeature = featuresMap.get(movedFeatureId);
+  const movedFeature = featuresMap.get(moved.id);
   if (movedFeature) {
-    updateFeatureDates(movedFeature, newDates, updates);
+    movedFeature.startAt = moved.startAt;
+    movedFeature.endAt = moved.endAt;
+    updates.push({ id: moved.id, startAt: moved.startAt, endAt: moved.endAt });
   }
 
-  // BFS to propagate changes to all dependents
-  const queue: string[] = [movedFeatureId];
-  const visited = new Set<string>();
+  const downstream = collectDownstream(
+    moved.id,
+    buildDependencyGraph(dependencies)
+  );
+  const { order } = sortTopologically(features, dependencies);
 
-  while (queue.length > 0) {
-    const currentId = queue.shift();
-    if (!currentId || visited.has(currentId)) {
+  for (const featureId of order) {
+    const feature = featuresMap.get(featureId);
+    if (!feature || featureId === moved.id || !downstream.has(featureId)) {
       continue;
     }
-    visited.add(currentId);
-
-    const source = featuresMap.get(currentId);
-    const outgoingDeps = depGraph.get(currentId) || [];
-
-    for (const dep of outgoingDeps) {
-      const target = featuresMap.get(dep.targetId);
-      if (source && target) {
-        processDependency(dep, source, target, { updates, queue });
-      }
-    }
+    rescheduleFeature(feature, reverseGraph.get(featureId) || [], featuresMap, {
+      updates,
+      calendar: options.calendar,
+    });
   }
 
   return updates;
 }
 
-// Build reverse dependency graph (target -> sources that depend on it)
-function buildReverseDependencyGraph(
-  dependencies: GanttDependency[]
-): Map<string, GanttDependency[]> {
-  const graph = new Map<string, GanttDependency[]>();
-  for (const dep of dependencies) {
-    const existing = graph.get(dep.targetId) || [];
-    existing.push(dep);
-    graph.set(dep.targetId, existing);
-  }
-  return graph;
-}
-
-// Topological sort to get processing order
-function topologicalSort(
+/**
+ * Recalculate the entire schedule based on dependencies.
+ * Processes features in topological order, placing each at the latest dates
+ * its predecessors allow, then applies each feature's own scheduling
+ * constraint. Features caught in a dependency cycle have no valid order and
+ * are left untouched (use findDependencyCycles to report them).
+ *
+ * @param features - Array of all features
+ * @param dependencies - Array of all dependencies
+ * @param options - Scheduling options such as the working calendar
+ * @returns Array of feature updates to apply, each explaining its binding
+ */
+export function recalculateSchedule(
   features: GanttFeature[],
-  dependencies: GanttDependency[]
-): string[] {
-  const depGraph = buildDependencyGraph(dependencies);
-  const visited = new Set<string>();
-  const result: string[] = [];
-
-  // Find root features (those with no predecessors)
-  const hasIncoming = new Set(dependencies.map((d) => d.targetId));
-  const roots = features.filter((f) => !hasIncoming.has(f.id)).map((f) => f.id);
-
-  // DFS from each root
-  const visit = (id: string) => {
-    if (visited.has(id)) {
-      return;
-    }
-    visited.add(id);
-    result.push(id);
-
-    // Visit all features that depend on this one
-    const outgoing = depGraph.get(id) || [];
-    for (const dep of outgoing) {
-      visit(dep.targetId);
-    }
-  };
-
-  // Start from roots
-  for (const root of roots) {
-    visit(root);
-  }
-
-  // Add any remaining features (in case of cycles or disconnected)
-  for (const feature of features) {
-    if (!visited.has(feature.id)) {
-      visit(feature.id);
-    }
-  }
-
-  return result;
-}
-
-// Calculate constraint start date for a single dependency
-function getConstraintStart(
-  source: GanttFeature,
-  targetDuration: number,
-  depType: GanttDependency["type"]
-): Date {
-  switch (depType) {
-    case "FS":
-      return source.endAt;
-    case "SS":
-      return source.startAt;
-    case "FF":
-      return addDays(source.endAt, -targetDuration);
-    case "SF":
-      return addDays(source.startAt, -targetDuration);
-    default:
-      throw new Error(`Unknown dependency type: ${depType satisfies never}`);
-  }
-}
-
-// Find most restrictive constraint start from all dependencies
-function findConstraintStart(
-  feature: GanttFeature,
-  incomingDeps: GanttDependency[],
-  featuresMap: Map<string, GanttFeature>
-): Date | null {
-  const duration = differenceInDays(feature.endAt, feature.startAt);
-  let constraintStart: Date | null = null;
-
-  for (const dep of incomingDeps) {
-    const source = featuresMap.get(dep.sourceId);
-    if (!source) {
-      continue;
-    }
-
-    const minStart = getConstraintStart(source, duration, dep.type);
+  dependencies: GanttDependency[],
+  options: ScheduleOptions = {}
+): FeatureUpdate[] {
+  const updates: FeatureUpdate[] = [];
+  const featuresMap = new Map(features.map((f) => [f.id, { ...f }]));
+  const reverseGraph = buildReverseDependencyGraph(dependencies);
+  const { order } = sortTopologically(features, dependencies);
 
-    if (!constraintStart || minStart > constraintStart) {
-      constraintStart = minStart;
+  for (const featureId of order) {
+    const feature = featuresMap.get(featureId);
+    if (feature) {
+      rescheduleFeature(
+        feature,
+        reverseGraph.get(featureId) || [],
+        featuresMap,
+        { updates, calendar: options.calendar }
+      );
     }
   }
 
-  return constraintStart;
+  return updates;
 }
 
-// Apply constraint to feature and return update if changed
-function applyConstraint(
+// Check a single feature's dates against its own constraint
+function checkConstraint(
   feature: GanttFeature,
-  constraintStart: Date,
-  featureId: string
-): FeatureUpdate | null {
-  const duration = differenceInDays(feature.endAt, feature.startAt);
-  const newEndAt = addDays(constraintStart, duration);
-
-  if (feature.startAt.getTime() !== constraintStart.getTime()) {
-    feature.startAt = constraintStart;
-    feature.endAt = newEndAt;
-    return { id: featureId, startAt: constraintStart, endAt: newEndAt };
+  date: Date,
+  earliestStart: Date | null
+): string | null {
+  switch (feature.constraintType) {
+    case "SNET":
+      return feature.startAt < date
+        ? "Starts before its start-no-earlier-than date"
+        : null;
+    case "MSO":
+      if (feature.startAt.getTime() !== date.getTime()) {
+        return "Does not start on its must-start-on date";
+      }
+      return earliestStart && earliestStart > date
+        ? "Predecessors require a start after its must-start-on date"
+        : null;
+    case "FNLT":
+      return feature.endAt > date
+        ? "Finishes after its finish-no-later-than date"
+        : null;
+    case "DEADLINE":
+      return feature.endAt > date ? "Misses its deadline" : null;
+    default:
+      return null;
   }
-
-  return null;
 }
 
 /**
- * Recalculate the entire schedule based on dependencies.
- * Processes features in topological order, adjusting dates based on predecessors.
- * Snaps all dependent features to start exactly when their predecessors allow.
+ * Find features whose dates break their scheduling constraint.
+ * The schedulers never move a bar to satisfy a constraint that conflicts with
+ * its dependencies, so conflicts are reported here as warnings instead.
  *
- * @param features - Array of all features
+ * @param features - Array of all features (with their current dates)
  * @param dependencies - Array of all dependencies
- * @returns Array of feature updates to apply
+ * @param options - Scheduling options such as the working calendar
+ * @returns One violation per feature that breaks its constraint
  */
-export function recalculateSchedule(
+export function findConstraintViolations(
   features: GanttFeature[],
-  dependencies: GanttDependency[]
-): FeatureUpdate[] {
-  const updates: FeatureUpdate[] = [];
-  const featuresMap = new Map(features.map((f) => [f.id, { ...f }]));
+  dependencies: GanttDependency[],
+  options: ScheduleOptions = {}
+): ConstraintViolation[] {
+  const featuresMap = new Map(features.map((f) => [f.id, f]));
   const reverseGraph = buildReverseDependencyGraph(dependencies);
-  const order = topologicalSort(features, dependencies);
+  const violations: ConstraintViolation[] = [];
 
-  for (const featureId of order) {
-    const feature = featuresMap.get(featureId);
-    if (!feature) {
-      continue;
-    }
-
-    const incomingDeps = reverseGraph.get(featureId) || [];
-    if (incomingDeps.length === 0) {
+  for (const feature of features) {
+    const date = getConstraintDate(feature);
+    if (!(feature.constraintType && date)) {
       continue;
     }
-
-    const constraintStart = findConstraintStart(
-      feature,
-      incomingDeps,
-      featuresMap
-    );
-
-    if (constraintStart) {
-      const update = applyConstraint(feature, constraintStart, featureId);
-      if (update) {
-        updates.push(update);
-      }
+    const earliestStart =
+      findBindingDependency(
+        feature,
+        reverseGraph.get(feature.id) || [],
+        featuresMap,
+        options.calendar
+      )?.dates.startAt ?? null;
+    const message = checkConstraint(feature, date, earliestStart);
+    if (message) {
+      violations.push({
+        featureId: feature.id,
+        type: feature.constraintType,
+        date,
+        message,
+      });
     }
   }
 
-  return updates;
+  return violations;
 }
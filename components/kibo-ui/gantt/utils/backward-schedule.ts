@@ -0,0 +1,146 @@
+import type { GanttDependency, GanttFeature } from "../types";
+import type {
+  FeatureUpdate,
+  ScheduleBinding,
+  ScheduleOptions,
+} from "./auto-schedule";
+import { addDuration, getDuration } from "./calendar";
+import { getLatestFinishFor } from "./critical-path";
+import {
+  buildDependencyGraph,
+  buildReverseDependencyGraph,
+  sortTopologically,
+} from "./graph";
+
+export type BackwardScheduleTarget = {
+  // Features that must finish by the date (e.g. every feature in a release)
+  featureIds: string[];
+  finishAt: Date;
+};
+
+type Dates = { startAt: Date; endAt: Date };
+
+// Targets plus everything upstream of them, walking predecessors in reverse
+function collectUpstream(
+  featureIds: string[],
+  reverseGraph: Map<string, GanttDependency[]>
+): Set<string> {
+  const upstream = new Set<string>();
+  const queue = [...featureIds];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift();
+    if (!currentId || upstream.has(currentId)) {
+      continue;
+    }
+    upstream.add(currentId);
+    for (const dep of reverseGraph.get(currentId) || []) {
+      queue.push(dep.sourceId);
+    }
+  }
+
+  return upstream;
+}
+
+// Latest finish allowed by the target date and by every successor
+function findLatestFinish(
+  feature: GanttFeature,
+  outgoing: GanttDependency[],
+  late: Map<string, Dates>,
+  context: { target: BackwardScheduleTarget; options: ScheduleOptions }
+): { endAt: Date; binding?: ScheduleBinding } {
+  const { target, options } = context;
+  const duration = getDuration(
+    feature.startAt,
+    feature.endAt,
+    options.calendar
+  );
+  let latest: { endAt: Date; binding?: ScheduleBinding } | null =
+    target.featureIds.includes(feature.id)
+      ? {
+          endAt: target.finishAt,
+          binding: { type: "target", date: target.finishAt },
+        }
+      : null;
+
+  for (const dep of outgoing) {
+    const successor = late.get(dep.targetId);
+    if (!successor) {
+      continue;
+    }
+    const endAt = getLatestFinishFor(dep, duration, successor, options);
+    if (!latest || endAt < latest.endAt) {
+      latest = { endAt, binding: { type: "successor", dependency: dep } };
+    }
+  }
+
+  return latest ?? { endAt: feature.endAt };
+}
+
+/**
+ * Schedule backwards from a target finish date.
+ * The target features finish on the date, and every feature upstream of them
+ * (found by walking the reverse dependency graph) is placed at its latest
+ * start so that all of its successors can still start or finish on time.
+ * Successors outside the upstream set keep their current dates and still
+ * limit how late a feature may go. Features in a dependency cycle are left
+ * untouched.
+ *
+ * @param target - Features that must finish and the date they must finish by
+ * @param features - Array of all features
+ * @param dependencies - Array of all dependencies
+ * @param options - Scheduling options such as the working calendar
+ * @returns Array of feature updates to apply, each explaining its binding
+ */
+export function scheduleBackward(
+  target: BackwardScheduleTarget,
+  features: GanttFeature[],
+  dependencies: GanttDependency[],
+  options: ScheduleOptions = {}
+): FeatureUpdate[] {
+  const featuresMap = new Map(features.map((f) => [f.id, f]));
+  const depGraph = buildDependencyGraph(dependencies);
+  const upstream = collectUpstream(
+    target.featureIds,
+    buildReverseDependencyGraph(dependencies)
+  );
+  const { order } = sortTopologically(features, dependencies);
+
+  // Features outside the upstream set act as fixed successors
+  const late = new Map<string, Dates>(
+    features
+      .filter((f) => !upstream.has(f.id))
+      .map((f) => [f.id, { startAt: f.startAt, endAt: f.endAt }])
+  );
+  const updates: FeatureUpdate[] = [];
+
+  for (const id of [...order].reverse()) {
+    const feature = featuresMap.get(id);
+    if (!(feature && upstream.has(id))) {
+      continue;
+    }
+
+    const duration = getDuration(
+      feature.startAt,
+      feature.endAt,
+      options.calendar
+    );
+    const { endAt, binding } = findLatestFinish(
+      feature,
+      depGraph.get(id) || [],
+      late,
+      { target, options }
+    );
+    const startAt = addDuration(endAt, -duration, options.calendar);
+    late.set(id, { startAt, endAt });
+
+    if (
+      startAt.getTime() !== feature.startAt.getTime() ||
+      endAt.getTime() !== feature.endAt.getTime()
+    ) {
+      updates.push({ id, startAt, endAt, binding });
+    }
+  }
+
+  return updates;
+}
@@ -0,0 +1,150 @@
+import { addDays, addMilliseconds, differenceInDays, format } from "date-fns";
+import type { GanttCalendar } from "../types";
+
+// Monday to Friday, used when a working-day lag is scheduled without a calendar
+export const STANDARD_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+export const isWorkingDay = (
+  date: Date,
+  calendar: Pick<GanttCalendar, "workingDays" | "holidays"> | undefined
+): boolean => {
+  const workingDays = calendar?.workingDays ?? STANDARD_WORKING_DAYS;
+  if (!workingDays.includes(date.getDay())) {
+    return false;
+  }
+  return !calendar?.holidays.includes(format(date, "yyyy-MM-dd"));
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Guard against calendars without any working days looping forever
+const hasWorkingDays = (calendar: GanttCalendar | undefined): boolean =>
+  (calendar?.workingDays ?? STANDARD_WORKING_DAYS).length > 0;
+
+// Move a date forward to the first working day (unchanged if already working)
+export const snapToWorkingDay = (
+  date: Date,
+  calendar: GanttCalendar | undefined
+): Date => {
+  if (!hasWorkingDays(calendar)) {
+    return date;
+  }
+  let result = date;
+  while (!isWorkingDay(result, calendar)) {
+    result = addDays(result, 1);
+  }
+  return result;
+};
+
+/**
+ * Add a signed number of working days to a date.
+ * Moving forward, the result is the day after the last working day counted,
+ * so a 5-day task starting Friday ends the following Friday (Mon-Fri week).
+ * Moving backward counts working days before the date.
+ */
+export const addWorkingDays = (
+  date: Date,
+  amount: number,
+  calendar: GanttCalendar | undefined
+): Date => {
+  if (amount === 0 || !hasWorkingDays(calendar)) {
+    return date;
+  }
+
+  let result = date;
+  let remaining = Math.abs(amount);
+
+  if (amount > 0) {
+    while (remaining > 0) {
+      if (isWorkingDay(result, calendar)) {
+        remaining -= 1;
+      }
+      result = addDays(result, 1);
+    }
+    return result;
+  }
+
+  while (remaining > 0) {
+    result = addDays(result, -1);
+    if (isWorkingDay(result, calendar)) {
+      remaining -= 1;
+    }
+  }
+  return result;
+};
+
+// Count working days in [startAt, endAt), negative if endAt is before startAt
+export const differenceInWorkingDays = (
+  endAt: Date,
+  startAt: Date,
+  calendar: GanttCalendar | undefined
+): number => {
+  const days = differenceInDays(endAt, startAt);
+  const step = days < 0 ? -1 : 1;
+  let count = 0;
+
+  for (let i = 0; i !== days; i += step) {
+    const day = step > 0 ? addDays(startAt, i) : addDays(startAt, i - 1);
+    if (isWorkingDay(day, calendar)) {
+      count += step;
+    }
+  }
+
+  return count;
+};
+
+// Part of a day left over after the whole days between two dates, counted
+// only when that part falls on a working day
+const getDayFraction = (
+  endAt: Date,
+  startAt: Date,
+  calendar: GanttCalendar | undefined
+): number => {
+  const wholeDaysEnd = addDays(startAt, differenceInDays(endAt, startAt));
+  const remainder = endAt.getTime() - wholeDaysEnd.getTime();
+  if (remainder === 0) {
+    return 0;
+  }
+  const midpoint = new Date(wholeDaysEnd.getTime() + remainder / 2);
+  return !calendar || isWorkingDay(midpoint, calendar)
+    ? remainder / MS_PER_DAY
+    : 0;
+};
+
+/**
+ * Duration of a feature in days: working days with a calendar, calendar days
+ * otherwise. Time of day is kept as a fraction, so a task from 09:00 to 21:00
+ * lasts 0.5 days.
+ */
+export const getDuration = (
+  startAt: Date,
+  endAt: Date,
+  calendar: GanttCalendar | undefined
+): number =>
+  (calendar
+    ? differenceInWorkingDays(endAt, startAt, calendar)
+    : differenceInDays(endAt, startAt)) +
+  getDayFraction(endAt, startAt, calendar);
+
+/**
+ * Offset a date by a duration in the same unit as getDuration.
+ * Whole days are added first; a fraction that follows a move onto a
+ * non-working day starts on the next working day instead.
+ */
+export const addDuration = (
+  date: Date,
+  amount: number,
+  calendar: GanttCalendar | undefined
+): Date => {
+  const days = Math.trunc(amount);
+  const fraction = Math.round((amount - days) * MS_PER_DAY);
+  const shifted = calendar
+    ? addWorkingDays(date, days, calendar)
+    : addDays(date, days);
+  if (fraction === 0) {
+    return shifted;
+  }
+  const base =
+    calendar && fraction > 0 ? snapToWorkingDay(shifted, calendar) : shifted;
+  return addMilliseconds(base, fraction);
+};
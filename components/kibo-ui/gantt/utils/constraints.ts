@@ -0,0 +1,90 @@
+import { format, parseISO } from "date-fns";
+import type {
+  GanttCalendar,
+  GanttConstraintType,
+  GanttFeature,
+} from "../types";
+import { addDuration, getDuration } from "./calendar";
+
+export const CONSTRAINT_LABELS: Record<GanttConstraintType, string> = {
+  SNET: "Start no earlier than",
+  FNLT: "Finish no later than",
+  MSO: "Must start on",
+  DEADLINE: "Deadline",
+};
+
+// Parse a feature's constraint date, or null when it has no constraint
+export const getConstraintDate = (
+  feature: Pick<GanttFeature, "constraintType" | "constraintDate">
+): Date | null =>
+  feature.constraintType && feature.constraintDate
+    ? parseISO(feature.constraintDate)
+    : null;
+
+// Human readable constraint such as "Must start on Mar 3, 2025"
+export const formatConstraint = (
+  feature: Pick<GanttFeature, "constraintType" | "constraintDate">
+): string | null => {
+  const date = getConstraintDate(feature);
+  if (!(feature.constraintType && date)) {
+    return null;
+  }
+  return `${CONSTRAINT_LABELS[feature.constraintType]} ${format(date, "MMM d, yyyy")}`;
+};
+
+/**
+ * Resolve where a feature should start once its constraint is applied.
+ * Dependencies give the earliest start (or null when nothing drives the
+ * feature); SNET raises it, MSO pins it, and FNLT pulls an undriven feature
+ * back so it finishes in time. Deadlines never move a feature.
+ */
+export function getConstrainedStart(
+  feature: GanttFeature,
+  earliestStart: Date | null,
+  calendar: GanttCalendar | undefined
+): Date {
+  const start = earliestStart ?? feature.startAt;
+  const date = getConstraintDate(feature);
+  if (!date) {
+    return start;
+  }
+
+  switch (feature.constraintType) {
+    case "SNET":
+      return start < date ? date : start;
+    case "MSO":
+      return date;
+    case "FNLT": {
+      if (earliestStart) {
+        return start;
+      }
+      const duration = getDuration(feature.startAt, feature.endAt, calendar);
+      const latestStart = addDuration(date, -duration, calendar);
+      return start > latestStart ? latestStart : start;
+    }
+    default:
+      return start;
+  }
+}
+
+// Latest finish allowed by a feature's own constraint, used by the CPM backward pass
+export function getFinishLimit(
+  feature: GanttFeature,
+  duration: number,
+  calendar: GanttCalendar | undefined
+): Date | null {
+  const date = getConstraintDate(feature);
+  if (!date) {
+    return null;
+  }
+
+  switch (feature.constraintType) {
+    case "FNLT":
+    case "DEADLINE":
+      return date;
+    case "MSO":
+      return addDuration(date, duration, calendar);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,313 @@
+import type { GanttDependency, GanttFeature } from "../types";
+import {
+  applyLag,
+  calculateTargetDates,
+  resolveFeatureDates,
+  type ScheduleBinding,
+  type ScheduleOptions,
+} from "./auto-schedule";
+import { addDuration, getDuration } from "./calendar";
+import { getFinishLimit } from "./constraints";
+import {
+  buildDependencyGraph,
+  buildReverseDependencyGraph,
+  sortTopologically,
+} from "./graph";
+
+export type CriticalPathEntry = {
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  // Float in days (working days when a calendar is used)
+  totalFloat: number;
+  freeFloat: number;
+  critical: boolean;
+  // The predecessor or constraint that sets the early start, if any
+  binding?: ScheduleBinding;
+};
+
+export type CriticalPathResult = {
+  features: Map<string, CriticalPathEntry>;
+  // Dependencies that drive a critical feature with zero slack
+  criticalDependencyIds: Set<string>;
+  projectFinish: Date | null;
+};
+
+type Dates = { startAt: Date; endAt: Date };
+
+const minDate = (a: Date, b: Date): Date => (a < b ? a : b);
+const maxDate = (a: Date, b: Date): Date => (a > b ? a : b);
+
+// Shift a date backwards by a dependency's lag (the inverse of applyLag)
+const removeLag = (
+  date: Date,
+  dep: GanttDependency,
+  options: ScheduleOptions
+): Date => applyLag(date, { ...dep, lag: -(dep.lag ?? 0) }, options.calendar);
+
+// Forward pass: earliest dates each feature can start given its predecessors
+function forwardPass(
+  order: string[],
+  featuresMap: Map<string, GanttFeature>,
+  dependencies: GanttDependency[],
+  options: ScheduleOptions
+): { early: Map<string, Dates>; bindings: Map<string, ScheduleBinding> } {
+  const reverseGraph = buildReverseDependencyGraph(dependencies);
+  const scheduled = new Map<string, GanttFeature>();
+  const early = new Map<string, Dates>();
+  const bindings = new Map<string, ScheduleBinding>();
+
+  for (const id of order) {
+    const feature = featuresMap.get(id);
+    if (!feature) {
+      continue;
+    }
+    const { dates, binding } = resolveFeatureDates(
+      feature,
+      reverseGraph.get(id) || [],
+      scheduled,
+      options.calendar
+    );
+    scheduled.set(id, { ...feature, ...dates });
+    early.set(id, dates);
+    if (binding) {
+      bindings.set(id, binding);
+    }
+  }
+
+  return { early, bindings };
+}
+
+// Latest finish a predecessor may have without delaying one successor
+export function getLatestFinishFor(
+  dep: GanttDependency,
+  duration: number,
+  successorLate: Dates,
+  options: ScheduleOptions
+): Date {
+  switch (dep.type) {
+    case "FS":
+      return removeLag(successorLate.startAt, dep, options);
+    case "SS":
+      return addDuration(
+        removeLag(successorLate.startAt, dep, options),
+        duration,
+        options.calendar
+      );
+    case "FF":
+      return removeLag(successorLate.endAt, dep, options);
+    case "SF":
+      return addDuration(
+        removeLag(successorLate.endAt, dep, options),
+        duration,
+        options.calendar
+      );
+    default:
+      throw new Error(`Unknown dependency type: ${dep.type satisfies never}`);
+  }
+}
+
+// Backward pass: latest dates each feature can have without moving the finish
+// or breaking a finish constraint (which can leave negative float)
+function backwardPass(
+  order: string[],
+  early: Map<string, Dates>,
+  dependencies: GanttDependency[],
+  context: {
+    projectFinish: Date;
+    featuresMap: Map<string, GanttFeature>;
+    options: ScheduleOptions;
+  }
+): Map<string, Dates> {
+  const depGraph = buildDependencyGraph(dependencies);
+  const late = new Map<string, Dates>();
+  const { projectFinish, featuresMap, options } = context;
+
+  for (const id of [...order].reverse()) {
+    const dates = early.get(id);
+    if (!dates) {
+      continue;
+    }
+    const duration = getDuration(dates.startAt, dates.endAt, options.calendar);
+
+    const feature = featuresMap.get(id);
+    const finishLimit = feature
+      ? getFinishLimit(feature, duration, options.calendar)
+      : null;
+    let lateFinish = finishLimit
+      ? minDate(projectFinish, finishLimit)
+      : projectFinish;
+    for (const dep of depGraph.get(id) || []) {
+      const successorLate = late.get(dep.targetId);
+      if (successorLate) {
+        lateFinish = minDate(
+          lateFinish,
+          getLatestFinishFor(dep, duration, successorLate, options)
+        );
+      }
+    }
+
+    late.set(id, {
+      startAt: addDuration(lateFinish, -duration, options.calendar),
+      endAt: lateFinish,
+    });
+  }
+
+  return late;
+}
+
+// Whether a dependency's early dates leave no slack before its target
+function isDrivingDependency(
+  dep: GanttDependency,
+  source: GanttFeature,
+  early: Map<string, Dates>,
+  options: ScheduleOptions
+): boolean {
+  const sourceEarly = early.get(dep.sourceId);
+  const targetEarly = early.get(dep.targetId);
+  if (!(sourceEarly && targetEarly)) {
+    return false;
+  }
+  const required = calculateTargetDates(
+    { ...source, ...sourceEarly },
+    getDuration(targetEarly.startAt, targetEarly.endAt, options.calendar),
+    dep,
+    options.calendar
+  );
+  return required.startAt.getTime() === targetEarly.startAt.getTime();
+}
+
+// Free float: slack before the earliest successor (or the project end) moves
+function calculateFreeFloat(
+  feature: GanttFeature,
+  outgoing: GanttDependency[],
+  early: Map<string, Dates>,
+  context: { projectFinish: Date; options: ScheduleOptions }
+): number {
+  const { projectFinish, options } = context;
+  const featureEarly = early.get(feature.id);
+  if (!featureEarly) {
+    return 0;
+  }
+
+  let freeFloat = getDuration(
+    featureEarly.endAt,
+    projectFinish,
+    options.calendar
+  );
+  for (const dep of outgoing) {
+    const successor = early.get(dep.targetId);
+    if (!successor) {
+      continue;
+    }
+    const required = calculateTargetDates(
+      { ...feature, ...featureEarly },
+      getDuration(successor.startAt, successor.endAt, options.calendar),
+      dep,
+      options.calendar
+    );
+    freeFloat = Math.min(
+      freeFloat,
+      getDuration(required.startAt, successor.startAt, options.calendar)
+    );
+  }
+  return freeFloat;
+}
+
+/**
+ * Critical path analysis (CPM) over the dependency graph.
+ * Computes early/late start and finish plus total and free float for every
+ * feature. Features without predecessors keep their current start date unless
+ * their constraint moves them, finish constraints and deadlines cap the late
+ * dates (so a missed deadline shows up as negative float), and features caught
+ * in a dependency cycle are left out of the result.
+ *
+ * @param features - Array of all features
+ * @param dependencies - Array of all dependencies
+ * @param options - Scheduling options such as the working calendar
+ * @returns Per-feature CPM dates and floats plus the critical dependencies
+ */
+export function calculateCriticalPath(
+  features: GanttFeature[],
+  dependencies: GanttDependency[],
+  options: ScheduleOptions = {}
+): CriticalPathResult {
+  const featuresMap = new Map(features.map((f) => [f.id, f]));
+  const { order } = sortTopologically(features, dependencies);
+  const { early, bindings } = forwardPass(
+    order,
+    featuresMap,
+    dependencies,
+    options
+  );
+
+  let projectFinish: Date | null = null;
+  for (const dates of early.values()) {
+    projectFinish = projectFinish
+      ? maxDate(projectFinish, dates.endAt)
+      : dates.endAt;
+  }
+
+  const result: CriticalPathResult = {
+    features: new Map(),
+    criticalDependencyIds: new Set(),
+    projectFinish,
+  };
+  if (!projectFinish) {
+    return result;
+  }
+
+  const context = { projectFinish, options };
+  const late = backwardPass(order, early, dependencies, {
+    ...context,
+    featuresMap,
+  });
+  const depGraph = buildDependencyGraph(dependencies);
+
+  for (const id of order) {
+    const feature = featuresMap.get(id);
+    const earlyDates = early.get(id);
+    const lateDates = late.get(id);
+    if (!(feature && earlyDates && lateDates)) {
+      continue;
+    }
+
+    const totalFloat = getDuration(
+      earlyDates.startAt,
+      lateDates.startAt,
+      options.calendar
+    );
+
+    result.features.set(id, {
+      earlyStart: earlyDates.startAt,
+      earlyFinish: earlyDates.endAt,
+      lateStart: lateDates.startAt,
+      lateFinish: lateDates.endAt,
+      totalFloat,
+      freeFloat: calculateFreeFloat(
+        feature,
+        depGraph.get(id) || [],
+        early,
+        context
+      ),
+      critical: totalFloat <= 0,
+      binding: bindings.get(id),
+    });
+  }
+
+  // A dependency is critical when it links two critical features with no slack
+  for (const dep of dependencies) {
+    const source = featuresMap.get(dep.sourceId);
+    if (
+      source &&
+      result.features.get(dep.sourceId)?.critical &&
+      result.features.get(dep.targetId)?.critical &&
+      isDrivingDependency(dep, source, early, options)
+    ) {
+      result.criticalDependencyIds.add(dep.id);
+    }
+  }
+
+  return result;
+}
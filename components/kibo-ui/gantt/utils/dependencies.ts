@@ -2,6 +2,8 @@ import type {
   DependencyEndpoints,
   FeaturePosition,
   GanttDependency,
+  GanttDependencyType,
+  GanttLinkEnd,
   Obstacle,
   PathParams,
   SafeHorizontalYParams,
@@ -90,6 +92,18 @@ export const findSafeVerticalX = ({
   return baseX;
 };
 
+// Dependency type for a link drawn between two bar ends: the source end says
+// what the predecessor contributes (its start or finish) and the target end
+// what it constrains, e.g. finish → start is FS
+export const getLinkType = (
+  sourceEnd: GanttLinkEnd,
+  targetEnd: GanttLinkEnd
+): GanttDependencyType => {
+  const source = sourceEnd === "start" ? "S" : "F";
+  const target = targetEnd === "start" ? "S" : "F";
+  return `${source}${target}` as GanttDependencyType;
+};
+
 export const calculateDependencyEndpoints = (
   dependency: GanttDependency,
   featurePositions: Map<string, FeaturePosition>
@@ -139,6 +153,17 @@ export const calculateDependencyEndpoints = (
   };
 };
 
+// Format a dependency lag as a compact label, e.g. "+3d", "-2d" or "+5wd"
+export const formatLag = (dependency: GanttDependency): string | null => {
+  const lag = dependency.lag ?? 0;
+  if (lag === 0) {
+    return null;
+  }
+  const sign = lag > 0 ? "+" : "-";
+  const unit = dependency.lagUnit === "working" ? "wd" : "d";
+  return `${sign}${Math.abs(lag)}${unit}`;
+};
+
 type Point = { x: number; y: number };
 
 const EPSILON = 0.001;
@@ -0,0 +1,169 @@
+import type { GanttDependency, GanttFeature } from "../types";
+
+// Build dependency graph for efficient traversal (source -> outgoing deps)
+export function buildDependencyGraph(
+  dependencies: GanttDependency[]
+): Map<string, GanttDependency[]> {
+  const graph = new Map<string, GanttDependency[]>();
+  for (const dep of dependencies) {
+    const existing = graph.get(dep.sourceId) || [];
+    existing.push(dep);
+    graph.set(dep.sourceId, existing);
+  }
+  return graph;
+}
+
+// Build reverse dependency graph (target -> sources that depend on it)
+export function buildReverseDependencyGraph(
+  dependencies: GanttDependency[]
+): Map<string, GanttDependency[]> {
+  const graph = new Map<string, GanttDependency[]>();
+  for (const dep of dependencies) {
+    const existing = graph.get(dep.targetId) || [];
+    existing.push(dep);
+    graph.set(dep.targetId, existing);
+  }
+  return graph;
+}
+
+// Number of predecessors of each feature, ignoring links to unknown features
+function countIncoming(
+  featureIds: Set<string>,
+  dependencies: GanttDependency[]
+): Map<string, number> {
+  const inDegree = new Map([...featureIds].map((id) => [id, 0]));
+  for (const dep of dependencies) {
+    if (featureIds.has(dep.sourceId) && featureIds.has(dep.targetId)) {
+      inDegree.set(dep.targetId, (inDegree.get(dep.targetId) ?? 0) + 1);
+    }
+  }
+  return inDegree;
+}
+
+/**
+ * Order features so every feature comes after all of its predecessors
+ * (Kahn's algorithm). Features that are part of a cycle can never be ordered
+ * and are returned separately in their original order.
+ */
+export function sortTopologically(
+  features: GanttFeature[],
+  dependencies: GanttDependency[]
+): { order: string[]; unordered: string[] } {
+  const featureIds = new Set(features.map((f) => f.id));
+  const depGraph = buildDependencyGraph(dependencies);
+  const inDegree = countIncoming(featureIds, dependencies);
+
+  const queue = features
+    .filter((f) => inDegree.get(f.id) === 0)
+    .map((f) => f.id);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift();
+    if (!currentId) {
+      continue;
+    }
+    order.push(currentId);
+
+    for (const dep of depGraph.get(currentId) || []) {
+      if (!featureIds.has(dep.targetId)) {
+        continue;
+      }
+      const remaining = (inDegree.get(dep.targetId) ?? 0) - 1;
+      inDegree.set(dep.targetId, remaining);
+      if (remaining === 0) {
+        queue.push(dep.targetId);
+      }
+    }
+  }
+
+  const ordered = new Set(order);
+  const unordered = features.filter((f) => !ordered.has(f.id)).map((f) => f.id);
+
+  return { order, unordered };
+}
+
+type DependencyLink = Pick<GanttDependency, "sourceId" | "targetId">;
+
+// Depth-first search for a path of feature IDs leading from one feature to another
+function findPath(
+  fromId: string,
+  toId: string,
+  dependencies: DependencyLink[]
+): string[] | null {
+  const outgoing = new Map<string, string[]>();
+  for (const dep of dependencies) {
+    const existing = outgoing.get(dep.sourceId) || [];
+    existing.push(dep.targetId);
+    outgoing.set(dep.sourceId, existing);
+  }
+
+  const visited = new Set<string>();
+  const stack: string[][] = [[fromId]];
+
+  while (stack.length > 0) {
+    const path = stack.pop();
+    const currentId = path?.at(-1);
+    if (!(path && currentId)) {
+      continue;
+    }
+    if (currentId === toId) {
+      return path;
+    }
+    if (visited.has(currentId)) {
+      continue;
+    }
+    visited.add(currentId);
+
+    for (const nextId of outgoing.get(currentId) || []) {
+      stack.push([...path, nextId]);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether adding a dependency would close a loop in the graph.
+ * Returns the cycle as feature IDs, starting and ending with the source
+ * (e.g. [A, B, C, A]), or null if the new dependency is safe.
+ */
+export function findCycleForNewDependency(
+  sourceId: string,
+  targetId: string,
+  dependencies: DependencyLink[]
+): string[] | null {
+  if (sourceId === targetId) {
+    return [sourceId, sourceId];
+  }
+  const path = findPath(targetId, sourceId, dependencies);
+  return path ? [sourceId, ...path] : null;
+}
+
+/**
+ * Find loops in an existing set of dependencies.
+ * Each cycle is returned once as feature IDs with the first ID repeated at
+ * the end (e.g. [A, B, A]).
+ */
+export function findDependencyCycles(
+  dependencies: DependencyLink[]
+): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  for (const dep of dependencies) {
+    const path = findPath(dep.targetId, dep.sourceId, dependencies);
+    if (!path) {
+      continue;
+    }
+    const cycle = [dep.sourceId, ...path];
+    // Identify a cycle by its sorted members so rotations are reported once
+    const key = [...new Set(cycle)].sort().join(",");
+    if (!seen.has(key)) {
+      seen.add(key);
+      cycles.push(cycle);
+    }
+  }
+
+  return cycles;
+}
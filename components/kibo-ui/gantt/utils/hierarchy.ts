@@ -0,0 +1,219 @@
+import type { GanttDependency, GanttFeature } from "../types";
+import { getRollupProgress } from "./progress";
+
+export type GanttTreeNode<T extends GanttFeature = GanttFeature> = {
+  feature: T;
+  depth: number;
+  children: GanttTreeNode<T>[];
+};
+
+// The fields the hierarchy helpers read, so server code can pass plain rows
+type HierarchyNode = Pick<GanttFeature, "id" | "parentId">;
+type HierarchyFeature = HierarchyNode &
+  Pick<GanttFeature, "startAt" | "endAt" | "percentComplete">;
+type HierarchyDependency = Pick<
+  GanttDependency,
+  "id" | "sourceId" | "targetId"
+>;
+
+export type GanttTreeRow<T extends GanttFeature = GanttFeature> = {
+  feature: T;
+  depth: number;
+  hasChildren: boolean;
+};
+
+// Child IDs by parent ID, ignoring parents that are not in the list
+function getChildrenMap<T extends HierarchyNode>(
+  features: T[]
+): Map<string, T[]> {
+  const ids = new Set(features.map((f) => f.id));
+  const children = new Map<string, T[]>();
+  for (const feature of features) {
+    if (feature.parentId && ids.has(feature.parentId)) {
+      children.set(feature.parentId, [
+        ...(children.get(feature.parentId) ?? []),
+        feature,
+      ]);
+    }
+  }
+  return children;
+}
+
+/**
+ * Build the work breakdown tree from each feature's parentId.
+ * Features whose parent is not in the list become roots, so a subset (such as
+ * one sidebar section) still forms a valid tree. Parent links that loop back
+ * on themselves are cut where the loop is detected.
+ *
+ * @param features - Features in the order siblings should appear
+ * @returns Root nodes, each holding its descendants
+ */
+export function buildFeatureTree<T extends GanttFeature>(
+  features: T[]
+): GanttTreeNode<T>[] {
+  const childrenMap = getChildrenMap(features);
+  const ids = new Set(features.map((f) => f.id));
+  const visited = new Set<string>();
+
+  const toNode = (feature: T, depth: number): GanttTreeNode<T> => {
+    visited.add(feature.id);
+    return {
+      feature,
+      depth,
+      children: (childrenMap.get(feature.id) ?? [])
+        .filter((child) => !visited.has(child.id))
+        .map((child) => toNode(child, depth + 1)),
+    };
+  };
+
+  const roots = features
+    .filter((f) => !(f.parentId && ids.has(f.parentId)))
+    .map((f) => toNode(f, 0));
+
+  // Features only reachable through a parent loop become roots as well
+  for (const feature of features) {
+    if (!visited.has(feature.id)) {
+      roots.push(toNode(feature, 0));
+    }
+  }
+
+  return roots;
+}
+
+// Rows in display order, skipping the descendants of collapsed features
+export function flattenFeatureTree<T extends GanttFeature>(
+  nodes: GanttTreeNode<T>[],
+  collapsed: Set<string> = new Set()
+): GanttTreeRow<T>[] {
+  return nodes.flatMap((node) => [
+    {
+      feature: node.feature,
+      depth: node.depth,
+      hasChildren: node.children.length > 0,
+    },
+    ...(collapsed.has(node.feature.id)
+      ? []
+      : flattenFeatureTree(node.children, collapsed)),
+  ]);
+}
+
+// Leaf features below a feature (the feature itself when it has no children)
+function collectLeaves<T extends HierarchyNode>(
+  feature: T,
+  childrenMap: Map<string, T[]>,
+  visited: Set<string> = new Set()
+): T[] {
+  visited.add(feature.id);
+  const children = (childrenMap.get(feature.id) ?? []).filter(
+    (child) => !visited.has(child.id)
+  );
+  return children.length === 0
+    ? [feature]
+    : children.flatMap((child) => collectLeaves(child, childrenMap, visited));
+}
+
+/**
+ * Derive the dates and progress of every parent from its children.
+ * A parent spans from its earliest descendant start to its latest descendant
+ * finish, and its progress is the duration-weighted progress of its leaves.
+ *
+ * @param features - Array of all features
+ * @returns The same features with parent dates and progress replaced
+ */
+export function rollupParentFeatures<T extends HierarchyFeature>(
+  features: T[]
+): T[] {
+  const childrenMap = getChildrenMap(features);
+
+  return features.map((feature) => {
+    if (!childrenMap.has(feature.id)) {
+      return feature;
+    }
+    const leaves = collectLeaves(feature, childrenMap);
+    return {
+      ...feature,
+      startAt: new Date(Math.min(...leaves.map((f) => f.startAt.getTime()))),
+      endAt: new Date(Math.max(...leaves.map((f) => f.endAt.getTime()))),
+      percentComplete: getRollupProgress(leaves),
+    };
+  });
+}
+
+// Dependencies expanded onto leaves are named "<id>:<source>:<target>" after
+// the one they came from
+const EXPANDED_ID_SEPARATOR = ":";
+
+// The dependency an expanded one came from, so results about the expanded
+// graph (e.g. the critical path) can be shown on the drawn arrows
+export function getSourceDependencyId(id: string): string {
+  return id.split(EXPANDED_ID_SEPARATOR)[0];
+}
+
+/**
+ * Prepare features and dependencies for the schedulers.
+ * Parents are summaries whose dates come from their children, so they are
+ * left out, and every dependency on a parent is applied to its leaves: a
+ * dependency into a parent constrains each of its leaves, and a dependency
+ * out of a parent waits for every one of its leaves.
+ *
+ * @param features - Array of all features
+ * @param dependencies - Array of all dependencies
+ * @returns Leaf features and the dependencies between them
+ */
+export function getSchedulingGraph<
+  T extends HierarchyNode,
+  D extends HierarchyDependency,
+>(features: T[], dependencies: D[]): { features: T[]; dependencies: D[] } {
+  const childrenMap = getChildrenMap(features);
+  const featuresMap = new Map(features.map((f) => [f.id, f]));
+  const leavesOf = (id: string): string[] => {
+    const feature = featuresMap.get(id);
+    return feature
+      ? collectLeaves(feature, childrenMap).map((leaf) => leaf.id)
+      : [id];
+  };
+
+  const expanded = dependencies.flatMap((dep) => {
+    const sources = leavesOf(dep.sourceId);
+    const targets = leavesOf(dep.targetId);
+    if (sources.length === 1 && targets.length === 1) {
+      return [dep];
+    }
+    return sources.flatMap((sourceId) =>
+      targets
+        .filter((targetId) => targetId !== sourceId)
+        .map((targetId) => ({
+          ...dep,
+          id: [dep.id, sourceId, targetId].join(EXPANDED_ID_SEPARATOR),
+          sourceId,
+          targetId,
+        }))
+    );
+  });
+
+  return {
+    features: features.filter((f) => !childrenMap.has(f.id)),
+    dependencies: expanded,
+  };
+}
+
+// Whether a feature sits anywhere below another in the tree
+export function isDescendantOf(
+  featureId: string,
+  ancestorId: string,
+  features: HierarchyNode[]
+): boolean {
+  const parents = new Map(features.map((f) => [f.id, f.parentId]));
+  const visited = new Set<string>();
+  let current = parents.get(featureId);
+
+  while (current && !visited.has(current)) {
+    if (current === ancestorId) {
+      return true;
+    }
+    visited.add(current);
+    current = parents.get(current);
+  }
+
+  return false;
+}
@@ -0,0 +1,194 @@
+import type { GanttDependency, GanttFeature } from "../types";
+import { resolveFeatureDates, type ScheduleOptions } from "./auto-schedule";
+import { addDuration, getDuration } from "./calendar";
+import { buildReverseDependencyGraph, sortTopologically } from "./graph";
+
+export type FinishForecast = {
+  p50: Date;
+  p80: Date;
+  p95: Date;
+};
+
+export type GroupForecast = FinishForecast & {
+  // Simulated finish of the whole group in every iteration, sorted
+  finishes: Date[];
+};
+
+export type SimulationOptions = ScheduleOptions & {
+  iterations?: number;
+  // The same seed always produces the same results
+  seed?: number;
+  // Named sets of features (e.g. releases) forecast as a whole
+  groups?: Record<string, string[]>;
+};
+
+export type SimulationResult = {
+  iterations: number;
+  seed: number;
+  features: Map<string, FinishForecast>;
+  groups: Map<string, GroupForecast>;
+};
+
+const DEFAULT_ITERATIONS = 1000;
+const DEFAULT_SEED = 1;
+
+const LCG_MODULUS = 2_147_483_647;
+const LCG_MULTIPLIER = 48_271;
+
+// Deterministic random numbers in (0, 1) from a seed (Park-Miller generator)
+export function createSeededRandom(seed: number): () => number {
+  let state = (Math.abs(Math.trunc(seed)) % (LCG_MODULUS - 1)) + 1;
+  return () => {
+    state = (state * LCG_MULTIPLIER) % LCG_MODULUS;
+    return state / LCG_MODULUS;
+  };
+}
+
+// Inverse transform sample of a triangular distribution
+function sampleTriangular(
+  estimate: { min: number; mode: number; max: number },
+  random: () => number
+): number {
+  const { min, mode, max } = estimate;
+  if (max <= min) {
+    return min;
+  }
+  const u = random();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+// Three-point estimate of a feature, or null when it has none
+function getEstimate(
+  feature: GanttFeature,
+  options: ScheduleOptions
+): { min: number; mode: number; max: number } | null {
+  const { optimisticDuration, pessimisticDuration } = feature;
+  if (
+    optimisticDuration === null ||
+    optimisticDuration === undefined ||
+    pessimisticDuration === null ||
+    pessimisticDuration === undefined
+  ) {
+    return null;
+  }
+  const planned = getDuration(feature.startAt, feature.endAt, options.calendar);
+  const mode = feature.mostLikelyDuration ?? planned;
+  return {
+    min: optimisticDuration,
+    mode: Math.min(Math.max(mode, optimisticDuration), pessimisticDuration),
+    max: pessimisticDuration,
+  };
+}
+
+// Value at a percentile of sorted times (nearest rank)
+const percentile = (sorted: number[], p: number): Date =>
+  new Date(sorted[Math.max(Math.ceil(p * sorted.length) - 1, 0)]);
+
+const toForecast = (sorted: number[]): FinishForecast => ({
+  p50: percentile(sorted, 0.5),
+  p80: percentile(sorted, 0.8),
+  p95: percentile(sorted, 0.95),
+});
+
+/**
+ * Simulate the schedule many times with durations drawn from each feature's
+ * three-point estimate (a triangular distribution). Every iteration places
+ * the features in topological order with resolveFeatureDates, exactly like
+ * recalculateSchedule, so dependencies, lags and constraints all apply.
+ * Features without an estimate keep their planned duration, and features in
+ * a dependency cycle keep their planned dates.
+ *
+ * @param features - Array of all features
+ * @param dependencies - Array of all dependencies
+ * @param options - Calendar, iteration count, seed and groups to forecast
+ * @returns P50/P80/P95 finish dates per feature and per group
+ */
+export function simulateSchedule(
+  features: GanttFeature[],
+  dependencies: GanttDependency[],
+  options: SimulationOptions = {}
+): SimulationResult {
+  const {
+    calendar,
+    iterations = DEFAULT_ITERATIONS,
+    seed = DEFAULT_SEED,
+    groups = {},
+  } = options;
+  const random = createSeededRandom(seed);
+  const reverseGraph = buildReverseDependencyGraph(dependencies);
+  const { order } = sortTopologically(features, dependencies);
+  const featuresMap = new Map(features.map((f) => [f.id, f]));
+  const estimates = new Map(
+    features.map((f) => [f.id, getEstimate(f, { calendar })])
+  );
+
+  const finishes = new Map(features.map((f) => [f.id, [] as number[]]));
+  const groupFinishes = new Map(
+    Object.keys(groups).map((name) => [name, [] as number[]])
+  );
+
+  for (let i = 0; i < iterations; i++) {
+    // Cycle features are never reached in order and keep their planned dates
+    const scheduled = new Map(featuresMap);
+
+    for (const id of order) {
+      const feature = featuresMap.get(id);
+      const estimate = estimates.get(id);
+      if (!feature) {
+        continue;
+      }
+      const sampled = estimate
+        ? {
+            ...feature,
+            endAt: addDuration(
+              feature.startAt,
+              Math.round(sampleTriangular(estimate, random)),
+              calendar
+            ),
+          }
+        : feature;
+      const { dates } = resolveFeatureDates(
+        sampled,
+        reverseGraph.get(id) || [],
+        scheduled,
+        calendar
+      );
+      scheduled.set(id, { ...sampled, ...dates });
+    }
+
+    for (const [id, feature] of scheduled) {
+      finishes.get(id)?.push(feature.endAt.getTime());
+    }
+    for (const [name, featureIds] of Object.entries(groups)) {
+      const groupEnd = Math.max(
+        ...featureIds.map((id) => scheduled.get(id)?.endAt.getTime() ?? 0)
+      );
+      groupFinishes.get(name)?.push(groupEnd);
+    }
+  }
+
+  const byTime = (a: number, b: number) => a - b;
+
+  return {
+    iterations,
+    seed,
+    features: new Map(
+      [...finishes].map(([id, times]) => [id, toForecast(times.sort(byTime))])
+    ),
+    groups: new Map(
+      [...groupFinishes].map(([name, times]) => {
+        const sorted = times.sort(byTime);
+        return [
+          name,
+          {
+            ...toForecast(sorted),
+            finishes: sorted.map((time) => new Date(time)),
+          },
+        ];
+      })
+    ),
+  };
+}
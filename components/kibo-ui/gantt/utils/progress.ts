@@ -0,0 +1,67 @@
+import type { GanttCalendar, GanttFeature } from "../types";
+import { getDuration } from "./calendar";
+
+type ProgressFeature = Pick<GanttFeature, "startAt" | "endAt"> & {
+  percentComplete?: number;
+};
+
+const clampPercent = (value: number): number =>
+  Math.min(Math.max(Math.round(value), 0), 100);
+
+/**
+ * Share of a feature's duration that has elapsed by a date, as a percentage.
+ * Uses working days when a calendar is given, so weekends and holidays do not
+ * count as time the work should have progressed.
+ */
+export function getExpectedProgress(
+  feature: ProgressFeature,
+  today: Date,
+  calendar?: GanttCalendar
+): number {
+  if (today <= feature.startAt) {
+    return 0;
+  }
+  if (today >= feature.endAt) {
+    return 100;
+  }
+  const total = getDuration(feature.startAt, feature.endAt, calendar);
+  if (total <= 0) {
+    return 100;
+  }
+  return clampPercent(
+    (getDuration(feature.startAt, today, calendar) / total) * 100
+  );
+}
+
+// Whether the work done lags the elapsed portion of the feature
+export const isBehindSchedule = (
+  feature: ProgressFeature,
+  today: Date,
+  calendar?: GanttCalendar
+): boolean =>
+  (feature.percentComplete ?? 0) <
+  getExpectedProgress(feature, today, calendar);
+
+/**
+ * Roll up the progress of several features (e.g. a group) into one
+ * percentage, weighting each feature by its duration so long features count
+ * for more than short ones.
+ */
+export function getRollupProgress(
+  features: ProgressFeature[],
+  calendar?: GanttCalendar
+): number {
+  let done = 0;
+  let total = 0;
+
+  for (const feature of features) {
+    const duration = Math.max(
+      getDuration(feature.startAt, feature.endAt, calendar),
+      1
+    );
+    done += duration * (feature.percentComplete ?? 0);
+    total += duration;
+  }
+
+  return total > 0 ? clampPercent(done / total) : 0;
+}
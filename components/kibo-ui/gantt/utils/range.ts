@@ -1,20 +1,24 @@
 import {
   addDays,
+  addHours,
   addMonths,
   addWeeks,
   addYears,
   differenceInDays,
   differenceInHours,
+  differenceInMinutes,
   differenceInMonths,
   differenceInWeeks,
   differenceInYears,
   endOfDay,
+  endOfHour,
   endOfMonth,
   endOfWeek,
   endOfYear,
   getDaysInMonth,
   getDaysInYear,
   startOfDay,
+  startOfHour,
   startOfMonth,
   startOfWeek,
   startOfYear,
@@ -35,6 +39,9 @@ export const getsDaysIn = (range: Range) => {
 };
 
 export const getDifferenceIn = (range: Range) => {
+  if (range === "hourly") {
+    return differenceInHours;
+  }
   if (range === "weekly") {
     return differenceInWeeks;
   }
@@ -48,6 +55,9 @@ export const getDifferenceIn = (range: Range) => {
 };
 
 export const getInnerDifferenceIn = (range: Range) => {
+  if (range === "hourly") {
+    return differenceInMinutes;
+  }
   if (range === "weekly") {
     return differenceInDays;
   }
@@ -61,6 +71,9 @@ export const getInnerDifferenceIn = (range: Range) => {
 };
 
 export const getStartOf = (range: Range) => {
+  if (range === "hourly") {
+    return startOfHour;
+  }
   if (range === "weekly") {
     return startOfWeek;
   }
@@ -74,6 +87,9 @@ export const getStartOf = (range: Range) => {
 };
 
 export const getEndOf = (range: Range) => {
+  if (range === "hourly") {
+    return endOfHour;
+  }
   if (range === "weekly") {
     return endOfWeek;
   }
@@ -87,6 +103,9 @@ export const getEndOf = (range: Range) => {
 };
 
 export const getAddRange = (range: Range) => {
+  if (range === "hourly") {
+    return addHours;
+  }
   if (range === "weekly") {
     return addWeeks;
   }
@@ -0,0 +1,212 @@
+import type { GanttCalendar, GanttDependency, GanttFeature } from "../types";
+import {
+  type FeatureUpdate,
+  resolveFeatureDates,
+  type ScheduleBinding,
+  type ScheduleOptions,
+} from "./auto-schedule";
+import { addDuration, getDuration, snapToWorkingDay } from "./calendar";
+import { calculateCriticalPath } from "./critical-path";
+import { buildReverseDependencyGraph, sortTopologically } from "./graph";
+
+type Booking = { featureId: string; startAt: Date; endAt: Date };
+
+type Dates = { startAt: Date; endAt: Date };
+
+const overlaps = (a: Dates, b: Dates): boolean =>
+  a.startAt < b.endAt && b.startAt < a.endAt;
+
+/**
+ * Order features so each comes after all of its predecessors and, among the
+ * features that are ready, the highest priority goes first. Priority is the
+ * least total float (critical work first), then the earliest current start.
+ */
+function getLevelingOrder(
+  order: string[],
+  reverseGraph: Map<string, GanttDependency[]>,
+  compare: (a: string, b: string) => number
+): string[] {
+  const inOrder = new Set(order);
+  const done = new Set<string>();
+  const remaining = [...order];
+  const result: string[] = [];
+
+  const isReady = (id: string) =>
+    (reverseGraph.get(id) || []).every(
+      (dep) => !inOrder.has(dep.sourceId) || done.has(dep.sourceId)
+    );
+
+  while (remaining.length > 0) {
+    let best = -1;
+    for (let i = 0; i < remaining.length; i++) {
+      if (
+        isReady(remaining[i]) &&
+        (best === -1 || compare(remaining[i], remaining[best]) < 0)
+      ) {
+        best = i;
+      }
+    }
+    const [id] = remaining.splice(Math.max(best, 0), 1);
+    done.add(id);
+    result.push(id);
+  }
+
+  return result;
+}
+
+// Delay a feature past any booking of its owner it would overlap
+function delayPastBookings(
+  dates: Dates,
+  duration: number,
+  bookings: Booking[],
+  calendar: GanttCalendar | undefined
+): { dates: Dates; blockedBy: string | null } {
+  let current = dates;
+  let blockedBy: string | null = null;
+  let conflict = bookings.find((booking) => overlaps(booking, current));
+
+  while (conflict) {
+    const startAt = calendar
+      ? snapToWorkingDay(conflict.endAt, calendar)
+      : conflict.endAt;
+    current = { startAt, endAt: addDuration(startAt, duration, calendar) };
+    blockedBy = conflict.featureId;
+    conflict = bookings.find((booking) => overlaps(booking, current));
+  }
+
+  return { dates: current, blockedBy };
+}
+
+// Place one feature: after its leveled predecessors and its owner's bookings
+function placeFeature(
+  feature: GanttFeature,
+  required: ReturnType<typeof resolveFeatureDates>,
+  ownerBookings: Booking[],
+  calendar: GanttCalendar | undefined
+): { dates: Dates; binding?: ScheduleBinding } {
+  // Respect predecessors without pulling the feature in
+  const placed =
+    required.dates.startAt > feature.startAt
+      ? required
+      : { dates: { startAt: feature.startAt, endAt: feature.endAt } };
+
+  if (!feature.ownerId || feature.constraintType === "MSO") {
+    return placed;
+  }
+  const delayed = delayPastBookings(
+    placed.dates,
+    getDuration(feature.startAt, feature.endAt, calendar),
+    ownerBookings,
+    calendar
+  );
+  return delayed.blockedBy
+    ? {
+        dates: delayed.dates,
+        binding: { type: "resource", featureId: delayed.blockedBy },
+      }
+    : placed;
+}
+
+// Must Start On features cannot be delayed, so their owners are booked for
+// them before anything is placed; features placed earlier in priority order
+// then wait for them instead of overlapping them
+function getPinnedBookings(
+  order: string[],
+  featuresMap: Map<string, GanttFeature>
+): Map<string, Booking[]> {
+  const bookings = new Map<string, Booking[]>();
+  for (const id of order) {
+    const feature = featuresMap.get(id);
+    if (feature?.ownerId && feature.constraintType === "MSO") {
+      bookings.set(feature.ownerId, [
+        ...(bookings.get(feature.ownerId) ?? []),
+        { featureId: id, startAt: feature.startAt, endAt: feature.endAt },
+      ]);
+    }
+  }
+  return bookings;
+}
+
+/**
+ * Level resources so no owner works on overlapping features.
+ * Features are placed in priority order (see getLevelingOrder); each starts no
+ * earlier than today's dates and its predecessors allow, and is then delayed
+ * past the features already booked for the same owner. Features are never
+ * pulled earlier, Must Start On features stay pinned (and are booked first, so
+ * nothing else of their owner's lands on them), and features in a dependency
+ * cycle are left untouched. Two pinned features of one owner can still
+ * overlap.
+ *
+ * @param features - Array of all features
+ * @param dependencies - Array of all dependencies
+ * @param options - Scheduling options such as the working calendar
+ * @returns Array of feature updates to apply, each explaining its binding
+ */
+export function levelResources(
+  features: GanttFeature[],
+  dependencies: GanttDependency[],
+  options: ScheduleOptions = {}
+): FeatureUpdate[] {
+  const { calendar } = options;
+  const featuresMap = new Map(features.map((f) => [f.id, f]));
+  const reverseGraph = buildReverseDependencyGraph(dependencies);
+  const { order } = sortTopologically(features, dependencies);
+  const floats = calculateCriticalPath(
+    features,
+    dependencies,
+    options
+  ).features;
+
+  const priority = (id: string) => ({
+    float: floats.get(id)?.totalFloat ?? 0,
+    start: featuresMap.get(id)?.startAt.getTime() ?? 0,
+  });
+  const levelingOrder = getLevelingOrder(order, reverseGraph, (a, b) => {
+    const pa = priority(a);
+    const pb = priority(b);
+    return pa.float - pb.float || pa.start - pb.start;
+  });
+
+  const scheduled = new Map<string, GanttFeature>();
+  const bookings = getPinnedBookings(order, featuresMap);
+  const updates: FeatureUpdate[] = [];
+
+  for (const id of levelingOrder) {
+    const feature = featuresMap.get(id);
+    if (!feature) {
+      continue;
+    }
+
+    // A pinned feature's own booking is replaced by where it is placed
+    const ownerBookings = (bookings.get(feature.ownerId ?? "") ?? []).filter(
+      (booking) => booking.featureId !== id
+    );
+    const { dates, binding } = placeFeature(
+      feature,
+      resolveFeatureDates(
+        feature,
+        reverseGraph.get(id) || [],
+        scheduled,
+        calendar
+      ),
+      ownerBookings,
+      calendar
+    );
+    if (feature.ownerId) {
+      bookings.set(feature.ownerId, [
+        ...ownerBookings,
+        { featureId: id, ...dates },
+      ]);
+    }
+
+    scheduled.set(id, { ...feature, ...dates });
+    if (
+      dates.startAt.getTime() !== feature.startAt.getTime() ||
+      dates.endAt.getTime() !== feature.endAt.getTime()
+    ) {
+      updates.push({ id, ...dates, binding });
+    }
+  }
+
+  return updates;
+}
@@ -0,0 +1,137 @@
+import { differenceInMilliseconds, format } from "date-fns";
+import type { GanttFeature } from "../types";
+import type { FeatureUpdate } from "./auto-schedule";
+import { CONSTRAINT_LABELS } from "./constraints";
+import { formatLag } from "./dependencies";
+
+export type ScheduleTraceStep = {
+  featureId: string;
+  // Shift of the start and finish in milliseconds, so moves of a few hours in
+  // the hourly range are not lost to rounding
+  startDelta: number;
+  endDelta: number;
+  binding: FeatureUpdate["binding"];
+};
+
+// Feature whose change caused this one (a predecessor or a same-owner feature)
+const getCauseId = (binding: FeatureUpdate["binding"]): string | undefined => {
+  switch (binding?.type) {
+    case "dependency":
+      return binding.dependency.sourceId;
+    case "resource":
+      return binding.featureId;
+    case "successor":
+      return binding.dependency.targetId;
+    default:
+      return;
+  }
+};
+
+/**
+ * Follow the binding predecessors (or same-owner features) of a scheduled
+ * change back to its cause.
+ * The trace starts at the feature that moved first (the user's move, or a
+ * feature snapped to an unchanged predecessor) and ends at the given feature.
+ *
+ * @param featureId - Feature whose change should be explained
+ * @param updates - Updates from autoSchedule, recalculateSchedule or levelResources
+ * @param features - Features with their dates before the updates
+ * @returns Steps from the root cause down to the feature
+ */
+export function traceScheduleChange(
+  featureId: string,
+  updates: FeatureUpdate[],
+  features: GanttFeature[]
+): ScheduleTraceStep[] {
+  const updatesMap = new Map(updates.map((u) => [u.id, u]));
+  const featuresMap = new Map(features.map((f) => [f.id, f]));
+  const steps: ScheduleTraceStep[] = [];
+  const visited = new Set<string>();
+  let currentId: string | undefined = featureId;
+
+  while (currentId && !visited.has(currentId)) {
+    visited.add(currentId);
+    const update = updatesMap.get(currentId);
+    const original = featuresMap.get(currentId);
+    if (!(update && original)) {
+      break;
+    }
+    steps.unshift({
+      featureId: currentId,
+      startDelta: differenceInMilliseconds(update.startAt, original.startAt),
+      endDelta: differenceInMilliseconds(update.endAt, original.endAt),
+      binding: update.binding,
+    });
+    currentId = getCauseId(update.binding);
+  }
+
+  return steps;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Whole days, or hours and minutes for shifts shorter than a day
+const formatDelta = (ms: number): string => {
+  const size = Math.abs(ms);
+  let amount = `${Math.round(ms / MINUTE_MS)}m`;
+  if (size >= DAY_MS) {
+    amount = `${Math.round(ms / DAY_MS)}d`;
+  } else if (size >= HOUR_MS) {
+    amount = `${Math.round(ms / HOUR_MS)}h`;
+  }
+  return ms > 0 ? `+${amount}` : amount;
+};
+
+const formatShift = (step: ScheduleTraceStep): string =>
+  step.startDelta === step.endDelta
+    ? `moved by ${formatDelta(step.startDelta)}`
+    : `changed (start ${formatDelta(step.startDelta)}, finish ${formatDelta(step.endDelta)})`;
+
+// Describe one step, e.g. "T4 moved by +5d because T2 (FS) moved"
+function describeStep(
+  step: ScheduleTraceStep,
+  previous: ScheduleTraceStep | undefined,
+  getLabel: (featureId: string) => string
+): string {
+  const subject = `${getLabel(step.featureId)} ${formatShift(step)}`;
+  const { binding } = step;
+
+  if (binding?.type === "dependency") {
+    const { dependency } = binding;
+    const lag = formatLag(dependency);
+    const link = lag ? `${dependency.type} ${lag}` : dependency.type;
+    const source = `${getLabel(dependency.sourceId)} (${link})`;
+    return previous?.featureId === dependency.sourceId
+      ? `${subject} because ${source} moved`
+      : `${subject} to follow ${source}`;
+  }
+  if (binding?.type === "resource") {
+    const blocker = getLabel(binding.featureId);
+    return previous?.featureId === binding.featureId
+      ? `${subject} because ${blocker} (same owner) moved`
+      : `${subject} to wait for ${blocker} (same owner)`;
+  }
+  if (binding?.type === "successor") {
+    const { dependency } = binding;
+    const lag = formatLag(dependency);
+    const link = lag ? `${dependency.type} ${lag}` : dependency.type;
+    return `${subject} to be ready for ${getLabel(dependency.targetId)} (${link})`;
+  }
+  if (binding?.type === "target") {
+    return `${subject} to finish by ${format(binding.date, "MMM d, yyyy")}`;
+  }
+  if (binding?.type === "constraint") {
+    const constraint = `${CONSTRAINT_LABELS[binding.constraintType]} ${format(binding.date, "MMM d, yyyy")}`;
+    return `${subject} to meet its constraint (${constraint})`;
+  }
+  return subject;
+}
+
+// Turn a trace into readable sentences, one per step
+export const describeScheduleTrace = (
+  steps: ScheduleTraceStep[],
+  getLabel: (featureId: string) => string
+): string[] =>
+  steps.map((step, index) => describeStep(step, steps[index - 1], getLabel));
@@ -1,4 +1,10 @@
-import { addDays, getDate, getDaysInMonth, isSameDay } from "date-fns";
+import {
+  addDays,
+  differenceInMinutes,
+  getDate,
+  getDaysInMonth,
+  isSameDay,
+} from "date-fns";
 import type { GanttContextProps, Range, TimelineData } from "../types";
 import {
   getAddRange,
@@ -27,14 +33,23 @@ export const getDateByMousePosition = (
   return actualDate;
 };
 
-export const createInitialTimelineData = (today: Date) => {
+// Three years around today, or only the current year in the hourly range
+// where each year is thousands of columns; more years load on scroll
+export const createInitialTimelineData = (
+  today: Date,
+  range: Range = "monthly"
+) => {
   const data: TimelineData = [];
 
-  data.push(
-    { year: today.getFullYear() - 1, quarters: new Array(4).fill(null) },
-    { year: today.getFullYear(), quarters: new Array(4).fill(null) },
-    { year: today.getFullYear() + 1, quarters: new Array(4).fill(null) }
-  );
+  if (range === "hourly") {
+    data.push({ year: today.getFullYear(), quarters: new Array(4).fill(null) });
+  } else {
+    data.push(
+      { year: today.getFullYear() - 1, quarters: new Array(4).fill(null) },
+      { year: today.getFullYear(), quarters: new Array(4).fill(null) },
+      { year: today.getFullYear() + 1, quarters: new Array(4).fill(null) }
+    );
+  }
 
   for (const yearObj of data) {
     yearObj.quarters = new Array(4).fill(null).map((_, quarterIndex) => ({
@@ -65,6 +80,10 @@ export const getOffset = (
     return parsedColumnWidth * fullColumns;
   }
 
+  if (context.range === "hourly") {
+    return parsedColumnWidth * (fullColumns + date.getMinutes() / 60);
+  }
+
   const partialColumns = date.getDate();
   const daysInMonth = getDaysInMonth(date);
   const pixelsPerDay = parsedColumnWidth / daysInMonth;
@@ -90,6 +109,11 @@ export const getWidth = (
     return parsedColumnWidth * (delta ? delta : 1);
   }
 
+  if (context.range === "hourly") {
+    const minutes = differenceInMinutes(endAt, startAt);
+    return parsedColumnWidth * ((minutes ? minutes : 60) / 60);
+  }
+
   const daysInStartMonth = getDaysInMonth(startAt);
   const pixelsPerDayInStartMonth = parsedColumnWidth / daysInStartMonth;
 
@@ -122,6 +146,10 @@ export const calculateInnerOffset = (
   range: Range,
   columnWidth: number
 ) => {
+  if (range === "hourly") {
+    return (date.getMinutes() / 60) * columnWidth;
+  }
+
   const startOf = getStartOf(range);
   const endOf = getEndOf(range);
   const differenceIn = getInnerDifferenceIn(range);
@@ -0,0 +1,151 @@
+CREATE TYPE "public"."audit_action" AS ENUM('create', 'update', 'delete', 'restore', 'purge');--> statement-breakpoint
+CREATE TYPE "public"."audit_entity" AS ENUM('feature', 'dependency', 'marker', 'calendar', 'holiday', 'baseline', 'settings', 'status', 'group', 'product', 'initiative', 'release', 'user');--> statement-breakpoint
+CREATE TYPE "public"."audit_source" AS ENUM('edit', 'drag', 'recalculate', 'level', 'backward', 'import', 'revert', 'rollup');--> statement-breakpoint
+CREATE TYPE "public"."constraint_type" AS ENUM('SNET', 'FNLT', 'MSO', 'DEADLINE');--> statement-breakpoint
+CREATE TYPE "public"."feature_kind" AS ENUM('task', 'milestone');--> statement-breakpoint
+CREATE TYPE "public"."lag_unit" AS ENUM('calendar', 'working');--> statement-breakpoint
+CREATE TABLE "audit_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entity_type" "audit_entity" NOT NULL,
+	"entity_id" uuid NOT NULL,
+	"action" "audit_action" NOT NULL,
+	"source" "audit_source" DEFAULT 'edit' NOT NULL,
+	"before" jsonb,
+	"after" jsonb,
+	"actor_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "baseline_features" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"baseline_id" uuid NOT NULL,
+	"feature_id" uuid NOT NULL,
+	"start_at" timestamp with time zone NOT NULL,
+	"end_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "baseline_features_baseline_feature_unique" UNIQUE("baseline_id","feature_id"),
+	CONSTRAINT "baseline_features_end_after_start" CHECK ("baseline_features"."end_at" >= "baseline_features"."start_at")
+);
+--> statement-breakpoint
+CREATE TABLE "baselines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "calendars" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"working_days" integer[] DEFAULT '{1,2,3,4,5}' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "calendars_working_days_range" CHECK ("calendars"."working_days" <@ ARRAY[0, 1, 2, 3, 4, 5, 6])
+);
+--> statement-breakpoint
+CREATE TABLE "holidays" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"calendar_id" uuid NOT NULL,
+	"date" date NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "roadmap_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"calendar_id" uuid,
+	"time_zone" varchar(64) DEFAULT 'UTC' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "dependencies" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "dependencies" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "dependencies" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone USING "updated_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "dependencies" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "features" ALTER COLUMN "start_at" SET DATA TYPE timestamp with time zone USING "start_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "features" ALTER COLUMN "end_at" SET DATA TYPE timestamp with time zone USING "end_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "features" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "features" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "features" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone USING "updated_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "features" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "groups" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "groups" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "groups" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone USING "updated_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "groups" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "initiatives" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "initiatives" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "initiatives" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone USING "updated_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "initiatives" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "markers" ALTER COLUMN "date" SET DATA TYPE timestamp with time zone USING "date" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "markers" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "markers" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "markers" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone USING "updated_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "markers" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "products" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "products" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "products" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone USING "updated_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "products" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "releases" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "releases" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "releases" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone USING "updated_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "releases" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "statuses" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "statuses" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "statuses" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone USING "updated_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "statuses" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "created_at" SET DATA TYPE timestamp with time zone USING "created_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "updated_at" SET DATA TYPE timestamp with time zone USING "updated_at" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "users" ALTER COLUMN "updated_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "dependencies" ADD COLUMN "lag" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "dependencies" ADD COLUMN "lag_unit" "lag_unit" DEFAULT 'calendar' NOT NULL;--> statement-breakpoint
+ALTER TABLE "features" ADD COLUMN "kind" "feature_kind" DEFAULT 'task' NOT NULL;--> statement-breakpoint
+ALTER TABLE "features" ADD COLUMN "parent_id" uuid;--> statement-breakpoint
+ALTER TABLE "features" ADD COLUMN "constraint_type" "constraint_type";--> statement-breakpoint
+ALTER TABLE "features" ADD COLUMN "constraint_date" date;--> statement-breakpoint
+ALTER TABLE "features" ADD COLUMN "optimistic_duration" integer;--> statement-breakpoint
+ALTER TABLE "features" ADD COLUMN "most_likely_duration" integer;--> statement-breakpoint
+ALTER TABLE "features" ADD COLUMN "pessimistic_duration" integer;--> statement-breakpoint
+ALTER TABLE "features" ADD COLUMN "percent_complete" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "features" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "groups" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "initiatives" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "releases" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "statuses" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "baseline_features" ADD CONSTRAINT "baseline_features_baseline_id_baselines_id_fk" FOREIGN KEY ("baseline_id") REFERENCES "public"."baselines"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "baseline_features" ADD CONSTRAINT "baseline_features_feature_id_features_id_fk" FOREIGN KEY ("feature_id") REFERENCES "public"."features"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "holidays" ADD CONSTRAINT "holidays_calendar_id_calendars_id_fk" FOREIGN KEY ("calendar_id") REFERENCES "public"."calendars"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "roadmap_settings" ADD CONSTRAINT "roadmap_settings_calendar_id_calendars_id_fk" FOREIGN KEY ("calendar_id") REFERENCES "public"."calendars"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_events_entity_idx" ON "audit_events" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_events_created_at_idx" ON "audit_events" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "baseline_features_baseline_id_idx" ON "baseline_features" USING btree ("baseline_id");--> statement-breakpoint
+CREATE INDEX "holidays_calendar_id_idx" ON "holidays" USING btree ("calendar_id");--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_parent_id_features_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."features"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "dependencies_source_id_idx" ON "dependencies" USING btree ("source_id");--> statement-breakpoint
+CREATE INDEX "dependencies_target_id_idx" ON "dependencies" USING btree ("target_id");--> statement-breakpoint
+CREATE INDEX "features_status_id_idx" ON "features" USING btree ("status_id");--> statement-breakpoint
+CREATE INDEX "features_group_id_idx" ON "features" USING btree ("group_id");--> statement-breakpoint
+CREATE INDEX "features_owner_id_idx" ON "features" USING btree ("owner_id");--> statement-breakpoint
+CREATE INDEX "features_product_id_idx" ON "features" USING btree ("product_id");--> statement-breakpoint
+CREATE INDEX "features_initiative_id_idx" ON "features" USING btree ("initiative_id");--> statement-breakpoint
+CREATE INDEX "features_release_id_idx" ON "features" USING btree ("release_id");--> statement-breakpoint
+CREATE INDEX "features_parent_id_idx" ON "features" USING btree ("parent_id");--> statement-breakpoint
+CREATE INDEX "features_start_at_idx" ON "features" USING btree ("start_at");--> statement-breakpoint
+CREATE INDEX "features_end_at_idx" ON "features" USING btree ("end_at");--> statement-breakpoint
+CREATE INDEX "features_deleted_at_idx" ON "features" USING btree ("deleted_at");--> statement-breakpoint
+CREATE INDEX "markers_date_idx" ON "markers" USING btree ("date");--> statement-breakpoint
+ALTER TABLE "dependencies" ADD CONSTRAINT "dependencies_source_target_type_unique" UNIQUE("source_id","target_id","type");--> statement-breakpoint
+ALTER TABLE "dependencies" ADD CONSTRAINT "dependencies_no_self_reference" CHECK ("dependencies"."source_id" <> "dependencies"."target_id");--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_constraint_complete" CHECK (("features"."constraint_type" IS NULL) = ("features"."constraint_date" IS NULL));--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_not_own_parent" CHECK ("features"."parent_id" <> "features"."id");--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_name_not_blank" CHECK (btrim("features"."name") <> '');--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_end_after_start" CHECK ("features"."end_at" >= "features"."start_at");--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_milestone_zero_duration" CHECK ("features"."kind" <> 'milestone' OR "features"."start_at" = "features"."end_at");--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_percent_complete_range" CHECK ("features"."percent_complete" BETWEEN 0 AND 100);--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_estimate_complete" CHECK (("features"."optimistic_duration" IS NULL) = ("features"."pessimistic_duration" IS NULL));--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_estimate_order" CHECK ("features"."optimistic_duration" IS NULL OR ("features"."optimistic_duration" >= 0 AND "features"."optimistic_duration" <= "features"."pessimistic_duration"));--> statement-breakpoint
+ALTER TABLE "features" ADD CONSTRAINT "features_most_likely_in_range" CHECK ("features"."most_likely_duration" IS NULL OR "features"."optimistic_duration" IS NULL OR "features"."most_likely_duration" BETWEEN "features"."optimistic_duration" AND "features"."pessimistic_duration");
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { db } from "../index";
+import type { AuditEventWithActor } from "../types";
+
+// Every logged change to a feature, newest first
+export async function getFeatureAuditEvents(
+  featureId: string
+): Promise<AuditEventWithActor[]> {
+  return await db.query.auditEvents.findMany({
+    where: (auditEvents, { and, eq }) =>
+      and(
+        eq(auditEvents.entityType, "feature"),
+        eq(auditEvents.entityId, featureId)
+      ),
+    with: { actor: true },
+    orderBy: (auditEvents, { desc }) => [desc(auditEvents.createdAt)],
+  });
+}
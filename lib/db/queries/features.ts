@@ -1,19 +1,36 @@
+import { and, asc, inArray, isNotNull, isNull, or } from "drizzle-orm";
+import { DEFAULT_TIME_ZONE } from "@/lib/time-zone";
 import { db } from "../index";
-import { dependencies, markers, statuses } from "../schema";
 import {
+  dependencies,
+  features,
+  markers,
+  roadmapSettings,
+  statuses,
+} from "../schema";
+import {
+  type BaselineWithFeatures,
+  type CalendarWithHolidays,
   type Dependency,
+  type FeatureLookups,
   type FeatureWithRelations,
+  type SerializedBaselineWithFeatures,
   type SerializedFeatureWithRelations,
   type SerializedMarker,
   type Status,
+  serializeBaseline,
   serializeFeature,
   serializeMarker,
+  type TrashedFeature,
 } from "../types";
+import { getFeatureLookups } from "./lookups";
 
+// Features on the roadmap; trashed features are left out
 export async function getAllFeaturesWithRelations(): Promise<
   FeatureWithRelations[]
 > {
   const result = await db.query.features.findMany({
+    where: isNull(features.deletedAt),
     with: {
       status: true,
       owner: true,
@@ -27,33 +44,132 @@ export async function getAllFeaturesWithRelations(): Promise<
   return result as FeatureWithRelations[];
 }
 
+// Statuses in display order, as kanban and list columns
 export async function getAllStatuses() {
-  return await db.select().from(statuses);
+  return await db
+    .select()
+    .from(statuses)
+    .orderBy(asc(statuses.position), asc(statuses.name));
 }
 
+// Dependencies between features on the roadmap. Links to a trashed feature
+// are kept for its restore but left out here.
 export async function getAllDependencies() {
-  return await db.select().from(dependencies);
+  const liveFeatureIds = db
+    .select({ id: features.id })
+    .from(features)
+    .where(isNull(features.deletedAt));
+  return await db
+    .select()
+    .from(dependencies)
+    .where(
+      and(
+        inArray(dependencies.sourceId, liveFeatureIds),
+        inArray(dependencies.targetId, liveFeatureIds)
+      )
+    );
+}
+
+// Trashed features, most recently deleted first
+export async function getTrashedFeatures(): Promise<TrashedFeature[]> {
+  const trashed = await db.query.features.findMany({
+    where: isNotNull(features.deletedAt),
+    with: {
+      status: true,
+      owner: true,
+      group: true,
+      product: true,
+      initiative: true,
+      release: true,
+    },
+    orderBy: (columns, { desc }) => [desc(columns.deletedAt)],
+  });
+  const ids = trashed.map((feature) => feature.id);
+  const links =
+    ids.length > 0
+      ? await db
+          .select({
+            sourceId: dependencies.sourceId,
+            targetId: dependencies.targetId,
+          })
+          .from(dependencies)
+          .where(
+            or(
+              inArray(dependencies.sourceId, ids),
+              inArray(dependencies.targetId, ids)
+            )
+          )
+      : [];
+
+  return (trashed as FeatureWithRelations[]).map((feature) => ({
+    ...feature,
+    dependencyCount: links.filter(
+      (link) => link.sourceId === feature.id || link.targetId === feature.id
+    ).length,
+  }));
 }
 
 export async function getAllMarkers() {
   return await db.select().from(markers);
 }
 
+export async function getAllCalendars(): Promise<CalendarWithHolidays[]> {
+  return await db.query.calendars.findMany({
+    with: { holidays: true },
+  });
+}
+
+// The roadmap's selected working calendar (null = plain calendar days)
+export async function getRoadmapCalendarId(): Promise<string | null> {
+  const [settings] = await db.select().from(roadmapSettings).limit(1);
+  return settings?.calendarId ?? null;
+}
+
+// Time zone schedule dates are shown in across every view
+export async function getRoadmapTimeZone(): Promise<string> {
+  const [settings] = await db.select().from(roadmapSettings).limit(1);
+  return settings?.timeZone ?? DEFAULT_TIME_ZONE;
+}
+
+// Baselines, newest first
+export async function getAllBaselines(): Promise<BaselineWithFeatures[]> {
+  return await db.query.baselines.findMany({
+    with: { features: true },
+    orderBy: (baselines, { desc }) => [desc(baselines.createdAt)],
+  });
+}
+
 // Get all roadmap data in one call
 export async function getRoadmapData() {
-  const [featuresData, statusesData, dependenciesData, markersData] =
-    await Promise.all([
-      getAllFeaturesWithRelations(),
-      getAllStatuses(),
-      getAllDependencies(),
-      getAllMarkers(),
-    ]);
+  const [
+    featuresData,
+    statusesData,
+    dependenciesData,
+    markersData,
+    calendarsData,
+    calendarId,
+    baselinesData,
+    timeZone,
+  ] = await Promise.all([
+    getAllFeaturesWithRelations(),
+    getAllStatuses(),
+    getAllDependencies(),
+    getAllMarkers(),
+    getAllCalendars(),
+    getRoadmapCalendarId(),
+    getAllBaselines(),
+    getRoadmapTimeZone(),
+  ]);
 
   return {
     features: featuresData,
     statuses: statusesData,
     dependencies: dependenciesData,
     markers: markersData,
+    calendars: calendarsData,
+    calendarId,
+    baselines: baselinesData,
+    timeZone,
   };
 }
 
@@ -64,19 +180,43 @@ export async function getSerializedRoadmapData(): Promise<{
   statuses: Status[];
   dependencies: Dependency[];
   markers: SerializedMarker[];
+  calendars: CalendarWithHolidays[];
+  calendarId: string | null;
+  baselines: SerializedBaselineWithFeatures[];
+  timeZone: string;
+  lookups: FeatureLookups;
 }> {
-  const [featuresData, statusesData, dependenciesData, markersData] =
-    await Promise.all([
-      getAllFeaturesWithRelations(),
-      getAllStatuses(),
-      getAllDependencies(),
-      getAllMarkers(),
-    ]);
+  const [
+    featuresData,
+    statusesData,
+    dependenciesData,
+    markersData,
+    calendarsData,
+    calendarId,
+    baselinesData,
+    timeZone,
+    lookups,
+  ] = await Promise.all([
+    getAllFeaturesWithRelations(),
+    getAllStatuses(),
+    getAllDependencies(),
+    getAllMarkers(),
+    getAllCalendars(),
+    getRoadmapCalendarId(),
+    getAllBaselines(),
+    getRoadmapTimeZone(),
+    getFeatureLookups(),
+  ]);
 
   return {
     features: featuresData.map(serializeFeature),
     statuses: statusesData,
     dependencies: dependenciesData,
     markers: markersData.map(serializeMarker),
+    calendars: calendarsData,
+    calendarId,
+    baselines: baselinesData.map(serializeBaseline),
+    timeZone,
+    lookups,
   };
 }
@@ -0,0 +1,122 @@
+import { asc, count, isNotNull } from "drizzle-orm";
+import { db } from "../index";
+import {
+  features,
+  groups,
+  initiatives,
+  products,
+  releases,
+  statuses,
+  users,
+} from "../schema";
+import type { FeatureLookups, LookupItem, LookupKind } from "../types";
+
+const LOOKUP_TABLES = {
+  status: statuses,
+  group: groups,
+  product: products,
+  initiative: initiatives,
+  release: releases,
+  user: users,
+};
+
+// Feature column that references each lookup table
+export const LOOKUP_FEATURE_FIELDS = {
+  status: "statusId",
+  group: "groupId",
+  product: "productId",
+  initiative: "initiativeId",
+  release: "releaseId",
+  user: "ownerId",
+} as const satisfies Record<LookupKind, keyof typeof features.$inferSelect>;
+
+export const LOOKUP_KINDS = Object.keys(LOOKUP_TABLES) as LookupKind[];
+
+type LookupTables = typeof LOOKUP_TABLES;
+
+// A row of any lookup table
+export type LookupRow = LookupTables[LookupKind]["$inferSelect"];
+
+// The table behind a lookup kind. For a kind only known at run time this is
+// the union of the tables, which can be read, updated and deleted from
+// through the columns they share (id, name, position and timestamps).
+export function getLookupTable<K extends LookupKind>(kind: K): LookupTables[K] {
+  return LOOKUP_TABLES[kind];
+}
+
+export function toLookupItem(row: LookupRow, featureCount: number): LookupItem {
+  return {
+    id: row.id,
+    name: row.name,
+    position: row.position,
+    ...("color" in row ? { color: row.color } : {}),
+    ...("image" in row ? { image: row.image } : {}),
+    featureCount,
+  };
+}
+
+// Rows of a lookup table in display order, with how many features use each
+export async function getLookupItems(kind: LookupKind): Promise<LookupItem[]> {
+  const table = getLookupTable(kind);
+  const column = features[LOOKUP_FEATURE_FIELDS[kind]];
+  const [rows, usage] = await Promise.all([
+    db.select().from(table).orderBy(asc(table.position), asc(table.name)),
+    db
+      .select({ id: column, featureCount: count() })
+      .from(features)
+      .where(isNotNull(column))
+      .groupBy(column),
+  ]);
+  const counts = new Map(usage.map((entry) => [entry.id, entry.featureCount]));
+
+  return rows.map((row) => toLookupItem(row, counts.get(row.id) ?? 0));
+}
+
+// Every lookup table, for the settings page
+export async function getAllLookupItems(): Promise<
+  Record<LookupKind, LookupItem[]>
+> {
+  const lists = await Promise.all(LOOKUP_KINDS.map(getLookupItems));
+  return Object.fromEntries(
+    LOOKUP_KINDS.map((kind, index) => [kind, lists[index]])
+  ) as Record<LookupKind, LookupItem[]>;
+}
+
+// Rows of every lookup table, for choosing a new feature's status, group, ...
+export async function getFeatureLookups(): Promise<FeatureLookups> {
+  const [
+    statusRows,
+    userRows,
+    groupRows,
+    productRows,
+    initiativeRows,
+    releaseRows,
+  ] = await Promise.all([
+    db
+      .select()
+      .from(statuses)
+      .orderBy(asc(statuses.position), asc(statuses.name)),
+    db.select().from(users).orderBy(asc(users.position), asc(users.name)),
+    db.select().from(groups).orderBy(asc(groups.position), asc(groups.name)),
+    db
+      .select()
+      .from(products)
+      .orderBy(asc(products.position), asc(products.name)),
+    db
+      .select()
+      .from(initiatives)
+      .orderBy(asc(initiatives.position), asc(initiatives.name)),
+    db
+      .select()
+      .from(releases)
+      .orderBy(asc(releases.position), asc(releases.name)),
+  ]);
+  return {
+    statuses: statusRows,
+    users: userRows,
+    groups: groupRows,
+    products: productRows,
+    initiatives: initiativeRows,
+    releases: releaseRows,
+  };
+}
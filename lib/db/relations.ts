@@ -1,11 +1,17 @@
 import { relations } from "drizzle-orm";
 import {
+  auditEvents,
+  baselineFeatures,
+  baselines,
+  calendars,
   dependencies,
   features,
   groups,
+  holidays,
   initiatives,
   products,
   releases,
+  roadmapSettings,
   statuses,
   users,
 } from "./schema";
@@ -16,6 +22,7 @@ export const statusesRelations = relations(statuses, ({ many }) => ({
 
 export const usersRelations = relations(users, ({ many }) => ({
   features: many(features),
+  auditEvents: many(auditEvents),
 }));
 
 export const groupsRelations = relations(groups, ({ many }) => ({
@@ -59,6 +66,14 @@ export const featuresRelations = relations(features, ({ one, many }) => ({
     fields: [features.releaseId],
     references: [releases.id],
   }),
+  parent: one(features, {
+    fields: [features.parentId],
+    references: [features.id],
+    relationName: "featureHierarchy",
+  }),
+  children: many(features, {
+    relationName: "featureHierarchy",
+  }),
   sourceDependencies: many(dependencies, {
     relationName: "sourceDependencies",
   }),
@@ -79,3 +94,49 @@ export const dependenciesRelations = relations(dependencies, ({ one }) => ({
     relationName: "targetDependencies",
   }),
 }));
+
+export const calendarsRelations = relations(calendars, ({ many }) => ({
+  holidays: many(holidays),
+}));
+
+export const holidaysRelations = relations(holidays, ({ one }) => ({
+  calendar: one(calendars, {
+    fields: [holidays.calendarId],
+    references: [calendars.id],
+  }),
+}));
+
+export const roadmapSettingsRelations = relations(
+  roadmapSettings,
+  ({ one }) => ({
+    calendar: one(calendars, {
+      fields: [roadmapSettings.calendarId],
+      references: [calendars.id],
+    }),
+  })
+);
+
+export const baselinesRelations = relations(baselines, ({ many }) => ({
+  features: many(baselineFeatures),
+}));
+
+export const baselineFeaturesRelations = relations(
+  baselineFeatures,
+  ({ one }) => ({
+    baseline: one(baselines, {
+      fields: [baselineFeatures.baselineId],
+      references: [baselines.id],
+    }),
+    feature: one(features, {
+      fields: [baselineFeatures.featureId],
+      references: [features.id],
+    }),
+  })
+);
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditEvents.actorId],
+    references: [users.id],
+  }),
+}));
@@ -1,8 +1,15 @@
+import { sql } from "drizzle-orm";
 import {
+  type AnyPgColumn,
+  check,
+  date,
   index,
+  integer,
+  jsonb,
   pgEnum,
   pgTable,
   timestamp,
+  unique,
   uuid,
   varchar,
 } from "drizzle-orm/pg-core";
@@ -15,13 +22,71 @@ export const dependencyTypeEnum = pgEnum("dependency_type", [
   "SF",
 ]);
 
+// Enum for how a dependency lag is counted (calendar days or working days)
+export const lagUnitEnum = pgEnum("lag_unit", ["calendar", "working"]);
+
+// Enum for feature scheduling constraints
+// SNET = Start No Earlier Than, FNLT = Finish No Later Than, MSO = Must Start On
+export const constraintTypeEnum = pgEnum("constraint_type", [
+  "SNET",
+  "FNLT",
+  "MSO",
+  "DEADLINE",
+]);
+
+// Enum for feature kinds: milestones are zero-duration (start equals end)
+export const featureKindEnum = pgEnum("feature_kind", ["task", "milestone"]);
+
+// Enums for the audit log: what kind of row changed, how, and what caused it.
+// Sources mirror the Gantt's pending change sources (drag, recalculate, level,
+// backward); "rollup" is a parent following its children
+export const auditEntityEnum = pgEnum("audit_entity", [
+  "feature",
+  "dependency",
+  "marker",
+  "calendar",
+  "holiday",
+  "baseline",
+  "settings",
+  "status",
+  "group",
+  "product",
+  "initiative",
+  "release",
+  "user",
+]);
+export const auditActionEnum = pgEnum("audit_action", [
+  "create",
+  "update",
+  "delete",
+  // Features are deleted to the trash, then restored or purged from it
+  "restore",
+  "purge",
+]);
+export const auditSourceEnum = pgEnum("audit_source", [
+  "edit",
+  "drag",
+  "recalculate",
+  "level",
+  "backward",
+  "import",
+  "revert",
+  "rollup",
+]);
+
 // Statuses table
 export const statuses = pgTable("statuses", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
   color: varchar("color", { length: 7 }).notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  // Display order in pickers, columns and sections; lowest first
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
 });
 
 // Users table
@@ -29,40 +94,65 @@ export const users = pgTable("users", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
   image: varchar("image", { length: 500 }),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
 });
 
 // Groups table
 export const groups = pgTable("groups", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
 });
 
 // Products table
 export const products = pgTable("products", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
 });
 
 // Initiatives table
 export const initiatives = pgTable("initiatives", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
 });
 
 // Releases table
 export const releases = pgTable("releases", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
 });
 
 // Features table
@@ -71,8 +161,14 @@ export const features = pgTable(
   {
     id: uuid("id").defaultRandom().primaryKey(),
     name: varchar("name", { length: 255 }).notNull(),
-    startAt: timestamp("start_at").notNull(),
-    endAt: timestamp("end_at").notNull(),
+    // Instants; the UI shows them in the roadmap settings' time zone
+    startAt: timestamp("start_at", { withTimezone: true }).notNull(),
+    endAt: timestamp("end_at", { withTimezone: true }).notNull(),
+    kind: featureKindEnum("kind").default("task").notNull(),
+    // Parent in the work breakdown; parents are summaries of their children
+    parentId: uuid("parent_id").references((): AnyPgColumn => features.id, {
+      onDelete: "set null",
+    }),
     statusId: uuid("status_id")
       .notNull()
       .references(() => statuses.id),
@@ -89,8 +185,22 @@ export const features = pgTable(
     releaseId: uuid("release_id")
       .notNull()
       .references(() => releases.id),
-    createdAt: timestamp("created_at").defaultNow().notNull(),
-    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    constraintType: constraintTypeEnum("constraint_type"),
+    constraintDate: date("constraint_date", { mode: "string" }),
+    // Three-point duration estimate in days; most likely defaults to the bar
+    optimisticDuration: integer("optimistic_duration"),
+    mostLikelyDuration: integer("most_likely_duration"),
+    pessimisticDuration: integer("pessimistic_duration"),
+    percentComplete: integer("percent_complete").default(0).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    // Set while the feature is in the trash; it keeps its dependencies until
+    // it is purged
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
   },
   (table) => [
     index("features_status_id_idx").on(table.statusId),
@@ -99,8 +209,37 @@ export const features = pgTable(
     index("features_product_id_idx").on(table.productId),
     index("features_initiative_id_idx").on(table.initiativeId),
     index("features_release_id_idx").on(table.releaseId),
+    index("features_parent_id_idx").on(table.parentId),
     index("features_start_at_idx").on(table.startAt),
     index("features_end_at_idx").on(table.endAt),
+    index("features_deleted_at_idx").on(table.deletedAt),
+    check(
+      "features_constraint_complete",
+      sql`(${table.constraintType} IS NULL) = (${table.constraintDate} IS NULL)`
+    ),
+    check("features_not_own_parent", sql`${table.parentId} <> ${table.id}`),
+    check("features_name_not_blank", sql`btrim(${table.name}) <> ''`),
+    check("features_end_after_start", sql`${table.endAt} >= ${table.startAt}`),
+    check(
+      "features_milestone_zero_duration",
+      sql`${table.kind} <> 'milestone' OR ${table.startAt} = ${table.endAt}`
+    ),
+    check(
+      "features_percent_complete_range",
+      sql`${table.percentComplete} BETWEEN 0 AND 100`
+    ),
+    check(
+      "features_estimate_complete",
+      sql`(${table.optimisticDuration} IS NULL) = (${table.pessimisticDuration} IS NULL)`
+    ),
+    check(
+      "features_estimate_order",
+      sql`${table.optimisticDuration} IS NULL OR (${table.optimisticDuration} >= 0 AND ${table.optimisticDuration} <= ${table.pessimisticDuration})`
+    ),
+    check(
+      "features_most_likely_in_range",
+      sql`${table.mostLikelyDuration} IS NULL OR ${table.optimisticDuration} IS NULL OR ${table.mostLikelyDuration} BETWEEN ${table.optimisticDuration} AND ${table.pessimisticDuration}`
+    ),
   ]
 );
 
@@ -109,11 +248,15 @@ export const markers = pgTable(
   "markers",
   {
     id: uuid("id").defaultRandom().primaryKey(),
-    date: timestamp("date").notNull(),
+    date: timestamp("date", { withTimezone: true }).notNull(),
     label: varchar("label", { length: 255 }).notNull(),
     className: varchar("class_name", { length: 255 }).notNull(),
-    createdAt: timestamp("created_at").defaultNow().notNull(),
-    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
   },
   (table) => [index("markers_date_idx").on(table.date)]
 );
@@ -130,12 +273,156 @@ export const dependencies = pgTable(
       .notNull()
       .references(() => features.id, { onDelete: "cascade" }),
     type: dependencyTypeEnum("type").notNull(),
+    // Signed offset in days: positive delays the target, negative overlaps it
+    lag: integer("lag").notNull().default(0),
+    lagUnit: lagUnitEnum("lag_unit").notNull().default("calendar"),
     color: varchar("color", { length: 7 }),
-    createdAt: timestamp("created_at").defaultNow().notNull(),
-    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
   },
   (table) => [
     index("dependencies_source_id_idx").on(table.sourceId),
     index("dependencies_target_id_idx").on(table.targetId),
+    unique("dependencies_source_target_type_unique").on(
+      table.sourceId,
+      table.targetId,
+      table.type
+    ),
+    check(
+      "dependencies_no_self_reference",
+      sql`${table.sourceId} <> ${table.targetId}`
+    ),
+  ]
+);
+
+// Working calendars table (weekly work pattern used for duration math)
+export const calendars = pgTable(
+  "calendars",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    name: varchar("name", { length: 255 }).notNull(),
+    // Working weekdays using Date#getDay numbering (0 = Sunday ... 6 = Saturday)
+    workingDays: integer("working_days")
+      .array()
+      .notNull()
+      .default([1, 2, 3, 4, 5]),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    check(
+      "calendars_working_days_range",
+      sql`${table.workingDays} <@ ARRAY[0, 1, 2, 3, 4, 5, 6]`
+    ),
+  ]
+);
+
+// Holidays table (non-working dates that override a calendar's work pattern)
+export const holidays = pgTable(
+  "holidays",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    calendarId: uuid("calendar_id")
+      .notNull()
+      .references(() => calendars.id, { onDelete: "cascade" }),
+    // Whole-day date stored as "yyyy-MM-dd" so it is not shifted by time zones
+    date: date("date", { mode: "string" }).notNull(),
+    name: varchar("name", { length: 255 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [index("holidays_calendar_id_idx").on(table.calendarId)]
+);
+
+// Roadmap settings table (single row holding roadmap-wide preferences)
+export const roadmapSettings = pgTable("roadmap_settings", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  calendarId: uuid("calendar_id").references(() => calendars.id, {
+    onDelete: "set null",
+  }),
+  // IANA time zone schedule dates are shown in, e.g. "Europe/Berlin"
+  timeZone: varchar("time_zone", { length: 64 }).notNull().default("UTC"),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+});
+
+// Baselines table (named snapshot of the plan, e.g. frozen at kickoff)
+export const baselines = pgTable("baselines", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+});
+
+// Baseline features table (each feature's dates when the baseline was captured)
+export const baselineFeatures = pgTable(
+  "baseline_features",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    baselineId: uuid("baseline_id")
+      .notNull()
+      .references(() => baselines.id, { onDelete: "cascade" }),
+    featureId: uuid("feature_id")
+      .notNull()
+      .references(() => features.id, { onDelete: "cascade" }),
+    startAt: timestamp("start_at", { withTimezone: true }).notNull(),
+    endAt: timestamp("end_at", { withTimezone: true }).notNull(),
+  },
+  (table) => [
+    index("baseline_features_baseline_id_idx").on(table.baselineId),
+    unique("baseline_features_baseline_feature_unique").on(
+      table.baselineId,
+      table.featureId
+    ),
+    check(
+      "baseline_features_end_after_start",
+      sql`${table.endAt} >= ${table.startAt}`
+    ),
+  ]
+);
+
+// Audit events table (one row per change made through the server actions)
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    entityType: auditEntityEnum("entity_type").notNull(),
+    // Not a foreign key, so history outlives the row it describes
+    entityId: uuid("entity_id").notNull(),
+    action: auditActionEnum("action").notNull(),
+    source: auditSourceEnum("source").default("edit").notNull(),
+    // Row snapshots; before is null for creates and after for deletes
+    before: jsonb("before"),
+    after: jsonb("after"),
+    actorId: uuid("actor_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    index("audit_events_entity_idx").on(table.entityType, table.entityId),
+    index("audit_events_created_at_idx").on(table.createdAt),
   ]
 );
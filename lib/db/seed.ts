@@ -1,13 +1,20 @@
+import { inArray } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import {
+  auditEvents,
+  baselineFeatures,
+  baselines,
+  calendars,
   dependencies,
   features,
   groups,
+  holidays,
   initiatives,
   markers,
   products,
   releases,
+  roadmapSettings,
   statuses,
   users,
 } from "./schema";
@@ -62,6 +69,18 @@ const seedReleases = [
   { name: "v3.0 Beta" },
 ];
 
+const seedCalendars = [
+  { name: "Standard (Mon-Fri)", workingDays: [1, 2, 3, 4, 5] },
+  { name: "Support (Mon-Sat)", workingDays: [1, 2, 3, 4, 5, 6] },
+];
+
+// Month-day pairs seeded as holidays for last, this and next year
+const seedHolidayDates = [
+  { monthDay: "01-01", name: "New Year's Day" },
+  { monthDay: "12-25", name: "Christmas Day" },
+  { monthDay: "12-26", name: "Boxing Day" },
+];
+
 const markerClassNames = [
   "bg-blue-100 text-blue-900",
   "bg-green-100 text-green-900",
@@ -104,6 +123,11 @@ const featureNames = [
 ];
 
 // Date helpers
+// Seed lookup rows in the order they are listed
+function withPositions<T>(rows: T[]): (T & { position: number })[] {
+  return rows.map((row, position) => ({ ...row, position }));
+}
+
 function randomDateInRange(startOffset: number, endOffset: number): Date {
   const now = new Date();
   const start = new Date(now.getTime() + startOffset * 24 * 60 * 60 * 1000);
@@ -117,11 +141,30 @@ function randomElement<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)];
 }
 
+// Progress near the elapsed share of the feature, so some run behind
+function getSeedProgress(startAt: Date, endAt: Date): number {
+  const now = Date.now();
+  const elapsed =
+    (now - startAt.getTime()) / (endAt.getTime() - startAt.getTime());
+  if (elapsed <= 0) {
+    return 0;
+  }
+  const clamped = Math.min(elapsed, 1);
+  const jitter = (Math.random() - 0.5) * 0.4;
+  return Math.round(Math.min(Math.max(clamped + jitter, 0), 1) * 100);
+}
+
 async function seed() {
   console.log("Seeding database...");
 
   // Clear existing data (in reverse order of dependencies)
   console.log("Clearing existing data...");
+  await db.delete(auditEvents);
+  await db.delete(baselineFeatures);
+  await db.delete(baselines);
+  await db.delete(roadmapSettings);
+  await db.delete(holidays);
+  await db.delete(calendars);
   await db.delete(dependencies);
   await db.delete(features);
   await db.delete(markers);
@@ -135,39 +178,72 @@ async function seed() {
   // Insert statuses
   const insertedStatuses = await db
     .insert(statuses)
-    .values(seedStatuses)
+    .values(withPositions(seedStatuses))
     .returning();
   console.log(`Inserted ${insertedStatuses.length} statuses`);
 
   // Insert users
-  const insertedUsers = await db.insert(users).values(seedUsers).returning();
+  const insertedUsers = await db
+    .insert(users)
+    .values(withPositions(seedUsers))
+    .returning();
   console.log(`Inserted ${insertedUsers.length} users`);
 
   // Insert groups
-  const insertedGroups = await db.insert(groups).values(seedGroups).returning();
+  const insertedGroups = await db
+    .insert(groups)
+    .values(withPositions(seedGroups))
+    .returning();
   console.log(`Inserted ${insertedGroups.length} groups`);
 
   // Insert products
   const insertedProducts = await db
     .insert(products)
-    .values(seedProducts)
+    .values(withPositions(seedProducts))
     .returning();
   console.log(`Inserted ${insertedProducts.length} products`);
 
   // Insert initiatives
   const insertedInitiatives = await db
     .insert(initiatives)
-    .values(seedInitiatives)
+    .values(withPositions(seedInitiatives))
     .returning();
   console.log(`Inserted ${insertedInitiatives.length} initiatives`);
 
   // Insert releases
   const insertedReleases = await db
     .insert(releases)
-    .values(seedReleases)
+    .values(withPositions(seedReleases))
     .returning();
   console.log(`Inserted ${insertedReleases.length} releases`);
 
+  // Insert calendars, their holidays, and select the standard calendar
+  const insertedCalendars = await db
+    .insert(calendars)
+    .values(seedCalendars)
+    .returning();
+  console.log(`Inserted ${insertedCalendars.length} calendars`);
+
+  const currentYear = new Date().getFullYear();
+  const holidayValues = insertedCalendars.flatMap((calendar) =>
+    [currentYear - 1, currentYear, currentYear + 1].flatMap((year) =>
+      seedHolidayDates.map(({ monthDay, name }) => ({
+        calendarId: calendar.id,
+        date: `${year}-${monthDay}`,
+        name,
+      }))
+    )
+  );
+  const insertedHolidays = await db
+    .insert(holidays)
+    .values(holidayValues)
+    .returning();
+  console.log(`Inserted ${insertedHolidays.length} holidays`);
+
+  await db
+    .insert(roadmapSettings)
+    .values({ calendarId: insertedCalendars[0].id });
+
   // Insert markers with dates
   const markersWithDates = seedMarkerLabels.map((label, index) => ({
     label,
@@ -181,29 +257,123 @@ async function seed() {
   console.log(`Inserted ${insertedMarkers.length} markers`);
 
   // Insert features
-  const featureValues = featureNames.map((name) => {
-    const startAt = randomDateInRange(-180, 90);
-    const duration = Math.floor(Math.random() * 60) + 14; // 14-74 days
-    const endAt = new Date(startAt.getTime() + duration * 24 * 60 * 60 * 1000);
-
-    return {
-      name,
-      startAt,
-      endAt,
-      statusId: randomElement(insertedStatuses).id,
-      ownerId: randomElement(insertedUsers).id,
-      groupId: randomElement(insertedGroups).id,
-      productId: randomElement(insertedProducts).id,
-      initiativeId: randomElement(insertedInitiatives).id,
-      releaseId: randomElement(insertedReleases).id,
-    };
-  });
+  const featureValues: (typeof features.$inferInsert)[] = featureNames.map(
+    (name) => {
+      const startAt = randomDateInRange(-180, 90);
+      const duration = Math.floor(Math.random() * 60) + 14; // 14-74 days
+      const endAt = new Date(
+        startAt.getTime() + duration * 24 * 60 * 60 * 1000
+      );
+      // Three-point estimate around the bar, in working days (5 of every 7)
+      const workingDays = Math.round((duration * 5) / 7);
+
+      return {
+        name,
+        startAt,
+        endAt,
+        statusId: randomElement(insertedStatuses).id,
+        ownerId: randomElement(insertedUsers).id,
+        groupId: randomElement(insertedGroups).id,
+        productId: randomElement(insertedProducts).id,
+        initiativeId: randomElement(insertedInitiatives).id,
+        releaseId: randomElement(insertedReleases).id,
+        percentComplete: getSeedProgress(startAt, endAt),
+        optimisticDuration: Math.round(workingDays * 0.8),
+        pessimisticDuration: Math.round(workingDays * 1.5),
+      };
+    }
+  );
+  // A couple of scheduling constraints: a deadline on the end of chain 1
+  // and a start-no-earlier-than on the source of the Start-to-Start pair
+  const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+  featureValues[2] = {
+    ...featureValues[2],
+    constraintType: "DEADLINE",
+    constraintDate: toDateString(featureValues[2].endAt),
+  };
+  featureValues[6] = {
+    ...featureValues[6],
+    constraintType: "SNET",
+    constraintDate: toDateString(featureValues[6].startAt),
+  };
   const insertedFeatures = await db
     .insert(features)
     .values(featureValues)
     .returning();
   console.log(`Inserted ${insertedFeatures.length} features`);
 
+  // Milestones: zero-duration features that follow the end of chains 1 and 2
+  const milestoneValues = ["Beta launch", "General availability"].map(
+    (name, index) => {
+      const source = insertedFeatures[index === 0 ? 2 : 5];
+      return {
+        ...featureValues[index === 0 ? 2 : 5],
+        name,
+        kind: "milestone" as const,
+        startAt: source.endAt,
+        endAt: source.endAt,
+        constraintType: null,
+        constraintDate: null,
+        optimisticDuration: null,
+        pessimisticDuration: null,
+        percentComplete: 0,
+      };
+    }
+  );
+  const insertedMilestones = await db
+    .insert(features)
+    .values(milestoneValues)
+    .returning();
+  console.log(`Inserted ${insertedMilestones.length} milestones`);
+
+  // Work breakdown: an epic over chain 2, with its middle feature split into
+  // two tasks. Parent dates span their children.
+  const chain2 = insertedFeatures.slice(3, 6);
+  const [epic] = await db
+    .insert(features)
+    .values({
+      ...featureValues[3],
+      name: "Checkout revamp",
+      startAt: new Date(Math.min(...chain2.map((f) => f.startAt.getTime()))),
+      endAt: new Date(Math.max(...chain2.map((f) => f.endAt.getTime()))),
+      constraintType: null,
+      constraintDate: null,
+      optimisticDuration: null,
+      pessimisticDuration: null,
+    })
+    .returning();
+  await db
+    .update(features)
+    .set({ parentId: epic.id })
+    .where(
+      inArray(
+        features.id,
+        chain2.map((f) => f.id)
+      )
+    );
+  const splitFeature = insertedFeatures[4];
+  const midpoint = new Date(
+    (splitFeature.startAt.getTime() + splitFeature.endAt.getTime()) / 2
+  );
+  const taskValues = [
+    { name: "Design", startAt: splitFeature.startAt, endAt: midpoint },
+    { name: "Build", startAt: midpoint, endAt: splitFeature.endAt },
+  ].map((task) => ({
+    ...featureValues[4],
+    name: `${splitFeature.name}: ${task.name}`,
+    startAt: task.startAt,
+    endAt: task.endAt,
+    parentId: splitFeature.id,
+    percentComplete: getSeedProgress(task.startAt, task.endAt),
+    optimisticDuration: null,
+    pessimisticDuration: null,
+  }));
+  const insertedTasks = await db
+    .insert(features)
+    .values(taskValues)
+    .returning();
+  console.log(`Inserted 1 epic and ${insertedTasks.length} tasks`);
+
   // Insert dependencies (matching the pattern from roadmap/page.tsx)
   const dependencyColors = {
     blue: "#3b82f6",
@@ -215,11 +385,25 @@ async function seed() {
   };
 
   const dependencyValues = [
-    // Chain 1: Features 0 -> 1 -> 2 (FS chain)
+    // Chain ends lead into the milestones
+    {
+      sourceId: insertedFeatures[2].id,
+      targetId: insertedMilestones[0].id,
+      type: "FS" as const,
+      color: dependencyColors.pink,
+    },
+    {
+      sourceId: insertedFeatures[5].id,
+      targetId: insertedMilestones[1].id,
+      type: "FS" as const,
+      color: dependencyColors.pink,
+    },
+    // Chain 1: Features 0 -> 1 -> 2 (FS chain, first link with a 3-day lag)
     {
       sourceId: insertedFeatures[0].id,
       targetId: insertedFeatures[1].id,
       type: "FS" as const,
+      lag: 3,
     },
     {
       sourceId: insertedFeatures[1].id,
@@ -239,11 +423,12 @@ async function seed() {
       type: "FS" as const,
       color: dependencyColors.blue,
     },
-    // Start-to-Start: Features 6 and 7
+    // Start-to-Start with a 2-day lead: Features 6 and 7
     {
       sourceId: insertedFeatures[6].id,
       targetId: insertedFeatures[7].id,
       type: "SS" as const,
+      lag: -2,
       color: dependencyColors.green,
     },
     // Finish-to-Finish: Features 8 and 9
@@ -306,6 +491,21 @@ async function seed() {
     .returning();
   console.log(`Inserted ${insertedDependencies.length} dependencies`);
 
+  // Capture the seeded plan as the kickoff baseline
+  const [kickoffBaseline] = await db
+    .insert(baselines)
+    .values({ name: "Kickoff" })
+    .returning();
+  await db.insert(baselineFeatures).values(
+    insertedFeatures.map((feature) => ({
+      baselineId: kickoffBaseline.id,
+      featureId: feature.id,
+      startAt: feature.startAt,
+      endAt: feature.endAt,
+    }))
+  );
+  console.log(`Inserted baseline "${kickoffBaseline.name}"`);
+
   console.log("Seeding complete!");
 }
 
@@ -1,12 +1,19 @@
 import type { InferInsertModel, InferSelectModel } from "drizzle-orm";
+import { DEFAULT_TIME_ZONE, toZonedDate } from "@/lib/time-zone";
 import type {
+  auditEvents,
+  baselineFeatures,
+  baselines,
+  calendars,
   dependencies,
   features,
   groups,
+  holidays,
   initiatives,
   markers,
   products,
   releases,
+  roadmapSettings,
   statuses,
   users,
 } from "./schema";
@@ -21,6 +28,12 @@ export type Release = InferSelectModel<typeof releases>;
 export type Feature = InferSelectModel<typeof features>;
 export type Marker = InferSelectModel<typeof markers>;
 export type Dependency = InferSelectModel<typeof dependencies>;
+export type Calendar = InferSelectModel<typeof calendars>;
+export type Holiday = InferSelectModel<typeof holidays>;
+export type RoadmapSettings = InferSelectModel<typeof roadmapSettings>;
+export type Baseline = InferSelectModel<typeof baselines>;
+export type BaselineFeature = InferSelectModel<typeof baselineFeatures>;
+export type AuditEvent = InferSelectModel<typeof auditEvents>;
 
 // Insert types (for inserting into DB)
 export type NewStatus = InferInsertModel<typeof statuses>;
@@ -32,6 +45,11 @@ export type NewRelease = InferInsertModel<typeof releases>;
 export type NewFeature = InferInsertModel<typeof features>;
 export type NewMarker = InferInsertModel<typeof markers>;
 export type NewDependency = InferInsertModel<typeof dependencies>;
+export type NewCalendar = InferInsertModel<typeof calendars>;
+export type NewHoliday = InferInsertModel<typeof holidays>;
+export type NewBaseline = InferInsertModel<typeof baselines>;
+export type NewBaselineFeature = InferInsertModel<typeof baselineFeatures>;
+export type NewAuditEvent = InferInsertModel<typeof auditEvents>;
 
 // Feature with all relations (for roadmap page)
 export type FeatureWithRelations = Feature & {
@@ -43,16 +61,64 @@ export type FeatureWithRelations = Feature & {
   release: Release;
 };
 
+// Calendar with its holidays (for scheduling)
+export type CalendarWithHolidays = Calendar & {
+  holidays: Holiday[];
+};
+
+// Baseline with the snapshot dates of every feature it captured
+export type BaselineWithFeatures = Baseline & {
+  features: BaselineFeature[];
+};
+
+// Feature in the trash, with how many dependencies return when it is restored
+export type TrashedFeature = FeatureWithRelations & {
+  dependencyCount: number;
+};
+
+// Audit event with the user who made the change (null when unknown)
+export type AuditEventWithActor = AuditEvent & {
+  actor: User | null;
+};
+
+// Lookup tables features point at, managed on the settings page
+export type LookupKind =
+  | "status"
+  | "group"
+  | "product"
+  | "initiative"
+  | "release"
+  | "user";
+
+// Every row a feature can point at, in display order, for feature forms
+export type FeatureLookups = {
+  statuses: Status[];
+  users: User[];
+  groups: Group[];
+  products: Product[];
+  initiatives: Initiative[];
+  releases: Release[];
+};
+
+// A lookup row as listed on the settings page; color is set for statuses
+// and image for users. featureCount includes trashed features.
+export type LookupItem = Pick<Group, "id" | "name" | "position"> & {
+  color?: string;
+  image?: string | null;
+  featureCount: number;
+};
+
 // Serialized types for passing data from server to client components
 // Date objects are serialized to ISO strings during RSC serialization
 export type SerializedFeature = Omit<
   Feature,
-  "startAt" | "endAt" | "createdAt" | "updatedAt"
+  "startAt" | "endAt" | "createdAt" | "updatedAt" | "deletedAt"
 > & {
   startAt: string;
   endAt: string;
   createdAt: string;
   updatedAt: string;
+  deletedAt: string | null;
 };
 
 export type SerializedMarker = Omit<
@@ -66,12 +132,34 @@ export type SerializedMarker = Omit<
 
 export type SerializedFeatureWithRelations = Omit<
   FeatureWithRelations,
-  "startAt" | "endAt" | "createdAt" | "updatedAt"
+  "startAt" | "endAt" | "createdAt" | "updatedAt" | "deletedAt"
 > & {
   startAt: string;
   endAt: string;
   createdAt: string;
   updatedAt: string;
+  deletedAt: string | null;
+};
+
+export type SerializedTrashedFeature = SerializedFeatureWithRelations & {
+  dependencyCount: number;
+};
+
+export type SerializedBaselineFeature = Omit<
+  BaselineFeature,
+  "startAt" | "endAt"
+> & {
+  startAt: string;
+  endAt: string;
+};
+
+export type SerializedBaselineWithFeatures = Omit<
+  BaselineWithFeatures,
+  "features" | "createdAt" | "updatedAt"
+> & {
+  features: SerializedBaselineFeature[];
+  createdAt: string;
+  updatedAt: string;
 };
 
 // Serialize functions to prepare data for RSC serialization
@@ -85,6 +173,7 @@ export function serializeFeature(
     endAt: feature.endAt.toISOString(),
     createdAt: feature.createdAt.toISOString(),
     updatedAt: feature.updatedAt.toISOString(),
+    deletedAt: feature.deletedAt?.toISOString() ?? null,
   };
 }
 
@@ -97,29 +186,69 @@ export function serializeMarker(marker: Marker): SerializedMarker {
   };
 }
 
-// Helper functions to deserialize dates in client components
+export function serializeBaseline(
+  baseline: BaselineWithFeatures
+): SerializedBaselineWithFeatures {
+  return {
+    ...baseline,
+    features: baseline.features.map((entry) => ({
+      ...entry,
+      startAt: entry.startAt.toISOString(),
+      endAt: entry.endAt.toISOString(),
+    })),
+    createdAt: baseline.createdAt.toISOString(),
+    updatedAt: baseline.updatedAt.toISOString(),
+  };
+}
+
+// Helper functions to deserialize dates in client components.
+// Schedule dates are shifted to wall-clock time in the workspace time zone
+// (convert back with fromZonedDate before saving); createdAt and updatedAt
+// stay exact instants.
 export function deserializeFeature<T extends SerializedFeature>(
-  feature: T
-): Omit<T, "startAt" | "endAt" | "createdAt" | "updatedAt"> & {
+  feature: T,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Omit<T, "startAt" | "endAt" | "createdAt" | "updatedAt" | "deletedAt"> & {
   startAt: Date;
   endAt: Date;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
 } {
   return {
     ...feature,
-    startAt: new Date(feature.startAt),
-    endAt: new Date(feature.endAt),
+    startAt: toZonedDate(new Date(feature.startAt), timeZone),
+    endAt: toZonedDate(new Date(feature.endAt), timeZone),
     createdAt: new Date(feature.createdAt),
     updatedAt: new Date(feature.updatedAt),
+    deletedAt: feature.deletedAt ? new Date(feature.deletedAt) : null,
   };
 }
 
-export function deserializeMarker(marker: SerializedMarker): Marker {
+export function deserializeMarker(
+  marker: SerializedMarker,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Marker {
   return {
     ...marker,
-    date: new Date(marker.date),
+    date: toZonedDate(new Date(marker.date), timeZone),
     createdAt: new Date(marker.createdAt),
     updatedAt: new Date(marker.updatedAt),
   };
 }
+
+export function deserializeBaseline(
+  baseline: SerializedBaselineWithFeatures,
+  timeZone: string = DEFAULT_TIME_ZONE
+): BaselineWithFeatures {
+  return {
+    ...baseline,
+    features: baseline.features.map((entry) => ({
+      ...entry,
+      startAt: toZonedDate(new Date(entry.startAt), timeZone),
+      endAt: toZonedDate(new Date(entry.endAt), timeZone),
+    })),
+    createdAt: new Date(baseline.createdAt),
+    updatedAt: new Date(baseline.updatedAt),
+  };
+}
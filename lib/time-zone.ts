@@ -0,0 +1,127 @@
+// Workspace time zone helpers. Schedule dates are stored as instants
+// (timestamptz) and shown as wall-clock time in the workspace time zone, so
+// everyone sees a feature on the same day wherever their browser is.
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// IANA time zones the runtime knows about, for settings pickers
+export function getTimeZones(): string[] {
+  const timeZones = Intl.supportedValuesOf("timeZone");
+  return timeZones.includes(DEFAULT_TIME_ZONE)
+    ? timeZones
+    : [DEFAULT_TIME_ZONE, ...timeZones];
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+type WallClock = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+// Calendar fields of an instant as read on a clock in the time zone
+function getWallClock(date: Date, timeZone: string): WallClock {
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second,
+  };
+}
+
+// Milliseconds the time zone is ahead of UTC at an instant
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const clock = getWallClock(date, timeZone);
+  const asUtc = Date.UTC(
+    clock.year,
+    clock.month - 1,
+    clock.day,
+    clock.hour,
+    clock.minute,
+    clock.second
+  );
+  return asUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Convert an instant to a Date whose local fields (getDate, getHours, ...)
+ * show the wall-clock time in the time zone, for date-fns math and display.
+ *
+ * @param date - Instant to convert
+ * @param timeZone - IANA time zone, e.g. "Europe/Berlin"
+ * @returns A local Date reading the same as a clock in the time zone
+ */
+export function toZonedDate(date: Date, timeZone: string): Date {
+  const clock = getWallClock(date, timeZone);
+  return new Date(
+    clock.year,
+    clock.month - 1,
+    clock.day,
+    clock.hour,
+    clock.minute,
+    clock.second,
+    date.getMilliseconds()
+  );
+}
+
+/**
+ * Inverse of toZonedDate: read a local Date's fields as wall-clock time in
+ * the time zone and return the instant, for sending back to the server.
+ *
+ * @param date - Local Date holding a wall-clock time
+ * @param timeZone - IANA time zone, e.g. "Europe/Berlin"
+ * @returns The instant at which a clock in the time zone shows that time
+ */
+export function fromZonedDate(date: Date, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+  // The offset can change at the instant itself (DST), so check it twice
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
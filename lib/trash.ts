@@ -0,0 +1,9 @@
+import { addDays } from "date-fns";
+
+// Days a deleted feature stays in the trash before it can be purged
+export const TRASH_RETENTION_DAYS = 30;
+
+// When a feature deleted at this time becomes eligible for purging
+export function getPurgeDate(deletedAt: Date): Date {
+  return addDays(deletedAt, TRASH_RETENTION_DAYS);
+}
@@ -0,0 +1,333 @@
+// Input validation shared by client forms and server actions. Validators
+// return a message per invalid field; an empty object means the input is
+// valid. Forms check before submitting, and actions check again before
+// anything reaches the database.
+
+import type { LookupKind, NewFeature } from "@/lib/db/types";
+
+// Message for each invalid field, keyed by the field's property name
+export type FieldErrors = Record<string, string>;
+
+export type ActionErrorCode =
+  // Input failed validation; fieldErrors says which fields and why
+  | "validation_failed"
+  // Input names a status, group, feature, ... that does not exist
+  | "invalid_reference"
+  // The change breaks a scheduling rule (cycles, self-links, duplicates)
+  | "rule_violation"
+  | "not_found"
+  // Someone else changed the record since it was read
+  | "conflict"
+  | "internal_error";
+
+export type ActionResult<T> =
+  | { success: true; data: T }
+  | {
+      success: false;
+      error: string;
+      code: ActionErrorCode;
+      fieldErrors?: FieldErrors;
+    };
+
+export const NAME_MAX_LENGTH = 255;
+
+const FEATURE_KINDS: readonly NewFeature["kind"][] = ["task", "milestone"];
+export const IMAGE_URL_MAX_LENGTH = 500;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const VOWEL_START = /^[aeiou]/;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export function hasFieldErrors(errors: FieldErrors): boolean {
+  return Object.keys(errors).length > 0;
+}
+
+// The first message, for places that show a single line
+export function getFirstFieldError(errors: FieldErrors): string | null {
+  return Object.values(errors)[0] ?? null;
+}
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+// Whole-day date as stored in date columns, e.g. "2025-03-31"
+export function isDateString(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value);
+}
+
+function isValidDate(value: unknown): value is Date {
+  return value instanceof Date && !Number.isNaN(value.getTime());
+}
+
+// A required display name: not blank and within the column length
+export function validateName(name: unknown, label = "Name"): string | null {
+  if (typeof name !== "string" || name.trim() === "") {
+    return `${label} is required`;
+  }
+  if (name.trim().length > NAME_MAX_LENGTH) {
+    return `${label} must be at most ${NAME_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+export type EstimateInput = {
+  optimisticDuration: number | null;
+  mostLikelyDuration: number | null;
+  pessimisticDuration: number | null;
+};
+
+// Three-point estimate in whole days. Optimistic and pessimistic go
+// together; most likely is optional.
+export function validateEstimate(value: EstimateInput): FieldErrors {
+  const errors: FieldErrors = {};
+  const {
+    optimisticDuration: min,
+    mostLikelyDuration: mode,
+    pessimisticDuration: max,
+  } = value;
+  for (const [field, duration] of Object.entries(value)) {
+    if (duration !== null && !(Number.isInteger(duration) && duration >= 0)) {
+      errors[field] = "Durations must be whole days, zero or more";
+    }
+  }
+  if (hasFieldErrors(errors)) {
+    return errors;
+  }
+
+  const order = "Durations must be optimistic ≤ most likely ≤ pessimistic";
+  if ((min === null) !== (max === null)) {
+    errors[min === null ? "optimisticDuration" : "pessimisticDuration"] =
+      "Enter both an optimistic and a pessimistic duration";
+  } else if (min !== null && max !== null && min > max) {
+    errors.pessimisticDuration = order;
+  } else if (
+    min !== null &&
+    max !== null &&
+    mode !== null &&
+    (mode < min || mode > max)
+  ) {
+    errors.mostLikelyDuration = order;
+  }
+  return errors;
+}
+
+// Signed dependency lag in whole days
+export function validateLag(lag: unknown): FieldErrors {
+  return typeof lag === "number" && Number.isInteger(lag)
+    ? {}
+    : { lag: "Lag must be a whole number of days" };
+}
+
+export function validateWorkingDays(workingDays: unknown): FieldErrors {
+  const valid =
+    Array.isArray(workingDays) &&
+    workingDays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+  return valid
+    ? {}
+    : { workingDays: "Working days must be weekday numbers between 0 and 6" };
+}
+
+// Editable fields of a status, group, product, initiative, release or user
+export type LookupInput = {
+  name: string;
+  // Statuses only, as #rrggbb
+  color?: string;
+  // Users only: avatar URL, or null for none
+  image?: string | null;
+};
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function validateLookup(
+  kind: LookupKind,
+  data: LookupInput
+): FieldErrors {
+  const errors: FieldErrors = {};
+  const nameError = validateName(data.name);
+  if (nameError) {
+    errors.name = nameError;
+  }
+  if (
+    kind === "status" &&
+    !(typeof data.color === "string" && HEX_COLOR_PATTERN.test(data.color))
+  ) {
+    errors.color = "Choose a color";
+  }
+  if (kind === "user" && data.image) {
+    if (data.image.length > IMAGE_URL_MAX_LENGTH) {
+      errors.image = `Image URL must be at most ${IMAGE_URL_MAX_LENGTH} characters`;
+    } else if (!isHttpUrl(data.image)) {
+      errors.image = "Enter a web address starting with http:// or https://";
+    }
+  }
+  return errors;
+}
+
+export type FeatureInput = Partial<
+  Omit<NewFeature, "id" | "createdAt" | "updatedAt" | "deletedAt">
+>;
+
+const REFERENCE_LABELS = {
+  statusId: "status",
+  groupId: "group",
+  productId: "product",
+  initiativeId: "initiative",
+  releaseId: "release",
+  ownerId: "owner",
+  parentId: "parent",
+} as const;
+
+export type FeatureReferenceField = keyof typeof REFERENCE_LABELS;
+
+export const FEATURE_REFERENCE_FIELDS = Object.keys(
+  REFERENCE_LABELS
+) as FeatureReferenceField[];
+
+// Fields every new feature needs
+const REQUIRED_FEATURE_FIELDS = [
+  "name",
+  "startAt",
+  "endAt",
+  "statusId",
+  "groupId",
+  "productId",
+  "initiativeId",
+  "releaseId",
+] as const;
+
+export function getReferenceLabel(field: FeatureReferenceField): string {
+  return REFERENCE_LABELS[field];
+}
+
+function chooseMessage(field: FeatureReferenceField): string {
+  const label = REFERENCE_LABELS[field];
+  return `Choose ${VOWEL_START.test(label) ? "an" : "a"} ${label}`;
+}
+
+function validateFeatureReferences(data: FeatureInput, errors: FieldErrors) {
+  for (const field of FEATURE_REFERENCE_FIELDS) {
+    const value = data[field];
+    // owner and parent are optional and can be cleared
+    if (value !== undefined && value !== null && !isUuid(value)) {
+      errors[field] = chooseMessage(field);
+    }
+  }
+}
+
+function validateFeatureDates(data: FeatureInput, errors: FieldErrors) {
+  for (const field of ["startAt", "endAt"] as const) {
+    if (data[field] !== undefined && !isValidDate(data[field])) {
+      errors[field] = "Enter a valid date";
+    }
+  }
+  if (!(isValidDate(data.startAt) && isValidDate(data.endAt))) {
+    return;
+  }
+  if (data.endAt < data.startAt) {
+    errors.endAt = "End date must be on or after the start date";
+  } else if (
+    data.kind === "milestone" &&
+    data.endAt.getTime() !== data.startAt.getTime()
+  ) {
+    errors.endAt = "A milestone starts and ends at the same time";
+  }
+}
+
+function validateFeatureConstraint(data: FeatureInput, errors: FieldErrors) {
+  if (data.constraintType === undefined && data.constraintDate === undefined) {
+    return;
+  }
+  if (!data.constraintType !== !data.constraintDate) {
+    errors.constraintDate = "Choose both a constraint and its date";
+  } else if (data.constraintDate && !isDateString(data.constraintDate)) {
+    errors.constraintDate = "Enter a valid date";
+  }
+}
+
+function validateRequiredFeatureFields(
+  data: FeatureInput,
+  errors: FieldErrors
+) {
+  for (const field of REQUIRED_FEATURE_FIELDS) {
+    if (data[field] === undefined || data[field] === null) {
+      errors[field] =
+        field in REFERENCE_LABELS
+          ? chooseMessage(field as FeatureReferenceField)
+          : "This field is required";
+    }
+  }
+}
+
+// Progress and the three-point duration estimate
+function validateFeatureNumbers(data: FeatureInput, errors: FieldErrors) {
+  const { percentComplete, optimisticDuration, mostLikelyDuration } = data;
+  if (
+    percentComplete !== undefined &&
+    !(
+      Number.isInteger(percentComplete) &&
+      percentComplete >= 0 &&
+      percentComplete <= 100
+    )
+  ) {
+    errors.percentComplete =
+      "Progress must be a whole number between 0 and 100";
+  }
+
+  if (
+    optimisticDuration !== undefined ||
+    mostLikelyDuration !== undefined ||
+    data.pessimisticDuration !== undefined
+  ) {
+    Object.assign(
+      errors,
+      validateEstimate({
+        optimisticDuration: optimisticDuration ?? null,
+        mostLikelyDuration: mostLikelyDuration ?? null,
+        pessimisticDuration: data.pessimisticDuration ?? null,
+      })
+    );
+  }
+}
+
+/**
+ * Check the fields present in a feature write. Cross-field rules (end after
+ * start, milestones, estimates) apply when all their fields are given, so
+ * pass an update merged over the current row to check those too.
+ *
+ * @param data - Feature fields to check
+ * @param options.create - Also require the fields a new feature needs
+ * @returns Message per invalid field
+ */
+export function validateFeature(
+  data: FeatureInput,
+  { create = false }: { create?: boolean } = {}
+): FieldErrors {
+  const errors: FieldErrors = {};
+  if (create) {
+    validateRequiredFeatureFields(data, errors);
+  }
+  if (data.name !== undefined) {
+    const nameError = validateName(data.name);
+    if (nameError) {
+      errors.name = nameError;
+    }
+  }
+  if (data.kind !== undefined && !FEATURE_KINDS.includes(data.kind)) {
+    errors.kind = "Choose a task or a milestone";
+  }
+  validateFeatureDates(data, errors);
+  validateFeatureReferences(data, errors);
+  validateFeatureConstraint(data, errors);
+  validateFeatureNumbers(data, errors);
+  return errors;
+}